@@ -27,6 +27,8 @@ export enum AgentStatus {
  * Current step in the agent's execution
  */
 export interface AgentStep {
+    /** Persisted Step record ID, once written */
+    id?: string;
     stepNumber: number;
     status: AgentStatus;
     startedAt: Date;
@@ -174,6 +176,30 @@ export function completeStep(
     };
 }
 
+/**
+ * Attach the persisted Step record to the current step
+ */
+export function setStepRecord(
+    state: AgentState,
+    stepId: string,
+    inputTokens: number,
+    outputTokens: number
+): AgentState {
+    if (!state.currentStep) {
+        return state;
+    }
+
+    return {
+        ...state,
+        currentStep: {
+            ...state.currentStep,
+            id: stepId,
+            inputTokens,
+            outputTokens,
+        },
+    };
+}
+
 /**
  * Record tool calls in current step
  */
@@ -4,7 +4,7 @@
  */
 
 import { Agent, Block } from '@prisma/client';
-import { BaseAgent, AgentConfig, AgentResult } from './base-agent';
+import { BaseAgent, AgentConfig, AgentResult, AgentStreamEvent } from './base-agent';
 import {
     ToolCall,
     ToolReturn,
@@ -19,9 +19,12 @@ import { blockManager } from '../services/block-manager';
 
 export class MirixAgent extends BaseAgent {
     private coreMemory: Block[] = [];
+    /** Only this user's core memory blocks are loaded, when set */
+    private readonly coreMemoryUserId?: string;
 
-    constructor(agent: Agent, config: Partial<AgentConfig> = {}) {
+    constructor(agent: Agent, config: Partial<AgentConfig> = {}, options: { userId?: string } = {}) {
         super(agent, config);
+        this.coreMemoryUserId = options.userId;
     }
 
     // ========================================================================
@@ -44,7 +47,8 @@ export class MirixAgent extends BaseAgent {
             this.state.agent.id,
             this.state.agent.organizationId
                 ? { id: '', organizationId: this.state.agent.organizationId }
-                : undefined
+                : undefined,
+            this.coreMemoryUserId
         );
     }
 
@@ -64,12 +68,9 @@ export class MirixAgent extends BaseAgent {
         }
 
         // Add core memory section
-        if (this.coreMemory.length > 0) {
-            parts.push('\n\n<core_memory>');
-            for (const block of this.coreMemory) {
-                parts.push(`\n<${block.label}>\n${block.value}\n</${block.label}>`);
-            }
-            parts.push('\n</core_memory>');
+        const coreMemory = this.getCoreMemoryText();
+        if (coreMemory) {
+            parts.push(`\n\n${coreMemory}`);
         }
 
         // Add current datetime
@@ -78,6 +79,23 @@ export class MirixAgent extends BaseAgent {
         return parts.join('\n');
     }
 
+    /**
+     * Render core memory blocks for the system prompt
+     */
+    protected getCoreMemoryText(): string {
+        if (this.coreMemory.length === 0) {
+            return '';
+        }
+
+        const parts: string[] = ['<core_memory>'];
+        for (const block of this.coreMemory) {
+            parts.push(`\n<${block.label}>\n${block.value}\n</${block.label}>`);
+        }
+        parts.push('\n</core_memory>');
+
+        return parts.join('\n');
+    }
+
     // ========================================================================
     // TOOL EXECUTION
     // ========================================================================
@@ -167,6 +185,28 @@ export class MirixAgent extends BaseAgent {
 
         return this.step(message, context);
     }
+
+    /**
+     * Send a message and stream events while the agent runs
+     */
+    chatStream(
+        message: string,
+        userId: string,
+        options?: {
+            clientId?: string;
+            stepId?: string;
+        }
+    ): AsyncGenerator<AgentStreamEvent> {
+        const context: ToolExecutionContext = {
+            agentId: this.state.agent.id,
+            userId,
+            organizationId: this.state.agent.organizationId ?? '',
+            clientId: options?.clientId,
+            stepId: options?.stepId,
+        };
+
+        return this.stepStream(message, context);
+    }
 }
 
 // ============================================================================
@@ -4,7 +4,7 @@
  */
 
 import { Agent, Message } from '@prisma/client';
-import { generateText } from 'ai';
+import { generateText, streamText } from 'ai';
 import { z } from 'zod';
 import { logger } from '../log';
 
@@ -15,14 +15,29 @@ type LLMMessage = {
 };
 import { prismaRaw } from '../database/prisma-client';
 import { createModel } from '../llm_api/client';
+import { stepManager } from '../services/step-manager';
+import { agentManager } from '../services/agent-manager';
+import { summarizerSettings } from '../settings';
+import { ContextWindowOverview } from '../schemas/memory';
+import { countTokens } from '../utils';
+import {
+    SUMMARY_MESSAGE_NAME,
+    countMessageTokens,
+    formatSummaryMessage,
+    isSummaryMessage,
+    selectEvictionCutoff,
+    summarizeMessages,
+} from './summarizer';
 import { LLMConfig, createDefaultLLMConfig } from '../schemas/llm_config';
 import {
     AgentState,
+    AgentStep,
     AgentStatus,
     createAgentState,
     updateStatus,
     startStep,
     completeStep,
+    setStepRecord,
     recordToolCalls,
     recordToolReturns,
     updateTokenUsage,
@@ -84,8 +99,53 @@ export interface AgentResult {
     stepCount: number;
     executionTimeMs: number;
     error?: string;
+    /** Set when the run was stopped early through `interrupt()` */
+    interrupted?: boolean;
 }
 
+// ============================================================================
+// STREAM EVENT TYPES
+// ============================================================================
+
+export type AgentStreamEvent =
+    | { type: 'token'; step: number; delta: string }
+    | { type: 'reasoning'; step: number; delta: string }
+    | {
+        type: 'tool_call_started';
+        step: number;
+        toolCallId: string;
+        name: string;
+        arguments: Record<string, unknown>;
+        /** Persisted Step for the LLM call that requested the tool */
+        stepId?: string;
+        /** Tokens used by that LLM call, shared by every tool call it requested */
+        stepUsage: AgentResult['tokenUsage'];
+    }
+    | {
+        type: 'tool_return';
+        step: number;
+        toolCallId: string;
+        name: string;
+        result: unknown;
+    }
+    | {
+        type: 'step_completed';
+        step: number;
+        tokenUsage: AgentResult['tokenUsage'];
+    }
+    | {
+        type: 'usage';
+        success: boolean;
+        message?: string;
+        stepCount: number;
+        tokenUsage: AgentResult['tokenUsage'];
+        executionTimeMs: number;
+        error?: string;
+        interrupted?: boolean;
+    };
+
+export type AgentStreamListener = (event: AgentStreamEvent) => void;
+
 // ============================================================================
 // BASE AGENT
 // ============================================================================
@@ -97,6 +157,9 @@ export abstract class BaseAgent {
     protected config: AgentConfig;
     protected tools: ToolDefinition[] = [];
     protected toolRules: ToolRule[] = [];
+    protected streamListener?: AgentStreamListener;
+    /** Reason given to `interrupt()` for the run in progress */
+    protected interruptReason?: string;
 
     constructor(agent: Agent, config: Partial<AgentConfig> = {}) {
         this.state = createAgentState(agent);
@@ -138,6 +201,11 @@ export abstract class BaseAgent {
     ): Promise<AgentResult> {
         const startTime = Date.now();
 
+        // A stop flag left by a previous run must not end this one, unless an interrupt is already pending
+        if (!this.interruptReason) {
+            this.state = { ...this.state, shouldStop: false, stopReason: undefined };
+        }
+
         try {
             this.state = updateStatus(this.state, AgentStatus.THINKING);
             this.state.executionStartedAt = new Date();
@@ -153,6 +221,24 @@ export abstract class BaseAgent {
             // Execute inner loop
             const result = await this.innerLoop(context);
 
+            if (this.interruptReason) {
+                this.logger.info(
+                    { agentId: this.state.agent.id, reason: this.interruptReason, step: this.state.stepNumber },
+                    'Agent execution interrupted'
+                );
+
+                return {
+                    success: false,
+                    message: result.assistantMessage,
+                    messages: this.state.messages,
+                    tokenUsage: this.getTokenUsage(),
+                    stepCount: this.state.stepNumber,
+                    executionTimeMs: Date.now() - startTime,
+                    error: `Interrupted: ${this.interruptReason}`,
+                    interrupted: true,
+                };
+            }
+
             return {
                 success: true,
                 message: result.assistantMessage,
@@ -186,9 +272,94 @@ export abstract class BaseAgent {
                 executionTimeMs: Date.now() - startTime,
                 error: errorMessage,
             };
+        } finally {
+            this.interruptReason = undefined;
         }
     }
 
+    /**
+     * Ask the run in progress to stop at the next step boundary.
+     * The LLM call or tool executing right now is allowed to finish.
+     */
+    interrupt(reason: string): void {
+        this.interruptReason = reason;
+        this.state = setShouldStop(this.state, reason);
+    }
+
+    /**
+     * Run a step and yield events as the agent works.
+     * The final event is always a `usage` event with the overall result.
+     */
+    async *stepStream(
+        userMessage?: string,
+        context?: ToolExecutionContext
+    ): AsyncGenerator<AgentStreamEvent> {
+        const pending: AgentStreamEvent[] = [];
+        let wake: () => void = () => {};
+        let finished = false;
+
+        this.streamListener = (event) => {
+            pending.push(event);
+            wake();
+        };
+
+        const run = this.step(userMessage, context).finally(() => {
+            finished = true;
+            wake();
+        });
+
+        try {
+            while (true) {
+                const next = pending.shift();
+                if (next) {
+                    yield next;
+                    continue;
+                }
+                if (finished) break;
+                await new Promise<void>((resolve) => {
+                    wake = resolve;
+                });
+            }
+
+            const result = await run;
+            yield {
+                type: 'usage',
+                success: result.success,
+                message: result.message,
+                stepCount: result.stepCount,
+                tokenUsage: result.tokenUsage,
+                executionTimeMs: result.executionTimeMs,
+                error: result.error,
+                interrupted: result.interrupted,
+            };
+        } finally {
+            this.streamListener = undefined;
+
+            // Consumer went away early; let the loop wind down at the next step boundary
+            if (!finished) {
+                this.state = setShouldStop(this.state, 'Stream closed');
+            }
+        }
+    }
+
+    /**
+     * Forward an event to the active stream, if any
+     */
+    protected emit(event: AgentStreamEvent): void {
+        this.streamListener?.(event);
+    }
+
+    /**
+     * Cumulative token usage in result format
+     */
+    protected getTokenUsage(): AgentResult['tokenUsage'] {
+        return {
+            input: this.state.tokenUsage.inputTokens,
+            output: this.state.tokenUsage.outputTokens,
+            total: this.state.tokenUsage.totalTokens,
+        };
+    }
+
     /**
      * Inner execution loop
      */
@@ -208,13 +379,14 @@ export abstract class BaseAgent {
 
             // Get AI response
             const response = await this.getAiReply();
+            const promptTokens = response.usage?.promptTokens ?? 0;
+            const completionTokens = response.usage?.completionTokens ?? 0;
 
             // Update token usage
-            this.state = updateTokenUsage(
-                this.state,
-                response.usage?.promptTokens ?? 0,
-                response.usage?.completionTokens ?? 0
-            );
+            this.state = updateTokenUsage(this.state, promptTokens, completionTokens);
+
+            // Persist the step so the messages it produces can reference it
+            await this.recordStep(promptTokens, completionTokens);
 
             // Handle response
             if (response.toolCalls && response.toolCalls.length > 0) {
@@ -227,6 +399,22 @@ export abstract class BaseAgent {
 
                 this.state = recordToolCalls(this.state, toolCalls);
 
+                for (const tc of toolCalls) {
+                    this.emit({
+                        type: 'tool_call_started',
+                        step: this.state.stepNumber,
+                        toolCallId: tc.id,
+                        name: tc.name,
+                        arguments: tc.arguments,
+                        stepId: this.currentStepId,
+                        stepUsage: {
+                            input: promptTokens,
+                            output: completionTokens,
+                            total: promptTokens + completionTokens,
+                        },
+                    });
+                }
+
                 // Execute tools
                 const executionContext: ToolExecutionContext = context ?? {
                     agentId: this.state.agent.id,
@@ -237,6 +425,16 @@ export abstract class BaseAgent {
                 const toolReturns = await this.processToolCalls(toolCalls, executionContext);
                 this.state = recordToolReturns(this.state, toolReturns);
 
+                for (const tr of toolReturns) {
+                    this.emit({
+                        type: 'tool_return',
+                        step: this.state.stepNumber,
+                        toolCallId: tr.toolCallId,
+                        name: tr.name,
+                        result: tr.result,
+                    });
+                }
+
                 // Update tool state
                 for (const tc of toolCalls) {
                     this.state.toolState = updateExecutionState(this.state.toolState, tc.name);
@@ -255,7 +453,7 @@ export abstract class BaseAgent {
                 // Final text response
                 assistantMessage = response.text;
                 await this.handleFinalResponse(assistantMessage);
-                this.state = completeStep(this.state, {
+                await this.finishStep({
                     assistantMessage,
                     status: AgentStatus.COMPLETED,
                 });
@@ -266,7 +464,7 @@ export abstract class BaseAgent {
                 break;
             }
 
-            this.state = completeStep(this.state, { status: AgentStatus.COMPLETED });
+            await this.finishStep({ status: AgentStatus.COMPLETED });
         }
 
         if (chainingCount >= this.config.maxChainingSteps) {
@@ -276,6 +474,89 @@ export abstract class BaseAgent {
         return { assistantMessage };
     }
 
+    // ========================================================================
+    // STEP PERSISTENCE
+    // ========================================================================
+
+    /**
+     * Write a Step row for the current LLM call.
+     * Failures are logged and do not interrupt the agent.
+     */
+    protected async recordStep(inputTokens: number, outputTokens: number): Promise<void> {
+        const step = this.state.currentStep;
+        if (!step) return;
+
+        const llmConfig = this.resolveLlmConfig();
+
+        try {
+            const record = await stepManager.create({
+                organizationId: this.state.agent.organizationId ?? undefined,
+                agentId: this.state.agent.id,
+                origin: llmConfig.modelEndpoint ?? undefined,
+                providerName: llmConfig.modelEndpointType,
+                model: llmConfig.model,
+                contextWindowLimit: llmConfig.contextWindow,
+                promptTokens: inputTokens,
+                completionTokens: outputTokens,
+                totalTokens: inputTokens + outputTokens,
+                startedAt: step.startedAt,
+            });
+
+            this.state = setStepRecord(this.state, record.id, inputTokens, outputTokens);
+        } catch (error) {
+            this.logger.warn(
+                { agentId: this.state.agent.id, step: step.stepNumber, error },
+                'Failed to persist agent step'
+            );
+        }
+    }
+
+    /**
+     * Complete the current step, stamp its completion time and notify listeners
+     */
+    protected async finishStep(updates: Partial<AgentStep>): Promise<void> {
+        const stepId = this.state.currentStep?.id;
+
+        this.state = completeStep(this.state, updates);
+
+        if (stepId) {
+            try {
+                await stepManager.update(stepId, { completedAt: new Date() });
+            } catch (error) {
+                this.logger.warn({ stepId, error }, 'Failed to mark agent step completed');
+            }
+        }
+
+        this.emit({
+            type: 'step_completed',
+            step: this.state.stepNumber,
+            tokenUsage: this.getTokenUsage(),
+        });
+    }
+
+    /**
+     * Persisted Step ID for the step in progress, if any
+     */
+    protected get currentStepId(): string | undefined {
+        return this.state.currentStep?.id;
+    }
+
+    /**
+     * Resolve the LLM config from the agent, falling back to defaults
+     */
+    protected resolveLlmConfig(): LLMConfig {
+        const agentLlmConfig = this.state.agent.llmConfig as Partial<LLMConfig> | null;
+
+        if (agentLlmConfig && agentLlmConfig.model && agentLlmConfig.modelEndpointType) {
+            return {
+                ...createDefaultLLMConfig('gpt-4o'),
+                ...agentLlmConfig,
+            } as LLMConfig;
+        }
+
+        return createDefaultLLMConfig('gpt-4o');
+    }
+
     /**
      * Get AI reply from LLM
      */
@@ -304,18 +585,7 @@ export abstract class BaseAgent {
         const toolsForLLM = toolRegistry.getForLLM(availableTools);
 
         // Get LLM config from agent or use defaults
-        const agentLlmConfig = this.state.agent.llmConfig as Partial<LLMConfig> | null;
-        let llmConfig: LLMConfig;
-
-        if (agentLlmConfig && agentLlmConfig.model && agentLlmConfig.modelEndpointType) {
-            llmConfig = {
-                ...createDefaultLLMConfig('gpt-4o'),
-                ...agentLlmConfig,
-            } as LLMConfig;
-        } else {
-            llmConfig = createDefaultLLMConfig('gpt-4o');
-        }
-
+        const llmConfig = this.resolveLlmConfig();
         const languageModel = createModel(llmConfig);
 
         // Build tools for Vercel AI SDK format
@@ -345,6 +615,16 @@ export abstract class BaseAgent {
             };
         }
 
+        // Stream tokens when someone is listening
+        if (this.streamListener) {
+            return this.streamAiReply({
+                model: languageModel,
+                system: systemPrompt,
+                messages,
+                tools: aiTools,
+            });
+        }
+
         // Generate response
         const response = await generateText({
             model: languageModel,
@@ -378,6 +658,55 @@ export abstract class BaseAgent {
         };
     }
 
+    /**
+     * Get AI reply via streamText, emitting token and reasoning deltas
+     */
+    private async streamAiReply(request: {
+        model: ReturnType<typeof createModel>;
+        system: string;
+        messages: LLMMessage[];
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        tools: Record<string, any>;
+    }): Promise<Awaited<ReturnType<BaseAgent['getAiReply']>>> {
+        const result = streamText({
+            ...request,
+            temperature: this.config.temperature,
+            maxOutputTokens: 4096,
+        });
+
+        const step = this.state.stepNumber;
+        for await (const part of result.fullStream) {
+            if (part.type === 'text-delta') {
+                this.emit({ type: 'token', step, delta: part.text });
+            } else if (part.type === 'reasoning-delta') {
+                this.emit({ type: 'reasoning', step, delta: part.text });
+            } else if (part.type === 'error') {
+                throw part.error instanceof Error ? part.error : new Error(String(part.error));
+            }
+        }
+
+        const [text, toolCalls, usage] = await Promise.all([
+            result.text,
+            result.toolCalls,
+            result.usage,
+        ]);
+
+        return {
+            text,
+            toolCalls: toolCalls.length > 0
+                ? toolCalls.map((tc) => ({
+                    toolCallId: tc.toolCallId,
+                    toolName: tc.toolName,
+                    args: tc.input,
+                }))
+                : undefined,
+            usage: {
+                promptTokens: usage.inputTokens ?? 0,
+                completionTokens: usage.outputTokens ?? 0,
+            },
+        };
+    }
+
     // ========================================================================
     // MESSAGE MANAGEMENT
     // ========================================================================
@@ -397,19 +726,198 @@ export abstract class BaseAgent {
      */
     protected async loadContext(): Promise<void> {
         // Load messages
-        const messages = await this.prisma.message.findMany({
+        this.state.messages = await this.loadInContextMessages();
+
+        // Load tools
+        await this.loadTools();
+
+        // Keep the context window under the warning threshold
+        await this.summarizeIfNeeded();
+    }
+
+    /**
+     * Load the messages currently in context.
+     * Once a summary has been written, `agent.messageIds` anchors the window
+     * (summary + kept messages) and everything created after it is appended.
+     */
+    protected async loadInContextMessages(): Promise<Message[]> {
+        const anchorIds = (this.state.agent.messageIds as string[] | null) ?? [];
+
+        if (anchorIds.length === 0) {
+            const recent = await this.prisma.message.findMany({
+                where: {
+                    agentId: this.state.agent.id,
+                    isDeleted: false,
+                },
+                orderBy: { createdAt: 'desc' },
+                take: 100,
+            });
+            return recent.reverse();
+        }
+
+        const anchored = await this.prisma.message.findMany({
+            where: { id: { in: anchorIds }, isDeleted: false },
+        });
+        anchored.sort((a, b) => anchorIds.indexOf(a.id) - anchorIds.indexOf(b.id));
+
+        const since = anchored.reduce<Date | undefined>(
+            (latest, m) => (!latest || m.createdAt > latest ? m.createdAt : latest),
+            undefined
+        );
+
+        const newer = await this.prisma.message.findMany({
             where: {
                 agentId: this.state.agent.id,
                 isDeleted: false,
+                id: { notIn: anchorIds },
+                ...(since ? { createdAt: { gt: since } } : {}),
             },
             orderBy: { createdAt: 'asc' },
-            take: 100,
         });
 
-        this.state.messages = messages;
+        return [...anchored, ...newer];
+    }
 
-        // Load tools
-        await this.loadTools();
+    // ========================================================================
+    // CONTEXT WINDOW
+    // ========================================================================
+
+    /**
+     * Core memory as rendered into the system prompt, if the agent has any
+     */
+    protected getCoreMemoryText(): string {
+        return '';
+    }
+
+    /**
+     * Token breakdown of what is currently sent to the model
+     */
+    async getContextWindow(): Promise<ContextWindowOverview> {
+        const llmConfig = this.resolveLlmConfig();
+        const model = llmConfig.model;
+
+        const systemPrompt = await this.buildSystemPrompt();
+        const coreMemory = this.getCoreMemoryText();
+
+        const functionsDefinitions = toolRegistry.getForLLM(this.tools.map((t) => t.name));
+
+        const summary = this.state.messages.find(isSummaryMessage);
+        const messages = this.state.messages.filter((m) => !isSummaryMessage(m));
+
+        const numTokensSystem = countTokens(systemPrompt, model);
+        const numTokensSummaryMemory = summary ? countTokens(summary.text ?? '', model) : 0;
+        const numTokensFunctionsDefinitions = functionsDefinitions.length > 0
+            ? countTokens(JSON.stringify(functionsDefinitions), model)
+            : 0;
+        const numTokensMessages = countMessageTokens(messages, model).reduce((a, b) => a + b, 0);
+
+        const numRecallMemory = await this.prisma.message.count({
+            where: {
+                agentId: this.state.agent.id,
+                isDeleted: false,
+                OR: [{ name: null }, { name: { not: SUMMARY_MESSAGE_NAME } }],
+            },
+        });
+
+        return {
+            contextWindowSizeMax: llmConfig.contextWindow ?? this.config.contextWindowLimit,
+            // Core memory is embedded in the system prompt, so it is not added twice
+            contextWindowSizeCurrent:
+                numTokensSystem + numTokensSummaryMemory + numTokensFunctionsDefinitions + numTokensMessages,
+            numMessages: this.state.messages.length,
+            numArchivalMemory: 0,
+            numRecallMemory,
+            numTokensExternalMemorySummary: 0,
+            externalMemorySummary: '',
+            numTokensSystem,
+            systemPrompt,
+            numTokensCoreMemory: countTokens(coreMemory, model),
+            coreMemory,
+            numTokensSummaryMemory,
+            summaryMemory: summary?.text ?? null,
+            numTokensFunctionsDefinitions,
+            functionsDefinitions,
+            numTokensMessages,
+            messages: this.state.messages,
+        };
+    }
+
+    /**
+     * Summarize and evict older messages once the context crosses the warning threshold.
+     * The last N messages are kept verbatim; evicted ones are folded into a recursive
+     * summary message that heads the window.
+     */
+    protected async summarizeIfNeeded(): Promise<void> {
+        const overview = await this.getContextWindow();
+        const threshold = overview.contextWindowSizeMax * summarizerSettings.memoryWarningThreshold;
+
+        if (overview.contextWindowSizeCurrent <= threshold) {
+            return;
+        }
+
+        const llmConfig = this.resolveLlmConfig();
+        const messages = this.state.messages;
+        const cutoff = selectEvictionCutoff(
+            messages,
+            countMessageTokens(messages, llmConfig.model),
+            overview.contextWindowSizeMax,
+            summarizerSettings
+        );
+
+        if (cutoff === 0) {
+            this.logger.warn(
+                { agentId: this.state.agent.id, tokens: overview.contextWindowSizeCurrent },
+                'Context window over threshold but no messages can be evicted'
+            );
+            return;
+        }
+
+        const evicted = messages.slice(0, cutoff);
+        const kept = messages.slice(cutoff);
+        const previousSummary = evicted.find(isSummaryMessage)?.text ?? undefined;
+
+        let summary: string;
+        try {
+            summary = await summarizeMessages(llmConfig, evicted, {
+                previousSummary,
+                maxRetries: summarizerSettings.maxSummarizerRetries,
+            });
+        } catch (error) {
+            this.logger.error(
+                { agentId: this.state.agent.id, error },
+                'Failed to summarize context window'
+            );
+            return;
+        }
+
+        const hiddenCount = Math.max(0, overview.numRecallMemory - kept.length);
+        const summaryMessage = await this.prisma.message.create({
+            data: {
+                id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+                role: 'system',
+                name: SUMMARY_MESSAGE_NAME,
+                text: formatSummaryMessage(summary, hiddenCount, overview.numRecallMemory),
+                agentId: this.state.agent.id,
+                userId: this.state.agent.createdById ?? '',
+                organizationId: this.state.agent.organizationId,
+            },
+        });
+
+        const messageIds = [summaryMessage.id, ...kept.map((m) => m.id)];
+        await agentManager.updateMessageIds(this.state.agent.id, messageIds);
+
+        this.state.agent = { ...this.state.agent, messageIds };
+        this.state.messages = [summaryMessage, ...kept];
+
+        this.logger.info(
+            {
+                agentId: this.state.agent.id,
+                evicted: evicted.length,
+                kept: kept.length,
+                tokensBefore: overview.contextWindowSizeCurrent,
+            },
+            'Summarized context window'
+        );
     }
 
     /**
@@ -469,6 +977,7 @@ export abstract class BaseAgent {
                 agentId: this.state.agent.id,
                 userId: this.state.agent.createdById ?? '',
                 organizationId: this.state.agent.organizationId,
+                stepId: this.currentStepId,
             },
         });
 
@@ -501,6 +1010,7 @@ export abstract class BaseAgent {
                 agentId: this.state.agent.id,
                 userId: this.state.agent.createdById ?? '',
                 organizationId: this.state.agent.organizationId,
+                stepId: this.currentStepId,
             },
         });
 
@@ -516,6 +1026,7 @@ export abstract class BaseAgent {
                     agentId: this.state.agent.id,
                     userId: this.state.agent.createdById ?? '',
                     organizationId: this.state.agent.organizationId,
+                    stepId: this.currentStepId,
                 },
             });
         }
@@ -12,6 +12,7 @@ export {
     updateStatus,
     startStep,
     completeStep,
+    setStepRecord,
     recordToolCalls,
     recordToolReturns,
     updateTokenUsage,
@@ -29,8 +30,20 @@ export {
     DEFAULT_AGENT_CONFIG,
     type AgentConfig,
     type AgentResult,
+    type AgentStreamEvent,
+    type AgentStreamListener,
 } from './base-agent';
 
+// Summarizer
+export {
+    SUMMARY_MESSAGE_NAME,
+    countMessageTokens,
+    isSummaryMessage,
+    selectEvictionCutoff,
+    summarizeMessages,
+    formatSummaryMessage,
+} from './summarizer';
+
 // Main Agent
 export {
     MirixAgent,
@@ -42,13 +55,24 @@ export {
     MetaAgent,
     MemoryAgentStates,
     MEMORY_AGENT_CONFIGS,
+    MEMORY_UPDATE_AGENTS,
+    META_AGENT_NAME,
     createMetaAgent,
+    initializeMetaAgent,
+    loadMetaAgent,
+    ensureUserCoreMemory,
 } from './meta-agent';
 
 export type {
     MemoryAgentConfig,
     MetaAgentOptions,
+    InitializeMetaAgentOptions,
     MemoryAgentType,
     MetaAgentEmbeddingConfig,
     MetaAgentUsageStatistics,
+    MemoryUpdateType,
+    ConversationProcessingOptions,
+    ConversationProcessingResult,
+    MemoryAgentRunResult,
+    LoadMetaAgentOptions,
 } from './meta-agent';
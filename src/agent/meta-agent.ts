@@ -9,6 +9,7 @@
  */
 
 import { Agent } from '@prisma/client';
+import { z } from 'zod';
 import { logger } from '../log.js';
 import { LLMConfig, createDefaultLLMConfig } from '../schemas/llm_config.js';
 import { AgentInterface } from '../interface.js';
@@ -27,8 +28,22 @@ import {
     ToolCall,
     ToolReturn,
     ToolExecutionContext,
+    MEMORY_AGENT_TOOLS,
+    attachBuiltinTools,
 } from '../tools/index.js';
 import { Memory } from '../schemas/memory.js';
+import {
+    agentManager,
+    CoreBlockTemplate,
+    EmbeddingConfig,
+    MemoryConfig,
+} from '../services/agent-manager.js';
+import type { ActorContext } from '../services/base-manager.js';
+import { blockManager } from '../services/block-manager.js';
+import { userManager } from '../services/user-manager.js';
+import { traceManager } from '../services/trace-manager.js';
+import { LLMClient } from '../llm_api/client.js';
+import { runWithConcurrency } from '../utils.js';
 
 // ============================================================================
 // TYPES
@@ -202,6 +217,39 @@ export const MEMORY_AGENT_CONFIGS: MemoryAgentConfig[] = [
     },
 ];
 
+/**
+ * Memory types the meta memory agent can trigger, and the sub-agent that updates each
+ */
+export const MEMORY_UPDATE_AGENTS = {
+    core: 'core_memory_agent',
+    episodic: 'episodic_memory_agent',
+    semantic: 'semantic_memory_agent',
+    procedural: 'procedural_memory_agent',
+    resource: 'resource_memory_agent',
+    knowledge: 'knowledge_memory_agent',
+} as const satisfies Record<string, MemoryAgentType>;
+
+export type MemoryUpdateType = keyof typeof MEMORY_UPDATE_AGENTS;
+
+const MEMORY_UPDATE_TYPES = Object.keys(MEMORY_UPDATE_AGENTS) as [MemoryUpdateType, ...MemoryUpdateType[]];
+
+const MEMORY_TYPE_DESCRIPTIONS: Record<MemoryUpdateType, string> = {
+    core: 'persistent facts about the user such as name, preferences and personality',
+    episodic: 'time-stamped events and experiences the user went through',
+    semantic: 'concepts, people, places and general knowledge the user refers to',
+    procedural: 'step-by-step instructions, workflows and how-tos',
+    resource: 'documents, files, links and other content the user shared',
+    knowledge: 'structured facts and credentials such as addresses, accounts or keys',
+};
+
+const MemoryRoutingSchema = z.object({
+    memoryTypes: z.array(z.enum(MEMORY_UPDATE_TYPES)),
+    reasoning: z.string(),
+});
+
+/** Tool names that change memory when they succeed */
+const MEMORY_WRITE_TOOL_PATTERN = /_(insert|update|append|rewrite|replace)$/;
+
 // ============================================================================
 // META AGENT OPTIONS
 // ============================================================================
@@ -232,6 +280,56 @@ export interface MetaAgentUsageStatistics {
     stepCount: number;
 }
 
+// ============================================================================
+// CONVERSATION PROCESSING
+// ============================================================================
+
+export interface ConversationProcessingOptions {
+    /** Queue trace the agent traces are recorded under */
+    queueTraceId?: string;
+    /** Messages the conversation was built from, recorded as the provenance of the memories it produces */
+    messageIds?: string[];
+    /** When the conversation took place (ISO format), passed on to the sub-agents */
+    occurredAt?: string;
+    /** Maximum sub-agents run at once (default: settings.memoryAgentConcurrency) */
+    concurrency?: number;
+    context?: ToolExecutionContext;
+    /** Aborting stops running sub-agents at their next step boundary and skips the rest */
+    signal?: AbortSignal;
+    /** Called when routing starts and as each memory sub-agent starts and finishes */
+    onProgress?: (progress: ConversationProgress) => void;
+}
+
+export interface ConversationProgress {
+    stage: 'routing' | 'updating';
+    /** Memory types chosen by the meta memory agent, once routed */
+    triggeredMemoryTypes: MemoryUpdateType[];
+    /** Sub-agents currently running */
+    runningAgents: string[];
+    completedAgents: number;
+    totalAgents: number;
+}
+
+export interface MemoryAgentRunResult {
+    memoryType: MemoryUpdateType;
+    agentName: string;
+    traceId: string;
+    success: boolean;
+    /** Successful memory write tool calls */
+    updates: number;
+    error?: string;
+}
+
+export interface ConversationProcessingResult {
+    triggeredMemoryTypes: MemoryUpdateType[];
+    memoryUpdateCounts: Partial<Record<MemoryUpdateType, number>>;
+    /** Meta memory agent's reasoning for its routing decision */
+    metaAgentOutput: string;
+    agentResults: MemoryAgentRunResult[];
+    /** Set when the run was interrupted through the abort signal */
+    interruptReason?: string;
+}
+
 // ============================================================================
 // META AGENT
 // ============================================================================
@@ -440,7 +538,7 @@ Your role is to perform memory maintenance tasks in the background.`,
                     contextWindowLimit: this.config.contextWindowLimit,
                     temperature: this.config.temperature,
                     streaming: this.config.streaming,
-                });
+                }, { userId: this.userId });
 
                 this.agents.set(config.name, agentInstance);
             }
@@ -550,11 +648,7 @@ Your role is to:
         agentName?: string,
         context?: ToolExecutionContext
     ): Promise<MetaAgentUsageStatistics> {
-        const executionContext = context ?? {
-            agentId: this.agentId,
-            userId: this.userId,
-            organizationId: this.organizationId ?? '',
-        };
+        const executionContext = context ?? this.defaultExecutionContext();
 
         if (agentName !== undefined) {
             // Route to specific agent
@@ -563,7 +657,8 @@ Your role is to:
             }
 
             const agent = this.agents.get(agentName)!;
-            const result = await agent.step(messages, executionContext);
+            // Memory tools write under the sub-agent that called them
+            const result = await agent.step(messages, { ...executionContext, agentId: agent.agentId });
 
             return this.convertToUsageStatistics(result);
         }
@@ -590,6 +685,281 @@ Your role is to:
         };
     }
 
+    /**
+     * Tool execution context for runs started without one
+     */
+    private defaultExecutionContext(): ToolExecutionContext {
+        return {
+            agentId: this.agentId,
+            userId: this.userId,
+            organizationId: this.organizationId ?? '',
+            clientId: this.clientId,
+        };
+    }
+
+    // ========================================================================
+    // CONVERSATION PROCESSING
+    // ========================================================================
+
+    /**
+     * Let the meta memory agent pick the memory types a conversation should
+     * update, then run the matching sub-agents at most `concurrency` at a time.
+     * Every run is recorded as a MemoryAgentTrace under the queue trace, with
+     * the sub-agent traces parented to the meta memory agent's trace.
+     */
+    async processConversation(
+        conversation: string,
+        options: ConversationProcessingOptions = {}
+    ): Promise<ConversationProcessingResult> {
+        const context: ToolExecutionContext = {
+            ...(options.context ?? this.defaultExecutionContext()),
+            queueTraceId: options.queueTraceId,
+            sourceMessageIds: options.messageIds,
+        };
+        const metaMemoryAgent = this.agents.get('meta_memory_agent');
+
+        const metaTrace = await traceManager.startAgentTrace({
+            organizationId: this.organizationId,
+            queueTraceId: options.queueTraceId,
+            agentId: metaMemoryAgent?.agentId ?? this.agentId,
+            agentName: 'meta_memory_agent',
+            agentType: 'meta_memory_agent',
+        });
+
+        options.onProgress?.({
+            stage: 'routing',
+            triggeredMemoryTypes: [],
+            runningAgents: [],
+            completedAgents: 0,
+            totalAgents: 0,
+        });
+
+        let routing: z.infer<typeof MemoryRoutingSchema>;
+        try {
+            routing = await this.routeConversation(conversation);
+        } catch (error) {
+            await traceManager.completeAgentTrace(metaTrace.id, {
+                success: false,
+                errorMessage: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+        }
+
+        const triggeredMemoryTypes = [...new Set(routing.memoryTypes)].filter(
+            (type) => this.agents.has(MEMORY_UPDATE_AGENTS[type])
+        );
+
+        await traceManager.completeAgentTrace(metaTrace.id, {
+            success: true,
+            assistantMessages: [routing.reasoning],
+            triggeredMemoryTypes,
+        });
+
+        this.metaLogger.info(
+            { triggeredMemoryTypes, queueTraceId: options.queueTraceId },
+            'Meta memory agent routed conversation'
+        );
+
+        const runningAgents = new Set<string>();
+        let completedAgents = 0;
+        const reportProgress = (): void => {
+            options.onProgress?.({
+                stage: 'updating',
+                triggeredMemoryTypes,
+                runningAgents: Array.from(runningAgents),
+                completedAgents,
+                totalAgents: triggeredMemoryTypes.length,
+            });
+        };
+        reportProgress();
+
+        const prompt = this.buildMemoryUpdatePrompt(conversation, options.occurredAt);
+        const agentResults = await runWithConcurrency(
+            triggeredMemoryTypes,
+            async (memoryType) => {
+                const agentName = MEMORY_UPDATE_AGENTS[memoryType];
+                runningAgents.add(agentName);
+                reportProgress();
+                try {
+                    return await this.runMemoryAgent(memoryType, prompt, context, {
+                        queueTraceId: options.queueTraceId,
+                        parentTraceId: metaTrace.id,
+                    }, options.signal);
+                } finally {
+                    runningAgents.delete(agentName);
+                    completedAgents++;
+                    reportProgress();
+                }
+            },
+            options.concurrency ?? settings.memoryAgentConcurrency
+        );
+
+        const memoryUpdateCounts: Partial<Record<MemoryUpdateType, number>> = {};
+        for (const result of agentResults) {
+            memoryUpdateCounts[result.memoryType] = result.updates;
+        }
+
+        return {
+            triggeredMemoryTypes,
+            memoryUpdateCounts,
+            metaAgentOutput: routing.reasoning,
+            agentResults,
+            interruptReason: options.signal?.aborted ? abortReason(options.signal) : undefined,
+        };
+    }
+
+    /**
+     * Ask the meta memory agent which memory types the conversation should update
+     */
+    private async routeConversation(
+        conversation: string
+    ): Promise<z.infer<typeof MemoryRoutingSchema>> {
+        const available = MEMORY_UPDATE_TYPES.filter((type) => this.agents.has(MEMORY_UPDATE_AGENTS[type]));
+        if (available.length === 0) {
+            return { memoryTypes: [], reasoning: 'No memory sub-agents are available' };
+        }
+
+        const agent = this.memoryAgentStates.metaMemoryAgentState?.agent;
+        const agentLlmConfig = agent?.llmConfig as Partial<LLMConfig> | null | undefined;
+        const llmConfig = agentLlmConfig?.model && agentLlmConfig.modelEndpointType
+            ? { ...createDefaultLLMConfig(agentLlmConfig.model), ...agentLlmConfig } as LLMConfig
+            : this.llmConfig;
+
+        const memoryTypeList = available
+            .map((type) => `- ${type}: ${MEMORY_TYPE_DESCRIPTIONS[type]}`)
+            .join('\n');
+
+        const { object } = await new LLMClient(llmConfig).generateStructured(
+            `Decide which memory types should be updated with information from this conversation.
+Only choose a type when the conversation contains new information for it; choose none if nothing is worth remembering.
+
+Memory types:
+${memoryTypeList}
+
+Conversation:
+${conversation}`,
+            MemoryRoutingSchema,
+            {
+                system: agent?.system ?? this.getSystemPromptForAgent('meta_memory_agent'),
+                temperature: 0,
+            }
+        );
+
+        return object;
+    }
+
+    /**
+     * Run one memory sub-agent over the conversation, tracing its tool calls
+     * and counting the memory writes that succeeded
+     */
+    private async runMemoryAgent(
+        memoryType: MemoryUpdateType,
+        prompt: string,
+        context: ToolExecutionContext,
+        trace: { queueTraceId?: string; parentTraceId: string },
+        signal?: AbortSignal
+    ): Promise<MemoryAgentRunResult> {
+        const agentName = MEMORY_UPDATE_AGENTS[memoryType];
+        const agent = this.agents.get(agentName)!;
+
+        const agentTrace = await traceManager.startAgentTrace({
+            organizationId: this.organizationId,
+            queueTraceId: trace.queueTraceId,
+            parentTraceId: trace.parentTraceId,
+            agentId: agent.agentId,
+            agentName,
+            agentType: agentName,
+        });
+
+        const toolCallTraceIds = new Map<string, string>();
+        let updates = 0;
+        let outcome: { success: boolean; message?: string; error?: string } = {
+            success: false,
+            error: 'Agent run ended without a result',
+        };
+
+        const onAbort = (): void => agent.interrupt(abortReason(signal!));
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        try {
+            if (signal?.aborted) {
+                throw new Error(`Interrupted: ${abortReason(signal)}`);
+            }
+
+            // Memory tools write under the sub-agent that called them
+            const toolContext = {
+                ...context,
+                agentId: agent.agentId,
+                agentType: agentName,
+                traceId: agentTrace.id,
+            };
+            for await (const event of agent.stepStream(prompt, toolContext)) {
+                if (event.type === 'tool_call_started') {
+                    const call = await traceManager.startToolCall(agentTrace.id, {
+                        toolCallId: event.toolCallId,
+                        functionName: event.name,
+                        functionArgs: event.arguments,
+                        llmCallId: event.stepId,
+                        promptTokens: event.stepUsage.input,
+                        completionTokens: event.stepUsage.output,
+                        totalTokens: event.stepUsage.total,
+                    });
+                    toolCallTraceIds.set(event.toolCallId, call.id);
+                } else if (event.type === 'tool_return') {
+                    const error = toolReturnError(event.result);
+                    const callTraceId = toolCallTraceIds.get(event.toolCallId);
+                    if (callTraceId) {
+                        await traceManager.completeToolCall(callTraceId, {
+                            success: !error,
+                            responseText: error ? undefined : stringifyToolResult(event.result),
+                            errorMessage: error,
+                        });
+                    }
+                    if (!error && MEMORY_WRITE_TOOL_PATTERN.test(event.name)) {
+                        updates++;
+                    }
+                } else if (event.type === 'usage') {
+                    outcome = { success: event.success, message: event.message, error: event.error };
+                }
+            }
+        } catch (error) {
+            outcome = { success: false, error: error instanceof Error ? error.message : String(error) };
+        } finally {
+            signal?.removeEventListener('abort', onAbort);
+        }
+
+        await traceManager.completeAgentTrace(agentTrace.id, {
+            success: outcome.success,
+            errorMessage: outcome.error,
+            assistantMessages: outcome.message ? [outcome.message] : [],
+            triggeredMemoryTypes: [memoryType],
+            memoryUpdateCounts: { [memoryType]: updates },
+        });
+
+        if (!outcome.success) {
+            this.metaLogger.warn({ agentName, error: outcome.error }, 'Memory sub-agent failed');
+        }
+
+        return {
+            memoryType,
+            agentName,
+            traceId: agentTrace.id,
+            success: outcome.success,
+            updates,
+            error: outcome.error,
+        };
+    }
+
+    /**
+     * Message handed to each memory sub-agent
+     */
+    private buildMemoryUpdatePrompt(conversation: string, occurredAt?: string): string {
+        const when = occurredAt ? `\nThe conversation took place at ${occurredAt}.` : '';
+        return `Save anything from the following conversation that belongs in your memory.${when}
+
+${conversation}`;
+    }
+
     /**
      * Update the LLM configuration for all memory agents
      */
@@ -652,6 +1022,36 @@ Your role is to:
     }
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Error message of a failed tool return, if it failed
+ */
+function toolReturnError(result: unknown): string | undefined {
+    if (result && typeof result === 'object' && 'error' in result) {
+        return String((result as { error: unknown }).error);
+    }
+    return undefined;
+}
+
+/**
+ * Human-readable reason an abort signal was aborted with
+ */
+function abortReason(signal: AbortSignal): string {
+    const reason: unknown = signal.reason;
+    if (reason instanceof Error) {
+        // AbortController.abort() without a reason produces a DOMException
+        return reason.name === 'AbortError' ? 'Interrupted' : reason.message;
+    }
+    return reason === undefined ? 'Interrupted' : String(reason);
+}
+
+function stringifyToolResult(result: unknown): string {
+    return typeof result === 'string' ? result : JSON.stringify(result);
+}
+
 // ============================================================================
 // FACTORY FUNCTION
 // ============================================================================
@@ -663,4 +1063,222 @@ export function createMetaAgent(agent: Agent, options: MetaAgentOptions): MetaAg
     return new MetaAgent(agent, options);
 }
 
+/**
+ * Name of the persisted parent agent that owns the memory sub-agents
+ */
+export const META_AGENT_NAME = 'meta_agent';
+
+export interface InitializeMetaAgentOptions {
+    actor: ActorContext;
+    userId: string;
+    llmConfig?: LLMConfig;
+    topicExtractionLlmConfig?: LLMConfig;
+    embeddingConfig?: EmbeddingConfig;
+    memoryConfig?: MemoryConfig;
+    /** Core memory blocks every user of the meta agent starts with */
+    coreMemory?: CoreBlockTemplate[];
+    /**
+     * User whose core memory blocks are created right away. Other users get
+     * theirs when they are created or their first conversation is processed.
+     */
+    coreMemoryUserId?: string;
+    /** Sub-agents to create; meta_memory_agent is always included */
+    agents?: string[];
+    systemPrompts?: Record<string, string>;
+    systemPromptFolder?: string;
+    /** Update configs of agents and values of core blocks that already exist */
+    updateAgents?: boolean;
+}
+
+/**
+ * Create (or load) the meta agent and its memory sub-agents for a client
+ */
+export async function initializeMetaAgent(
+    options: InitializeMetaAgentOptions
+): Promise<MetaAgent> {
+    const { actor, updateAgents = false } = options;
+
+    if (options.coreMemoryUserId) {
+        // Blocks belong to a user, so fail before writing any agent
+        await userManager.read(options.coreMemoryUserId, actor);
+    }
+
+    const sharedConfig = {
+        llmConfig: options.llmConfig ?? createDefaultLLMConfig('gpt-4o-mini'),
+        topicExtractionLlmConfig: options.topicExtractionLlmConfig,
+        embeddingConfig: options.embeddingConfig,
+        memoryConfig: options.memoryConfig,
+    };
+
+    // The meta agent keeps the core block template for users added later
+    const metaConfig = {
+        ...sharedConfig,
+        memoryConfig: options.coreMemory
+            ? { ...options.memoryConfig, coreBlocks: options.coreMemory }
+            : options.memoryConfig,
+    };
+
+    let metaRecord = await agentManager.findByName(META_AGENT_NAME, actor);
+    if (!metaRecord) {
+        metaRecord = await agentManager.create(
+            {
+                name: META_AGENT_NAME,
+                agentType: 'meta_agent',
+                organizationId: actor.organizationId,
+                ...metaConfig,
+            },
+            actor
+        );
+    } else if (updateAgents) {
+        metaRecord = await agentManager.update(metaRecord.id, metaConfig, actor);
+    }
+
+    const metaAgent = new MetaAgent(metaRecord, {
+        userId: options.userId,
+        organizationId: actor.organizationId,
+        clientId: actor.id,
+        llmConfig: sharedConfig.llmConfig,
+        embeddingConfig: options.embeddingConfig
+            ? {
+                model: options.embeddingConfig.model,
+                endpointType: options.embeddingConfig.modelEndpointType,
+                endpoint: options.embeddingConfig.modelEndpoint,
+                dim: options.embeddingConfig.embeddingDim,
+            }
+            : undefined,
+        systemPrompts: options.systemPrompts,
+        systemPromptFolder: options.systemPromptFolder,
+    });
+
+    const selected = MEMORY_AGENT_CONFIGS.filter(
+        (config) =>
+            !options.agents ||
+            config.name === 'meta_memory_agent' ||
+            options.agents.includes(config.name)
+    );
+    const children = await agentManager.getChildren(metaRecord.id, actor);
+
+    const subAgents: Agent[] = [];
+    for (const config of selected) {
+        const existing = children.find((child) => child.name === config.name);
+
+        if (!existing) {
+            subAgents.push(await agentManager.create(
+                {
+                    name: config.name,
+                    agentType: 'memory_agent',
+                    parentId: metaRecord.id,
+                    system: metaAgent.getSystemPromptForAgent(config.name),
+                    organizationId: actor.organizationId,
+                    ...sharedConfig,
+                },
+                actor
+            ));
+        } else if (updateAgents) {
+            // Only overwrite the system prompt when one was supplied explicitly
+            const system = options.systemPrompts?.[config.name];
+            subAgents.push(await agentManager.update(
+                existing.id,
+                system !== undefined ? { ...sharedConfig, system } : sharedConfig,
+                actor
+            ));
+        } else {
+            subAgents.push(existing);
+        }
+    }
+
+    for (const agent of subAgents) {
+        const toolNames = agent.name ? MEMORY_AGENT_TOOLS[agent.name] : undefined;
+        if (toolNames) {
+            await attachBuiltinTools(agent.id, toolNames, actor);
+        }
+    }
+
+    if (options.coreMemoryUserId) {
+        await ensureUserCoreMemory(options.coreMemoryUserId, actor, {
+            metaAgentId: metaRecord.id,
+            updateExisting: updateAgents,
+        });
+    }
+
+    metaAgent.loadExistingAgents(subAgents);
+    await metaAgent.initialize();
+
+    return metaAgent;
+}
+
+/**
+ * Create a user's core memory blocks from the template stored on the meta
+ * agent. Blocks go to the core memory agent, whose tools read them, or to the
+ * meta agent when it has none. Blocks that already exist keep their value
+ * unless updateExisting is set.
+ */
+export async function ensureUserCoreMemory(
+    userId: string,
+    actor: ActorContext,
+    options: { metaAgentId?: string; updateExisting?: boolean } = {}
+): Promise<void> {
+    const metaRecord = options.metaAgentId
+        ? await agentManager.read(options.metaAgentId, actor)
+        : await agentManager.findByName(META_AGENT_NAME, actor);
+    const template = (metaRecord?.memoryConfig as MemoryConfig | null)?.coreBlocks ?? [];
+    if (!metaRecord || template.length === 0) {
+        return;
+    }
+
+    const children = await agentManager.getChildren(metaRecord.id, actor);
+    const owner = children.find((child) => child.name === 'core_memory_agent') ?? metaRecord;
+    const existing = await blockManager.getAgentBlocks(owner.id, actor, userId);
+
+    for (const { label, value } of template) {
+        const block = existing.find((candidate) => candidate.label === label);
+
+        if (!block) {
+            await blockManager.create(
+                { organizationId: actor.organizationId, userId, agentId: owner.id, label, value },
+                actor
+            );
+        } else if (options.updateExisting && block.value !== value) {
+            await blockManager.updateValue(block.id, value, actor);
+        }
+    }
+}
+
+export interface LoadMetaAgentOptions {
+    actor: ActorContext;
+    userId: string;
+    filterTags?: Record<string, string>;
+    useCache?: boolean;
+}
+
+/**
+ * Load a persisted meta agent and the sub-agents created under it
+ */
+export async function loadMetaAgent(
+    agentId: string,
+    options: LoadMetaAgentOptions
+): Promise<MetaAgent> {
+    const { actor } = options;
+
+    const metaRecord = await agentManager.read(agentId, actor);
+    const children = await agentManager.getChildren(metaRecord.id, actor);
+    const llmConfig = metaRecord.llmConfig as Partial<LLMConfig> | null;
+
+    const metaAgent = new MetaAgent(metaRecord, {
+        userId: options.userId,
+        organizationId: actor.organizationId,
+        clientId: actor.id,
+        llmConfig: llmConfig?.model && llmConfig.modelEndpointType
+            ? { ...createDefaultLLMConfig(llmConfig.model), ...llmConfig } as LLMConfig
+            : undefined,
+        filterTags: options.filterTags,
+        useCache: options.useCache,
+    });
+
+    metaAgent.loadExistingAgents(children);
+    await metaAgent.initialize();
+
+    return metaAgent;
+}
+
 export default MetaAgent;
@@ -0,0 +1,163 @@
+/**
+ * Summarizer
+ * Token accounting and recursive summarization for the agent context window
+ */
+
+import { Message } from '@prisma/client';
+import { generateText } from 'ai';
+import { logger } from '../log';
+import { createModel } from '../llm_api/client';
+import { LLMConfig } from '../schemas/llm_config';
+import { SummarizerSettings } from '../settings';
+import { countTokens } from '../utils';
+import { MESSAGE_SUMMARY_REQUEST_ACK, NON_USER_MSG_PREFIX } from '../constants';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Name stamped on summary messages so they can be recognized on reload */
+export const SUMMARY_MESSAGE_NAME = 'context_summary';
+
+const SUMMARY_SYSTEM_PROMPT = `Your job is to summarize a history of previous messages in a conversation between an AI persona and a human.
+The conversation you are given is from a fixed context window and may not be complete.
+Messages sent by the AI are marked with the 'assistant' role.
+Function calls made by the AI and their results are marked with the 'tool' role.
+Messages the user sends are in the 'user' role.
+If a previous summary is provided, fold it into the new summary so nothing important is lost.
+Summarize what happened in the conversation from the perspective of the AI (use the first person).
+Keep your summary less than 100 words, do NOT exceed this word limit.
+Only output the summary, do NOT include anything else in your output.`;
+
+// ============================================================================
+// TOKEN COUNTING
+// ============================================================================
+
+/**
+ * Render a message the way it is counted and summarized
+ */
+export function renderMessage(message: Message): string {
+    const parts: string[] = [];
+    if (message.text) {
+        parts.push(message.text);
+    }
+    if (message.toolCalls) {
+        parts.push(JSON.stringify(message.toolCalls));
+    }
+    return `${message.role}: ${parts.join('\n')}`;
+}
+
+/**
+ * Count tokens for each message
+ */
+export function countMessageTokens(messages: Message[], model: string): number[] {
+    return messages.map((m) => countTokens(renderMessage(m), model));
+}
+
+/**
+ * Whether a message is a previously generated summary
+ */
+export function isSummaryMessage(message: Message): boolean {
+    return message.role === 'system' && message.name === SUMMARY_MESSAGE_NAME;
+}
+
+// ============================================================================
+// EVICTION
+// ============================================================================
+
+/**
+ * Pick how many leading messages to evict so that the remaining messages fit
+ * within the desired token pressure. The last N messages are always kept.
+ * Returns 0 when nothing can be evicted.
+ */
+export function selectEvictionCutoff(
+    messages: Message[],
+    tokenCounts: number[],
+    contextWindow: number,
+    settings: SummarizerSettings
+): number {
+    const keepFrom = Math.max(0, messages.length - settings.keepLastNMessages);
+    let cutoff = keepFrom;
+
+    if (!settings.evictAllMessages) {
+        // Walk back from the protected tail while the kept set stays under the target
+        const target = Math.floor(contextWindow * settings.desiredMemoryTokenPressure);
+        let kept = tokenCounts.slice(keepFrom).reduce((a, b) => a + b, 0);
+
+        while (cutoff > 0 && kept + tokenCounts[cutoff - 1] <= target) {
+            cutoff--;
+            kept += tokenCounts[cutoff];
+        }
+    }
+
+    // Never start the kept window on a tool return separated from its call
+    while (cutoff < messages.length && messages[cutoff].role === 'tool') {
+        cutoff++;
+    }
+
+    return cutoff;
+}
+
+// ============================================================================
+// SUMMARIZATION
+// ============================================================================
+
+/**
+ * Summarize evicted messages, folding in the previous summary if there is one.
+ * Retries up to `maxRetries` times before giving up.
+ */
+export async function summarizeMessages(
+    llmConfig: LLMConfig,
+    messages: Message[],
+    options: { previousSummary?: string; maxRetries: number }
+): Promise<string> {
+    const history = messages
+        .filter((m) => !isSummaryMessage(m))
+        .map(renderMessage)
+        .join('\n');
+
+    const input = options.previousSummary
+        ? `Previous summary:\n${options.previousSummary}\n\nNew messages:\n${history}`
+        : history;
+
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= Math.max(1, options.maxRetries); attempt++) {
+        try {
+            const response = await generateText({
+                model: createModel(llmConfig),
+                system: SUMMARY_SYSTEM_PROMPT,
+                messages: [
+                    { role: 'assistant', content: MESSAGE_SUMMARY_REQUEST_ACK },
+                    { role: 'user', content: input },
+                ],
+            });
+
+            const summary = response.text.trim();
+            if (summary) {
+                return summary;
+            }
+            lastError = new Error('Summarizer returned an empty response');
+        } catch (error) {
+            lastError = error;
+        }
+
+        logger.warn({ attempt, error: lastError }, 'Summarization attempt failed');
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
+
+/**
+ * Format the text stored in the summary message
+ */
+export function formatSummaryMessage(
+    summary: string,
+    hiddenCount: number,
+    totalCount: number
+): string {
+    return (
+        `${NON_USER_MSG_PREFIX}Note: prior messages (${hiddenCount} of ${totalCount} total messages) ` +
+        'have been hidden from view due to conversation memory constraints.\n' +
+        `The following is a summary of the previous messages:\n${summary}`
+    );
+}
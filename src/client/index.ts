@@ -22,6 +22,8 @@ export type {
     // Chat types
     ChatMessage,
     ChatResponse,
+    ChatStreamEvent,
+    ChatTokenUsage,
     // Provider types
     ProviderLlmConfig,
     ProviderEmbeddingConfig,
@@ -39,4 +41,8 @@ export type {
     SearchAllUsersOptions,
     MemoryRetrievalResult,
     MemorySearchResult,
+    // Job types
+    JobStatus,
+    JobInfo,
+    WaitForJobOptions,
 } from './sdk.js';
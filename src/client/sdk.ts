@@ -223,6 +223,8 @@ export interface RetrieveWithConversationOptions {
     startDate?: string;
     /** Optional end date/time for filtering episodic memories (ISO 8601) */
     endDate?: string;
+    /** Rerank the fused results with the meta agent's LLM (default: false) */
+    rerank?: boolean;
 }
 
 export interface RetrieveWithTopicOptions {
@@ -247,14 +249,16 @@ export interface SearchOptions {
     memoryType?: 'episodic' | 'resource' | 'procedural' | 'knowledge' | 'semantic' | 'all';
     /** Field to search in */
     searchField?: string;
-    /** Search method: "bm25" or "embedding" */
-    searchMethod?: 'bm25' | 'embedding';
+    /** Search method: "bm25", "embedding" or "string_match" */
+    searchMethod?: 'bm25' | 'embedding' | 'string_match';
     /** Maximum number of results per memory type (default: 10) */
     limit?: number;
     /** Optional filter tags for additional filtering */
     filterTags?: Record<string, unknown>;
     /** Optional similarity threshold for embedding search (0.0-2.0) */
     similarityThreshold?: number;
+    /** Optional text search language for bm25 search, e.g. "english" or "simple" */
+    language?: string;
     /** Optional start date/time for filtering episodic memories (ISO 8601) */
     startDate?: string;
     /** Optional end date/time for filtering episodic memories (ISO 8601) */
@@ -268,14 +272,16 @@ export interface SearchAllUsersOptions {
     memoryType?: 'episodic' | 'resource' | 'procedural' | 'knowledge' | 'semantic' | 'all';
     /** Field to search in */
     searchField?: string;
-    /** Search method: "bm25" or "embedding" */
-    searchMethod?: 'bm25' | 'embedding';
+    /** Search method: "bm25", "embedding" or "string_match" */
+    searchMethod?: 'bm25' | 'embedding' | 'string_match';
     /** Maximum results per memory type */
     limit?: number;
     /** Optional additional filter tags */
     filterTags?: Record<string, unknown>;
     /** Optional similarity threshold for embedding search */
     similarityThreshold?: number;
+    /** Optional text search language for bm25 search */
+    language?: string;
     /** Optional start date/time for filtering episodic memories */
     startDate?: string;
     /** Optional end date/time for filtering episodic memories */
@@ -288,6 +294,8 @@ export interface MemoryRetrievalResult {
     temporalExpression?: string;
     dateRange?: { startDate?: string; endDate?: string };
     memories: Record<string, unknown[]>;
+    /** Fused results across memory types, best first */
+    results?: unknown[];
 }
 
 export interface MemorySearchResult {
@@ -305,10 +313,49 @@ export interface AddMemoryResult {
     success: boolean;
     message: string;
     status: string;
+    /** Background job processing the conversation; pass to waitForJob() */
+    jobId: string;
+    /** Queue trace recording how the conversation is processed */
+    traceId: string;
     agentId: string;
     messageCount: number;
 }
 
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobInfo {
+    id: string;
+    type: string;
+    status: JobStatus;
+    tenantId: string;
+    clientId: string;
+    attempts: number;
+    maxAttempts: number;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    /** Set while running */
+    progress?: {
+        percent: number;
+        /** e.g. the memory sub-agents currently running */
+        currentStep?: string;
+        message?: string;
+        updatedAt: string;
+    };
+    /** Result summary once completed */
+    result?: unknown;
+    /** Last error, after a failed attempt or cancellation */
+    error?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export interface WaitForJobOptions {
+    /** Give up after this many ms (default: 300000) */
+    timeout?: number;
+    /** Delay between status checks in ms (default: 1000) */
+    pollInterval?: number;
+}
+
 export interface ChatMessage {
     role: 'user' | 'assistant' | 'system' | 'tool';
     content: string;
@@ -333,6 +380,46 @@ export interface ChatResponse {
     };
 }
 
+export interface ChatTokenUsage {
+    input: number;
+    output: number;
+    total: number;
+}
+
+/**
+ * Events emitted by the streaming chat endpoint
+ */
+export type ChatStreamEvent =
+    | { type: 'token'; step: number; delta: string }
+    | { type: 'reasoning'; step: number; delta: string }
+    | {
+        type: 'tool_call_started';
+        step: number;
+        toolCallId: string;
+        name: string;
+        arguments: Record<string, unknown>;
+        stepId?: string;
+        stepUsage: ChatTokenUsage;
+    }
+    | {
+        type: 'tool_return';
+        step: number;
+        toolCallId: string;
+        name: string;
+        result: unknown;
+    }
+    | { type: 'step_completed'; step: number; tokenUsage: ChatTokenUsage }
+    | {
+        type: 'usage';
+        success: boolean;
+        message?: string;
+        stepCount: number;
+        tokenUsage: ChatTokenUsage;
+        executionTimeMs: number;
+        error?: string;
+        interrupted?: boolean;
+    };
+
 export interface AgentInfo {
     id: string;
     name?: string;
@@ -530,6 +617,71 @@ class HttpClient {
         throw lastError ?? new Error('Request failed after all retries');
     }
 
+    /**
+     * Make a request to an SSE endpoint and yield each event's parsed data.
+     * Streams are not retried since events may already have been consumed.
+     */
+    async *stream<T>(options: RequestOptions): AsyncGenerator<T> {
+        const url = this.buildUrl(options.path, options.query);
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'Accept': 'text/event-stream',
+            'X-API-Key': this.apiKey,
+        };
+
+        if (this.debug) {
+            logger.debug({ method: options.method, url }, 'Opening stream');
+        }
+
+        const response = await fetch(url, {
+            method: options.method,
+            headers,
+            body: options.body ? jsonStringify(options.body) : undefined,
+        });
+
+        if (!response.ok || !response.body) {
+            const errorBody = await response.text();
+            throw new MirixApiError(
+                `API request failed: ${response.status} ${response.statusText}`,
+                response.status,
+                errorBody
+            );
+        }
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += value;
+
+                // Events are separated by a blank line
+                let boundary = buffer.search(/\r?\n\r?\n/);
+                while (boundary !== -1) {
+                    const rawEvent = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+                    const data = rawEvent
+                        .split(/\r?\n/)
+                        .filter((line) => line.startsWith('data:'))
+                        .map((line) => line.slice(5).replace(/^ /, ''))
+                        .join('\n');
+
+                    if (data) {
+                        yield jsonParse<T>(data);
+                    }
+
+                    boundary = buffer.search(/\r?\n\r?\n/);
+                }
+            }
+        } finally {
+            await reader.cancel().catch(() => {});
+        }
+    }
+
     private buildUrl(path: string, query?: Record<string, string | number | undefined>): string {
         const url = new URL(path, this.baseUrl);
 
@@ -732,6 +884,22 @@ export class MirixClient {
         });
     }
 
+    /**
+     * Send a message to an agent and iterate over events as it runs
+     *
+     * @example
+     * for await (const event of client.chatStream(agentId, 'Hello')) {
+     *     if (event.type === 'token') process.stdout.write(event.delta);
+     * }
+     */
+    chatStream(agentId: string, message: string): AsyncGenerator<ChatStreamEvent> {
+        return this.http.stream<ChatStreamEvent>({
+            method: 'POST',
+            path: `/v1/agents/${agentId}/chat/stream`,
+            body: { message },
+        });
+    }
+
     /**
      * Get conversation history for an agent
      */
@@ -1036,6 +1204,10 @@ export class MirixClient {
             requestBody.end_date = options.endDate;
         }
 
+        if (options.rerank) {
+            requestBody.rerank = true;
+        }
+
         return this.http.request<MemoryRetrievalResult>({
             method: 'POST',
             path: '/memory/retrieve/conversation',
@@ -1137,6 +1309,10 @@ export class MirixClient {
             queryParams.similarity_threshold = options.similarityThreshold;
         }
 
+        if (options.language !== undefined) {
+            queryParams.language = options.language;
+        }
+
         if (options.startDate !== undefined) {
             queryParams.start_date = options.startDate;
         }
@@ -1188,6 +1364,10 @@ export class MirixClient {
             queryParams.similarity_threshold = options.similarityThreshold;
         }
 
+        if (options.language !== undefined) {
+            queryParams.language = options.language;
+        }
+
         if (options.startDate !== undefined) {
             queryParams.start_date = options.startDate;
         }
@@ -1231,6 +1411,56 @@ export class MirixClient {
         return this._metaAgent;
     }
 
+    // ========================================================================
+    // JOB OPERATIONS
+    // ========================================================================
+
+    /**
+     * Get the status of a background job, e.g. the jobId returned by add()
+     */
+    async getJob(jobId: string): Promise<JobInfo> {
+        const response = await this.http.request<{ job: JobInfo }>({
+            method: 'GET',
+            path: `/v1/jobs/${encodeURIComponent(jobId)}`,
+        });
+        return response.job;
+    }
+
+    /**
+     * Poll a background job until it completes, fails or is cancelled, and
+     * return its final state. Throws if it is still queued or running when
+     * the timeout elapses.
+     *
+     * @example
+     * const { jobId } = await client.add({ userId: 'user-123', messages });
+     * const job = await client.waitForJob(jobId, { timeout: 120000 });
+     * if (job.status !== 'completed') {
+     *     throw new Error(`Memory job ${job.status}: ${job.error}`);
+     * }
+     */
+    async waitForJob(jobId: string, options: WaitForJobOptions = {}): Promise<JobInfo> {
+        const timeout = options.timeout ?? 300000;
+        const pollInterval = options.pollInterval ?? 1000;
+        const deadline = Date.now() + timeout;
+
+        for (;;) {
+            const job = await this.getJob(jobId);
+            if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+                return job;
+            }
+
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                throw new Error(`Timed out after ${timeout}ms waiting for job ${jobId} (status: ${job.status})`);
+            }
+
+            if (this.debug) {
+                logger.debug({ jobId, status: job.status, progress: job.progress?.percent }, 'Waiting for job');
+            }
+            await new Promise((resolve) => setTimeout(resolve, Math.min(pollInterval, remaining)));
+        }
+    }
+
     // ========================================================================
     // HEALTH OPERATIONS
     // ========================================================================
@@ -24,6 +24,9 @@ export const ADMIN_USER_ID = 'user-00000000-0000-4000-8000-000000000000';
 /** Maximum supported embedding size - do NOT change or else DBs will need to be reset */
 export const MAX_EMBEDDING_DIM = 4096;
 
+/** Dimension of the pgvector columns on the memory tables (vector(3072) in the Prisma schema) */
+export const MEMORY_EMBEDDING_DIM = 3072;
+
 /** Default chunk size for text splitting */
 export const DEFAULT_EMBEDDING_CHUNK_SIZE = 300;
 
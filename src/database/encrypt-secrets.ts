@@ -0,0 +1,74 @@
+/**
+ * Secret Encryption Backfill
+ * One-off script encrypting knowledge item secrets stored before the secret
+ * vault existed. Run with `npm run db:encrypt-secrets` once after upgrading;
+ * running it again only touches values that are still plaintext.
+ */
+
+import { connectDatabase, disconnectDatabase, prismaRaw } from './prisma-client';
+import { secretVault, ENVELOPE_PREFIX } from '../security/secret-vault';
+import { getLogger } from '../log';
+
+const logger = getLogger('encrypt-secrets');
+
+/** Advisory lock serializing backfill batches across concurrent runs */
+const BACKFILL_LOCK_KEY = 0x6d697273;
+
+const BATCH_SIZE = 100;
+
+/**
+ * Encrypt one batch of plaintext secrets. Rows are locked while they are
+ * rewritten, so a concurrent update through the API cannot be overwritten
+ * with the older value. Returns the number of rows encrypted.
+ */
+async function encryptBatch(): Promise<number> {
+    return prismaRaw.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${BACKFILL_LOCK_KEY})`;
+
+        const rows = await tx.$queryRaw<{ id: string; secret_value: string }[]>`
+            SELECT id, secret_value
+            FROM knowledge
+            WHERE secret_value <> ''
+                AND NOT starts_with(secret_value, ${ENVELOPE_PREFIX})
+            ORDER BY id
+            LIMIT ${BATCH_SIZE}
+            FOR UPDATE
+        `;
+
+        for (const row of rows) {
+            if (secretVault.isEncrypted(row.secret_value)) {
+                continue;
+            }
+
+            // Raw update, so updated_at keeps the time the secret itself last changed
+            await tx.$executeRaw`
+                UPDATE knowledge
+                SET secret_value = ${await secretVault.encrypt(row.secret_value)}
+                WHERE id = ${row.id}
+            `;
+        }
+
+        return rows.length;
+    });
+}
+
+async function main(): Promise<void> {
+    try {
+        await connectDatabase();
+
+        let total = 0;
+        for (let count = await encryptBatch(); count > 0; count = await encryptBatch()) {
+            total += count;
+            logger.info({ total }, 'Encrypted knowledge item secrets');
+        }
+
+        logger.info({ total }, 'All knowledge item secrets are encrypted');
+    } catch (error) {
+        logger.error({ error }, 'Failed to encrypt knowledge item secrets');
+        process.exitCode = 1;
+    } finally {
+        await disconnectDatabase();
+    }
+}
+
+main();
@@ -0,0 +1,231 @@
+/**
+ * Full-Text Search Module
+ * Generated tsvector columns and GIN indexes backing BM25-style ranked search
+ * over the memory tables
+ */
+
+import { Prisma } from '@prisma/client';
+import { logger } from '../log';
+import { settings } from '../settings';
+import { prismaRaw } from './prisma-client';
+
+// ============================================================================
+// COLUMN DEFINITIONS
+// ============================================================================
+
+export interface FullTextColumn {
+    /** Model field the column indexes */
+    field: string;
+    /** SQL expression producing the indexed text */
+    source: string;
+    /** Generated tsvector column */
+    column: string;
+}
+
+/**
+ * Generated tsvector columns per memory table.
+ * Identifiers come only from this map and are interpolated into SQL as-is.
+ */
+export const FULL_TEXT_COLUMNS: Readonly<Record<string, readonly FullTextColumn[]>> = {
+    episodic_memory: [
+        { field: 'summary', source: 'summary', column: 'summary_tsv' },
+        { field: 'details', source: 'details', column: 'details_tsv' },
+    ],
+    semantic_memory: [
+        { field: 'name', source: 'name', column: 'name_tsv' },
+        { field: 'summary', source: 'summary', column: 'summary_tsv' },
+        { field: 'details', source: 'details', column: 'details_tsv' },
+    ],
+    procedural_memory: [
+        { field: 'summary', source: 'summary', column: 'summary_tsv' },
+        { field: 'steps', source: 'steps::text', column: 'steps_tsv' },
+    ],
+    resource_memory: [
+        { field: 'title', source: 'title', column: 'title_tsv' },
+        { field: 'content', source: 'content', column: 'content_tsv' },
+    ],
+    knowledge: [
+        { field: 'caption', source: 'caption', column: 'caption_tsv' },
+    ],
+};
+
+const LANGUAGE_PATTERN = /^[a-z_]+$/;
+
+/**
+ * Text search configuration the generated columns are built with
+ */
+export function getFullTextLanguage(): string {
+    return settings.fullTextSearchLanguage;
+}
+
+/**
+ * Validate a text search configuration name before it reaches SQL
+ */
+export function isValidFullTextLanguage(language: string): boolean {
+    return LANGUAGE_PATTERN.test(language);
+}
+
+/**
+ * SQL expression computing a tsvector for a column definition in the given language
+ */
+export function tsvectorExpression(def: FullTextColumn, language: string): string {
+    return `to_tsvector('${language}'::regconfig, coalesce(${def.source}, ''))`;
+}
+
+// ============================================================================
+// SCHEMA SETUP
+// ============================================================================
+
+/** Advisory lock serializing schema setup across instances */
+const SETUP_LOCK_KEY = 0x6d697278;
+
+/** Adding a generated column rewrites the table, which can take a while */
+const SETUP_TIMEOUT_MS = 30 * 60 * 1000;
+
+type SqlClient = Pick<typeof prismaRaw, '$queryRaw' | '$executeRaw'>;
+
+/**
+ * Full-text columns that are missing, plain (e.g. from `prisma db push`) or
+ * generated with another language than the given one
+ */
+export async function findStaleFullTextColumns(
+    language: string = getFullTextLanguage(),
+    client: SqlClient = prismaRaw
+): Promise<Array<{ table: string; def: FullTextColumn; exists: boolean }>> {
+    const stale: Array<{ table: string; def: FullTextColumn; exists: boolean }> = [];
+
+    for (const [table, columns] of Object.entries(FULL_TEXT_COLUMNS)) {
+        for (const def of columns) {
+            const existing = await client.$queryRaw<{ generation_expression: string | null }[]>`
+                SELECT generation_expression
+                FROM information_schema.columns
+                WHERE table_schema = current_schema()
+                    AND table_name = ${table}
+                    AND column_name = ${def.column}
+            `;
+
+            const expression = existing[0]?.generation_expression ?? '';
+            if (existing.length === 0 || !expression.includes(`'${language}'::regconfig`)) {
+                stale.push({ table, def, exists: existing.length > 0 });
+            }
+        }
+    }
+
+    return stale;
+}
+
+/**
+ * Create (or rebuild) the generated tsvector columns and their GIN indexes.
+ * Columns built with a different language than the configured one are dropped
+ * and re-added so the stored vectors always match `fullTextSearchLanguage`.
+ *
+ * Rebuilding a column rewrites its table under an exclusive lock, so this is
+ * run explicitly with `npm run db:fulltext` rather than on every start. The
+ * whole setup holds an advisory lock, so concurrent runs wait for each other
+ * and then find the columns up to date.
+ */
+export async function ensureFullTextSearch(
+    language: string = getFullTextLanguage()
+): Promise<void> {
+    if (!isValidFullTextLanguage(language)) {
+        throw new Error(`Invalid full-text search language: ${language}`);
+    }
+
+    await prismaRaw.$transaction(async (tx) => {
+        await tx.$executeRaw`SELECT pg_advisory_xact_lock(${SETUP_LOCK_KEY})`;
+
+        for (const { table, def, exists } of await findStaleFullTextColumns(language, tx)) {
+            if (exists) {
+                await tx.$executeRaw`
+                    ALTER TABLE ${Prisma.raw(table)} DROP COLUMN ${Prisma.raw(def.column)}
+                `;
+            }
+
+            await tx.$executeRaw`
+                ALTER TABLE ${Prisma.raw(table)}
+                ADD COLUMN ${Prisma.raw(def.column)} tsvector
+                GENERATED ALWAYS AS (${Prisma.raw(tsvectorExpression(def, language))}) STORED
+            `;
+
+            logger.info({ table, column: def.column, language }, 'Created full-text search column');
+        }
+
+        for (const [table, columns] of Object.entries(FULL_TEXT_COLUMNS)) {
+            for (const def of columns) {
+                await tx.$executeRaw`
+                    CREATE INDEX IF NOT EXISTS ${Prisma.raw(`ix_${table}_${def.column}`)}
+                    ON ${Prisma.raw(table)} USING GIN (${Prisma.raw(def.column)})
+                `;
+            }
+        }
+    }, { timeout: SETUP_TIMEOUT_MS, maxWait: SETUP_TIMEOUT_MS });
+
+    staleTablesCache = null;
+}
+
+// ============================================================================
+// READINESS
+// ============================================================================
+
+/** How long a check that found stale columns is trusted before re-checking */
+const STALE_RECHECK_MS = 60 * 1000;
+
+let staleTablesCache: { checkedAt: number; tables: Promise<Set<string>> } | null = null;
+
+/**
+ * Tables whose full-text columns do not match the configured language.
+ * The result is cached; while some tables are stale it is re-checked every
+ * minute, so running `npm run db:fulltext` takes effect without a restart.
+ */
+export async function getStaleFullTextTables(): Promise<Set<string>> {
+    const now = Date.now();
+    if (staleTablesCache) {
+        const tables = await staleTablesCache.tables;
+        if (tables.size === 0 || now - staleTablesCache.checkedAt < STALE_RECHECK_MS) {
+            return tables;
+        }
+    }
+
+    const tables = findStaleFullTextColumns().then((stale) => new Set(stale.map(({ table }) => table)));
+    const entry = { checkedAt: now, tables };
+    staleTablesCache = entry;
+    tables.catch(() => {
+        if (staleTablesCache === entry) {
+            staleTablesCache = null;
+        }
+    });
+
+    return tables;
+}
+
+/**
+ * Whether bm25 search can use the stored columns of a table
+ */
+export async function isFullTextSearchReady(table: string): Promise<boolean> {
+    return !(await getStaleFullTextTables()).has(table);
+}
+
+/**
+ * Warn when the full-text columns need `npm run db:fulltext`; explicit bm25
+ * searches on tables whose columns are stale are rejected until it runs
+ */
+export async function checkFullTextSearch(
+    language: string = getFullTextLanguage()
+): Promise<boolean> {
+    const stale = await findStaleFullTextColumns(language);
+    if (language === getFullTextLanguage()) {
+        staleTablesCache = {
+            checkedAt: Date.now(),
+            tables: Promise.resolve(new Set(stale.map(({ table }) => table))),
+        };
+    }
+
+    if (stale.length > 0) {
+        logger.warn(
+            { columns: stale.map(({ table, def }) => `${table}.${def.column}`), language },
+            'Full-text search columns are missing or outdated; run `npm run db:fulltext`'
+        );
+    }
+
+    return stale.length === 0;
+}
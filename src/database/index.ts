@@ -37,6 +37,19 @@ export {
     type RedisTTLConfig,
 } from './redis-client';
 
+export {
+    ensureFullTextSearch,
+    checkFullTextSearch,
+    findStaleFullTextColumns,
+    getStaleFullTextTables,
+    isFullTextSearchReady,
+    getFullTextLanguage,
+    isValidFullTextLanguage,
+    tsvectorExpression,
+    FULL_TEXT_COLUMNS,
+    type FullTextColumn,
+} from './full-text-search';
+
 export {
     createIndex,
     dropIndex,
@@ -14,6 +14,7 @@
 import { Redis } from 'ioredis';
 import type { RedisOptions } from 'ioredis';
 import { logger } from '../log';
+import { MASKED_SECRET } from '../security/secret-vault';
 
 // Global Redis client instance
 let redisClientInstance: RedisMemoryClient | null = null;
@@ -536,11 +537,13 @@ export class RedisMemoryClient {
     }
 
     /**
-     * Cache a knowledge item
+     * Cache a knowledge item. The secret value is never cached; it is only
+     * readable through the knowledge manager's reveal.
      */
     async cacheKnowledge(id: string, data: Record<string, unknown>): Promise<void> {
         const key = `${RedisMemoryClient.KNOWLEDGE_PREFIX}${id}`;
-        await this.setJson(key, data, this.ttl.memory);
+        const { secretValue, ...rest } = data;
+        await this.setJson(key, { ...rest, secretValue: secretValue ? MASKED_SECRET : '' }, this.ttl.memory);
     }
 
     /**
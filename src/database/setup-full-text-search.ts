@@ -0,0 +1,27 @@
+/**
+ * Full-Text Search Setup
+ * One-off script creating or rebuilding the generated tsvector columns and
+ * their GIN indexes. Run with `npm run db:fulltext` after `db:push` and
+ * whenever MIRIX_FULL_TEXT_SEARCH_LANGUAGE changes.
+ */
+
+import { connectDatabase, disconnectDatabase } from './prisma-client';
+import { ensureFullTextSearch } from './full-text-search';
+import { getLogger } from '../log';
+
+const logger = getLogger('full-text-search');
+
+async function main(): Promise<void> {
+    try {
+        await connectDatabase();
+        await ensureFullTextSearch();
+        logger.info('Full-text search columns are up to date');
+    } catch (error) {
+        logger.error({ error }, 'Failed to set up full-text search');
+        process.exitCode = 1;
+    } finally {
+        await disconnectDatabase();
+    }
+}
+
+main();
@@ -414,6 +414,56 @@ export function createEmbeddingClientFromPreset(
     });
 }
 
+/**
+ * Map an agent endpoint type (e.g. 'google_ai', 'hugging-face') to an embedding provider
+ */
+export function embeddingProviderFromEndpointType(endpointType: string): EmbeddingProvider {
+    switch (endpointType.toLowerCase()) {
+        case 'openai':
+            return 'openai';
+        case 'google':
+        case 'google_ai':
+        case 'gemini':
+            return 'google';
+        case 'azure':
+        case 'azure_openai':
+            return 'azure';
+        case 'voyage':
+            return 'voyage';
+        case 'cohere':
+            return 'cohere';
+        case 'ollama':
+            return 'ollama';
+        case 'huggingface':
+        case 'hugging-face':
+            return 'huggingface';
+        default:
+            return 'custom';
+    }
+}
+
+/**
+ * Create an embedding client from an agent's stored embedding config
+ */
+export function createEmbeddingClientFromAgentConfig(config: {
+    model: string;
+    modelEndpointType: string;
+    modelEndpoint?: string;
+    embeddingDim?: number;
+    apiKey?: string;
+}): EmbeddingClient {
+    const provider = embeddingProviderFromEndpointType(config.modelEndpointType);
+
+    return new EmbeddingClient({
+        provider,
+        model: config.model,
+        dimensions: config.embeddingDim,
+        apiKey: config.apiKey,
+        // Google and Azure build their own base URLs from the provider defaults
+        baseUrl: provider === 'google' || provider === 'azure' ? undefined : config.modelEndpoint,
+    });
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
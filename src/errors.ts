@@ -23,8 +23,8 @@ export class MirixError extends Error {
  * Error for invalid configuration
  */
 export class ConfigurationError extends MirixError {
-    constructor(message: string) {
-        super(message, 'CONFIGURATION_ERROR', 400);
+    constructor(message: string, statusCode = 400) {
+        super(message, 'CONFIGURATION_ERROR', statusCode);
         this.name = 'ConfigurationError';
     }
 }
@@ -1,10 +1,104 @@
 /**
  * Memory Functions
  * Tools for managing agent memory (core, episodic, semantic, etc.)
+ *
+ * Every function is scoped by the ToolExecutionContext it runs in: records are
+ * written for the context's user and agent, and reads never leave its organization.
  */
 
 import { z } from 'zod';
 import { buildFunctionSchema, type FunctionSchema } from './schema-generator';
+import type { ToolExecutionContext } from '../tools/types';
+import { ActorContext } from '../services/base-manager';
+import { blockManager } from '../services/block-manager';
+import {
+    episodicMemoryManager,
+    semanticMemoryManager,
+    proceduralMemoryManager,
+    resourceMemoryManager,
+    knowledgeMemoryManager,
+    memoryDuplicateService,
+    getDuplicatePolicy,
+    memoryProvenanceService,
+    type DeduplicatedMemoryType,
+    type MemoryProvenanceSource,
+    type DuplicateMatch,
+} from '../services/memory/index';
+import { memoryProcessor } from '../queue/memory-processor';
+import { NotFoundError, ValidationError } from '../errors';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toActor(context: ToolExecutionContext): ActorContext {
+    return {
+        id: context.clientId ?? context.userId,
+        organizationId: context.organizationId,
+        agentId: context.agentId,
+        traceId: context.traceId,
+    };
+}
+
+/**
+ * The conversation messages and traces a memory write comes from
+ */
+function provenanceOf(context: ToolExecutionContext): MemoryProvenanceSource {
+    return {
+        messageIds: context.sourceMessageIds,
+        queueTraceId: context.queueTraceId,
+        agentTraceId: context.traceId,
+        agentId: context.agentId,
+        agentType: context.agentType,
+    };
+}
+
+function generateMemoryId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function searchOptions(context: ToolExecutionContext, limit: number | undefined) {
+    return { userId: context.userId, limit: limit ?? 10 };
+}
+
+/**
+ * Look for an existing item the new one duplicates, unless detection is off.
+ * The summary is embedded for the comparison when the agent has an embedding
+ * config; if that fails only names are compared.
+ */
+async function findDuplicate(
+    memoryType: DeduplicatedMemoryType,
+    label: string,
+    summary: string,
+    embedding: Awaited<ReturnType<typeof memoryProcessor.resolveEmbedding>>,
+    context: ToolExecutionContext
+): Promise<DuplicateMatch | null> {
+    if (getDuplicatePolicy() === 'off') {
+        return null;
+    }
+
+    let vector: number[] | null = null;
+    if (embedding) {
+        [vector] = await memoryProcessor
+            .generateEmbeddings(embedding.client, [summary])
+            .catch(() => [null]);
+    }
+
+    return memoryDuplicateService.findDuplicate(
+        memoryType,
+        { userId: context.userId, label, embedding: vector },
+        toActor(context)
+    );
+}
+
+async function getBlock(label: string, context: ToolExecutionContext) {
+    const blocks = await blockManager.getAgentBlocks(context.agentId, toActor(context), context.userId);
+    const block = blocks.find((b) => b.label === label);
+    if (!block) {
+        throw new NotFoundError('Block', label);
+    }
+    return block;
+}
 
 // ============================================================================
 // CORE MEMORY FUNCTIONS
@@ -13,33 +107,51 @@ import { buildFunctionSchema, type FunctionSchema } from './schema-generator';
 /**
  * Append content to a core memory block
  */
-export async function coreMemoryAppend(_args: {
-    label: string;
-    content: string;
-}): Promise<{ success: boolean; newValue: string }> {
-    // Placeholder implementation
-    return { success: true, newValue: '' };
+export async function coreMemoryAppend(
+    args: { label: string; content: string },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; newValue: string }> {
+    const block = await getBlock(args.label, context);
+    const newValue = block.value ? `${block.value}\n${args.content}` : args.content;
+
+    if (block.limit && newValue.length > block.limit) {
+        throw new ValidationError(`Appending would exceed block limit of ${block.limit} characters`, {
+            field: 'content',
+        });
+    }
+
+    await blockManager.updateValue(block.id, newValue, toActor(context));
+    return { success: true, newValue };
 }
 
 /**
  * Rewrite a core memory block entirely
  */
-export async function coreMemoryRewrite(_args: {
-    label: string;
-    content: string;
-}): Promise<{ success: boolean; newValue: string }> {
-    // Placeholder implementation
-    return { success: true, newValue: '' };
+export async function coreMemoryRewrite(
+    args: { label: string; content: string },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; newValue: string }> {
+    const block = await getBlock(args.label, context);
+
+    if (block.limit && args.content.length > block.limit) {
+        throw new ValidationError(`Content exceeds block limit of ${block.limit} characters`, {
+            field: 'content',
+        });
+    }
+
+    await blockManager.updateValue(block.id, args.content, toActor(context));
+    return { success: true, newValue: args.content };
 }
 
 /**
  * Get current value of a core memory block
  */
-export async function coreMemoryGet(_args: {
-    label: string;
-}): Promise<{ value: string; limit: number }> {
-    // Placeholder implementation
-    return { value: '', limit: 2000 };
+export async function coreMemoryGet(
+    args: { label: string },
+    context: ToolExecutionContext
+): Promise<{ value: string; limit: number }> {
+    const block = await getBlock(args.label, context);
+    return { value: block.value, limit: block.limit };
 }
 
 // ============================================================================
@@ -49,25 +161,61 @@ export async function coreMemoryGet(_args: {
 /**
  * Insert a new episodic memory event
  */
-export async function episodicMemoryInsert(_args: {
-    summary: string;
-    details: string;
-    eventType: string;
-    occurredAt?: string;
-}): Promise<{ success: boolean; id: string }> {
-    // Placeholder implementation
-    return { success: true, id: '' };
+export async function episodicMemoryInsert(
+    args: {
+        summary: string;
+        details: string;
+        eventType: string;
+        occurredAt?: string;
+        importance?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; id: string }> {
+    const occurredAt = args.occurredAt ? new Date(args.occurredAt) : new Date();
+    if (isNaN(occurredAt.getTime())) {
+        throw new ValidationError(`Invalid occurredAt: ${args.occurredAt}`, { field: 'occurredAt' });
+    }
+
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    const event = await episodicMemoryManager.create(
+        {
+            id: generateMemoryId('ep'),
+            organizationId: context.organizationId,
+            userId: context.userId,
+            agentId: context.agentId,
+            clientId: context.clientId,
+            occurredAt,
+            actor: 'user',
+            eventType: args.eventType,
+            summary: args.summary,
+            details: args.details,
+            embeddingConfig: embedding?.record,
+            importance: args.importance,
+            provenance: provenanceOf(context),
+        },
+        toActor(context)
+    );
+
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'episodic', event.id, {
+        summary: event.summary,
+        details: event.details,
+    });
+
+    return { success: true, id: event.id };
 }
 
 /**
  * Search episodic memories
  */
-export async function episodicMemorySearch(_args: {
-    query: string;
-    limit?: number;
-    startDate?: string;
-    endDate?: string;
-}): Promise<{
+export async function episodicMemorySearch(
+    args: {
+        query: string;
+        limit?: number;
+        startDate?: string;
+        endDate?: string;
+    },
+    context: ToolExecutionContext
+): Promise<{
     results: Array<{
         id: string;
         summary: string;
@@ -76,8 +224,25 @@ export async function episodicMemorySearch(_args: {
         score: number;
     }>;
 }> {
-    // Placeholder implementation
-    return { results: [] };
+    const ranked = await episodicMemoryManager.bm25Search(args.query, undefined, {
+        ...searchOptions(context, args.limit),
+        dateRange: {
+            startDate: args.startDate ? new Date(args.startDate) : undefined,
+            endDate: args.endDate ? new Date(args.endDate) : undefined,
+        },
+    }, toActor(context));
+
+    await episodicMemoryManager.recordAccess(ranked.map(({ item }) => item.id), toActor(context));
+
+    return {
+        results: ranked.map(({ item, score }) => ({
+            id: item.id,
+            summary: item.summary,
+            eventType: item.eventType,
+            occurredAt: item.occurredAt.toISOString(),
+            score,
+        })),
+    };
 }
 
 // ============================================================================
@@ -87,23 +252,70 @@ export async function episodicMemorySearch(_args: {
 /**
  * Insert a new semantic memory item
  */
-export async function semanticMemoryInsert(_args: {
-    name: string;
-    summary: string;
-    details?: string;
-    source?: string;
-}): Promise<{ success: boolean; id: string }> {
-    // Placeholder implementation
-    return { success: true, id: '' };
+export async function semanticMemoryInsert(
+    args: {
+        name: string;
+        summary: string;
+        details?: string;
+        source?: string;
+        importance?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; id: string; merged?: boolean; possibleDuplicateOf?: string }> {
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    const duplicate = await findDuplicate('semantic', args.name, args.summary, embedding, context);
+
+    if (duplicate && getDuplicatePolicy() === 'merge') {
+        const merged = await memoryDuplicateService.mergeIncoming(
+            'semantic',
+            duplicate.id,
+            { summary: args.summary, body: args.details },
+            toActor(context)
+        );
+        await memoryProvenanceService.record('semantic', merged.id, provenanceOf(context), context.organizationId);
+        await memoryProcessor.writeEmbeddings(embedding?.client, 'semantic', merged.id, {
+            details: merged.body,
+        });
+        return { success: true, id: merged.id, merged: true };
+    }
+
+    const item = await semanticMemoryManager.create(
+        {
+            id: generateMemoryId('sem'),
+            organizationId: context.organizationId,
+            userId: context.userId,
+            agentId: context.agentId,
+            clientId: context.clientId,
+            name: args.name,
+            summary: args.summary,
+            details: args.details ?? '',
+            source: args.source ?? 'conversation',
+            embeddingConfig: embedding?.record,
+            importance: args.importance,
+            provenance: provenanceOf(context),
+        },
+        toActor(context)
+    );
+
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'semantic', item.id, {
+        name: item.name,
+        summary: item.summary,
+        details: item.details,
+    });
+
+    return { success: true, id: item.id, ...(duplicate && { possibleDuplicateOf: duplicate.id }) };
 }
 
 /**
  * Search semantic memories
  */
-export async function semanticMemorySearch(_args: {
-    query: string;
-    limit?: number;
-}): Promise<{
+export async function semanticMemorySearch(
+    args: {
+        query: string;
+        limit?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{
     results: Array<{
         id: string;
         name: string;
@@ -112,19 +324,58 @@ export async function semanticMemorySearch(_args: {
         score: number;
     }>;
 }> {
-    // Placeholder implementation
-    return { results: [] };
+    const ranked = await semanticMemoryManager.bm25Search(
+        args.query,
+        undefined,
+        searchOptions(context, args.limit),
+        toActor(context)
+    );
+
+    await semanticMemoryManager.recordAccess(ranked.map(({ item }) => item.id), toActor(context));
+
+    return {
+        results: ranked.map(({ item, score }) => ({
+            id: item.id,
+            name: item.name,
+            summary: item.summary,
+            source: item.source,
+            score,
+        })),
+    };
 }
 
 /**
  * Update a semantic memory item
  */
-export async function semanticMemoryUpdate(_args: {
-    id: string;
-    summary?: string;
-    details?: string;
-}): Promise<{ success: boolean }> {
-    // Placeholder implementation
+export async function semanticMemoryUpdate(
+    args: {
+        id: string;
+        summary?: string;
+        details?: string;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean }> {
+    const actor = toActor(context);
+    const existing = await semanticMemoryManager.read(args.id, actor);
+
+    // Memory agents may only edit their own user's memories
+    if (existing.userId !== context.userId) {
+        throw new NotFoundError('SemanticMemoryItem', args.id);
+    }
+
+    const item = await semanticMemoryManager.update(
+        args.id,
+        { summary: args.summary, details: args.details },
+        actor
+    );
+    await memoryProvenanceService.record('semantic', item.id, provenanceOf(context), context.organizationId);
+
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'semantic', item.id, {
+        summary: args.summary !== undefined ? item.summary : undefined,
+        details: args.details !== undefined ? item.details : undefined,
+    });
+
     return { success: true };
 }
 
@@ -135,22 +386,51 @@ export async function semanticMemoryUpdate(_args: {
 /**
  * Insert a new procedural memory item
  */
-export async function proceduralMemoryInsert(_args: {
-    summary: string;
-    steps: string[];
-    entryType?: string;
-}): Promise<{ success: boolean; id: string }> {
-    // Placeholder implementation
-    return { success: true, id: '' };
+export async function proceduralMemoryInsert(
+    args: {
+        summary: string;
+        steps: string[];
+        entryType?: string;
+        importance?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; id: string }> {
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    const item = await proceduralMemoryManager.create(
+        {
+            id: generateMemoryId('proc'),
+            organizationId: context.organizationId,
+            userId: context.userId,
+            agentId: context.agentId,
+            clientId: context.clientId,
+            entryType: args.entryType ?? 'workflow',
+            summary: args.summary,
+            steps: args.steps,
+            embeddingConfig: embedding?.record,
+            importance: args.importance,
+            provenance: provenanceOf(context),
+        },
+        toActor(context)
+    );
+
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'procedural', item.id, {
+        summary: item.summary,
+        steps: args.steps.join('\n'),
+    });
+
+    return { success: true, id: item.id };
 }
 
 /**
  * Search procedural memories
  */
-export async function proceduralMemorySearch(_args: {
-    query: string;
-    limit?: number;
-}): Promise<{
+export async function proceduralMemorySearch(
+    args: {
+        query: string;
+        limit?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{
     results: Array<{
         id: string;
         summary: string;
@@ -158,8 +438,23 @@ export async function proceduralMemorySearch(_args: {
         score: number;
     }>;
 }> {
-    // Placeholder implementation
-    return { results: [] };
+    const ranked = await proceduralMemoryManager.bm25Search(
+        args.query,
+        undefined,
+        searchOptions(context, args.limit),
+        toActor(context)
+    );
+
+    await proceduralMemoryManager.recordAccess(ranked.map(({ item }) => item.id), toActor(context));
+
+    return {
+        results: ranked.map(({ item, score }) => ({
+            id: item.id,
+            summary: item.summary,
+            entryType: item.entryType,
+            score,
+        })),
+    };
 }
 
 // ============================================================================
@@ -169,24 +464,66 @@ export async function proceduralMemorySearch(_args: {
 /**
  * Insert a new resource memory item
  */
-export async function resourceMemoryInsert(_args: {
-    title: string;
-    summary: string;
-    resourceType: string;
-    content?: string;
-}): Promise<{ success: boolean; id: string }> {
-    // Placeholder implementation
-    return { success: true, id: '' };
+export async function resourceMemoryInsert(
+    args: {
+        title: string;
+        summary: string;
+        resourceType: string;
+        content?: string;
+        importance?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; id: string; merged?: boolean; possibleDuplicateOf?: string }> {
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    const duplicate = await findDuplicate('resource', args.title, args.summary, embedding, context);
+
+    if (duplicate && getDuplicatePolicy() === 'merge') {
+        const merged = await memoryDuplicateService.mergeIncoming(
+            'resource',
+            duplicate.id,
+            { summary: args.summary, body: args.content },
+            toActor(context)
+        );
+        await memoryProvenanceService.record('resource', merged.id, provenanceOf(context), context.organizationId);
+        return { success: true, id: merged.id, merged: true };
+    }
+
+    const item = await resourceMemoryManager.create(
+        {
+            id: generateMemoryId('res'),
+            organizationId: context.organizationId,
+            userId: context.userId,
+            agentId: context.agentId,
+            clientId: context.clientId,
+            title: args.title,
+            summary: args.summary,
+            resourceType: args.resourceType,
+            content: args.content ?? '',
+            embeddingConfig: embedding?.record,
+            importance: args.importance,
+            provenance: provenanceOf(context),
+        },
+        toActor(context)
+    );
+
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'resource', item.id, {
+        summary: item.summary,
+    });
+
+    return { success: true, id: item.id, ...(duplicate && { possibleDuplicateOf: duplicate.id }) };
 }
 
 /**
  * Search resource memories
  */
-export async function resourceMemorySearch(_args: {
-    query: string;
-    resourceType?: string;
-    limit?: number;
-}): Promise<{
+export async function resourceMemorySearch(
+    args: {
+        query: string;
+        resourceType?: string;
+        limit?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{
     results: Array<{
         id: string;
         title: string;
@@ -195,8 +532,31 @@ export async function resourceMemorySearch(_args: {
         score: number;
     }>;
 }> {
-    // Placeholder implementation
-    return { results: [] };
+    const limit = args.limit ?? 10;
+
+    // Over-fetch when filtering by type so the filter does not starve the results
+    const ranked = await resourceMemoryManager.bm25Search(
+        args.query,
+        undefined,
+        searchOptions(context, args.resourceType ? limit * 5 : limit),
+        toActor(context)
+    );
+
+    const results = ranked
+        .filter(({ item }) => !args.resourceType || item.resourceType === args.resourceType)
+        .slice(0, limit);
+
+    await resourceMemoryManager.recordAccess(results.map(({ item }) => item.id), toActor(context));
+
+    return {
+        results: results.map(({ item, score }) => ({
+            id: item.id,
+            title: item.title,
+            summary: item.summary,
+            resourceType: item.resourceType,
+            score,
+        })),
+    };
 }
 
 // ============================================================================
@@ -206,25 +566,55 @@ export async function resourceMemorySearch(_args: {
 /**
  * Insert a new knowledge item
  */
-export async function knowledgeMemoryInsert(_args: {
-    caption: string;
-    entryType: string;
-    source: string;
-    sensitivity?: string;
-    secretValue?: string;
-}): Promise<{ success: boolean; id: string }> {
-    // Placeholder implementation
-    return { success: true, id: '' };
+export async function knowledgeMemoryInsert(
+    args: {
+        caption: string;
+        entryType: string;
+        source: string;
+        sensitivity?: string;
+        secretValue?: string;
+        importance?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{ success: boolean; id: string }> {
+    const embedding = await memoryProcessor.resolveEmbedding(context.agentId);
+    const item = await knowledgeMemoryManager.create(
+        {
+            id: generateMemoryId('know'),
+            organizationId: context.organizationId,
+            userId: context.userId,
+            agentId: context.agentId,
+            clientId: context.clientId,
+            caption: args.caption,
+            entryType: args.entryType,
+            source: args.source,
+            sensitivity: args.sensitivity ?? 'normal',
+            secretValue: args.secretValue ?? '',
+            embeddingConfig: embedding?.record,
+            importance: args.importance,
+            provenance: provenanceOf(context),
+        },
+        toActor(context)
+    );
+
+    await memoryProcessor.writeEmbeddings(embedding?.client, 'knowledge', item.id, {
+        caption: item.caption,
+    });
+
+    return { success: true, id: item.id };
 }
 
 /**
- * Search knowledge memories
+ * Search knowledge memories. Secret values are never returned.
  */
-export async function knowledgeMemorySearch(_args: {
-    query: string;
-    entryType?: string;
-    limit?: number;
-}): Promise<{
+export async function knowledgeMemorySearch(
+    args: {
+        query: string;
+        entryType?: string;
+        limit?: number;
+    },
+    context: ToolExecutionContext
+): Promise<{
     results: Array<{
         id: string;
         caption: string;
@@ -233,8 +623,29 @@ export async function knowledgeMemorySearch(_args: {
         score: number;
     }>;
 }> {
-    // Placeholder implementation
-    return { results: [] };
+    const limit = args.limit ?? 10;
+
+    const ranked = await knowledgeMemoryManager.bm25Search(
+        args.query,
+        undefined,
+        searchOptions(context, args.entryType ? limit * 5 : limit),
+        toActor(context)
+    );
+
+    await knowledgeMemoryManager.recordAccess(ranked.map(({ item }) => item.id), toActor(context));
+
+    return {
+        results: ranked
+            .filter(({ item }) => !args.entryType || item.entryType === args.entryType)
+            .slice(0, limit)
+            .map(({ item, score }) => ({
+                id: item.id,
+                caption: item.caption,
+                entryType: item.entryType,
+                source: item.source,
+                score,
+            })),
+    };
 }
 
 // ============================================================================
@@ -275,6 +686,7 @@ export const episodicMemoryInsertSchema = buildFunctionSchema(
         details: z.string().describe('Detailed description of the event'),
         eventType: z.string().describe('The type of event (e.g., conversation, milestone, action)'),
         occurredAt: z.string().optional().describe('When the event occurred (ISO format)'),
+        importance: z.number().min(0).max(1).optional().describe('How much this matters to the user, from 0 to 1 (default 0.5)'),
     })
 );
 
@@ -291,12 +703,14 @@ export const episodicMemorySearchSchema = buildFunctionSchema(
 
 export const semanticMemoryInsertSchema = buildFunctionSchema(
     'semantic_memory_insert',
-    'Insert a new semantic memory item. Use this to store facts and general knowledge.',
+    'Insert a new semantic memory item. Use this to store facts and general knowledge. ' +
+        'A fact that duplicates an existing item may be merged into it; the returned id is the item that holds it.',
     z.object({
         name: z.string().describe('A short name or title for the fact'),
         summary: z.string().describe('Summary of the fact or knowledge'),
         details: z.string().optional().describe('Additional details'),
         source: z.string().optional().describe('Source of the information'),
+        importance: z.number().min(0).max(1).optional().describe('How much this matters to the user, from 0 to 1 (default 0.5)'),
     })
 );
 
@@ -309,6 +723,16 @@ export const semanticMemorySearchSchema = buildFunctionSchema(
     })
 );
 
+export const semanticMemoryUpdateSchema = buildFunctionSchema(
+    'semantic_memory_update',
+    'Update the summary or details of an existing semantic memory item.',
+    z.object({
+        id: z.string().describe('ID of the semantic memory item to update'),
+        summary: z.string().optional().describe('New summary'),
+        details: z.string().optional().describe('New details'),
+    })
+);
+
 export const proceduralMemoryInsertSchema = buildFunctionSchema(
     'procedural_memory_insert',
     'Insert a new procedural memory. Use this to store how-to guides and workflows.',
@@ -316,6 +740,7 @@ export const proceduralMemoryInsertSchema = buildFunctionSchema(
         summary: z.string().describe('Brief description of the procedure'),
         steps: z.array(z.string()).describe('Step-by-step instructions'),
         entryType: z.string().optional().describe('Type of procedure (e.g., workflow, guide)'),
+        importance: z.number().min(0).max(1).optional().describe('How much this matters to the user, from 0 to 1 (default 0.5)'),
     })
 );
 
@@ -330,12 +755,14 @@ export const proceduralMemorySearchSchema = buildFunctionSchema(
 
 export const resourceMemoryInsertSchema = buildFunctionSchema(
     'resource_memory_insert',
-    'Insert a new resource memory. Use this to store references to documents and files.',
+    'Insert a new resource memory. Use this to store references to documents and files. ' +
+        'A resource that duplicates an existing item may be merged into it; the returned id is the item that holds it.',
     z.object({
         title: z.string().describe('Title of the resource'),
         summary: z.string().describe('Summary of the resource content'),
         resourceType: z.string().describe('Type of resource (e.g., document, webpage, file)'),
         content: z.string().optional().describe('Full content or URL'),
+        importance: z.number().min(0).max(1).optional().describe('How much this matters to the user, from 0 to 1 (default 0.5)'),
     })
 );
 
@@ -358,6 +785,7 @@ export const knowledgeMemoryInsertSchema = buildFunctionSchema(
         source: z.string().describe('Source or context of the knowledge'),
         sensitivity: z.enum(['normal', 'sensitive', 'secret']).optional().describe('Sensitivity level'),
         secretValue: z.string().optional().describe('The secret value (for credentials)'),
+        importance: z.number().min(0).max(1).optional().describe('How much this matters to the user, from 0 to 1 (default 0.5)'),
     })
 );
 
@@ -383,6 +811,7 @@ export const memoryFunctionSchemas: FunctionSchema[] = [
     episodicMemorySearchSchema,
     semanticMemoryInsertSchema,
     semanticMemorySearchSchema,
+    semanticMemoryUpdateSchema,
     proceduralMemoryInsertSchema,
     proceduralMemorySearchSchema,
     resourceMemoryInsertSchema,
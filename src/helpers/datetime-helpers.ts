@@ -161,3 +161,385 @@ export function endOfDay(date: Date): Date {
     result.setHours(23, 59, 59, 999);
     return result;
 }
+
+// ============================================================================
+// TIMEZONE CONVERSION
+// ============================================================================
+
+/**
+ * Calendar fields of an instant as seen in a timezone
+ */
+export interface ZonedDateParts {
+    year: number;
+    /** 1-12 */
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    /** 0 = Sunday ... 6 = Saturday */
+    weekday: number;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Check whether a string is a timezone known to Intl
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the calendar fields of an instant in a timezone
+ */
+export function getZonedParts(date: Date, timezone: string): ZonedDateParts {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        weekday: 'short',
+        hourCycle: 'h23',
+    });
+
+    const values: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+        values[part.type] = part.value;
+    }
+
+    return {
+        year: Number(values.year),
+        month: Number(values.month),
+        day: Number(values.day),
+        hour: Number(values.hour),
+        minute: Number(values.minute),
+        second: Number(values.second),
+        weekday: WEEKDAY_INDEX[values.weekday] ?? 0,
+    };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant.
+ * Out-of-range fields roll over (e.g. day 0 is the last day of the previous month).
+ */
+export function zonedTimeToUtc(
+    timezone: string,
+    year: number,
+    month: number,
+    day: number,
+    hour = 0,
+    minute = 0,
+    second = 0,
+    millisecond = 0
+): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+
+    const offsetAt = (instant: number): number => {
+        const p = getZonedParts(new Date(instant), timezone);
+        const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+        return asUtc - Math.floor(instant / 1000) * 1000;
+    };
+
+    // Second pass corrects guesses that land on the other side of a DST change
+    let instant = wallClock - offsetAt(wallClock);
+    instant = wallClock - offsetAt(instant);
+
+    return new Date(instant);
+}
+
+// ============================================================================
+// TEMPORAL PARSING
+// ============================================================================
+
+/**
+ * A time range inferred from a natural-language expression
+ */
+export interface TemporalRange {
+    /** The phrase the range was parsed from */
+    expression: string;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+export interface TemporalParseOptions {
+    /** IANA timezone calendar boundaries are evaluated in (default: UTC, also used for unknown zones) */
+    timezone?: string;
+    /** Reference time (default: now) */
+    now?: Date;
+}
+
+type CalendarUnit = 'day' | 'week' | 'month' | 'year';
+
+/** A calendar date in the target timezone, stored as a UTC midnight for arithmetic */
+type LocalDate = Date;
+
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const MONTH_ALIASES: Record<string, number> = Object.fromEntries(
+    MONTHS.flatMap((name, i) => [[name, i + 1], [name.slice(0, 3), i + 1]]).concat([['sept', 9]])
+);
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+    eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, couple: 2, few: 3, several: 3,
+};
+
+const MONTH_RE = `(${Object.keys(MONTH_ALIASES).sort((a, b) => b.length - a.length).join('|')})\\.?`;
+const WEEKDAY_RE = `(${WEEKDAYS.join('|')})`;
+const COUNT_RE = `(\\d+|a couple of|a few|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT_RE = '(day|week|month|year)s?';
+const ISO_DATE_RE = '(\\d{4})-(\\d{1,2})-(\\d{1,2})';
+
+function parseCount(raw: string): number {
+    const word = raw.replace(/^a (couple of|few)$/, '$1');
+    return /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word] ?? 1;
+}
+
+function localDate(year: number, month: number, day: number): LocalDate {
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+function shiftLocal(date: LocalDate, unit: CalendarUnit, amount: number): LocalDate {
+    const y = date.getUTCFullYear();
+    const m = date.getUTCMonth() + 1;
+    const d = date.getUTCDate();
+
+    switch (unit) {
+        case 'day':
+            return localDate(y, m, d + amount);
+        case 'week':
+            return localDate(y, m, d + amount * 7);
+        case 'month':
+            return localDate(y, m + amount, 1);
+        case 'year':
+            return localDate(y + amount, 1, 1);
+    }
+}
+
+/**
+ * First local day of the calendar unit containing `date` (weeks start on Monday)
+ */
+function startOfUnit(date: LocalDate, unit: CalendarUnit): LocalDate {
+    const y = date.getUTCFullYear();
+    const m = date.getUTCMonth() + 1;
+    const d = date.getUTCDate();
+
+    switch (unit) {
+        case 'day':
+            return date;
+        case 'week':
+            return localDate(y, m, d - ((date.getUTCDay() + 6) % 7));
+        case 'month':
+            return localDate(y, m, 1);
+        case 'year':
+            return localDate(y, 1, 1);
+    }
+}
+
+/**
+ * Parse the first relative or absolute time expression in `text`, such as
+ * "yesterday", "last week", "two days ago", "since March" or "on 2025-03-05".
+ * Calendar boundaries are evaluated in the given timezone. Returns null when
+ * no expression is found.
+ */
+export function parseTemporalExpression(
+    text: string,
+    options: TemporalParseOptions = {}
+): TemporalRange | null {
+    const timezone = options.timezone && isValidTimezone(options.timezone) ? options.timezone : 'UTC';
+    const now = options.now ?? new Date();
+    const parts = getZonedParts(now, timezone);
+    const today = localDate(parts.year, parts.month, parts.day);
+    const input = text.toLowerCase();
+
+    // Instant of local midnight starting `date`
+    const toInstant = (date: LocalDate): Date =>
+        zonedTimeToUtc(timezone, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+
+    // [start, end] covering whole local days from `start` up to (excluding) `endExclusive`
+    const span = (start: LocalDate, endExclusive: LocalDate) => ({
+        startDate: toInstant(start),
+        endDate: new Date(toInstant(endExclusive).getTime() - 1),
+    });
+    const unitSpan = (start: LocalDate, unit: CalendarUnit) => span(start, shiftLocal(start, unit, 1));
+
+    // Most recent month/day not in the future when no year is given
+    const resolveMonth = (month: number, year?: number): LocalDate => {
+        if (year !== undefined) return localDate(year, month, 1);
+        return localDate(month > parts.month ? parts.year - 1 : parts.year, month, 1);
+    };
+    const resolveDay = (month: number, day: number, year?: number): LocalDate => {
+        if (year !== undefined) return localDate(year, month, day);
+        const candidate = localDate(parts.year, month, day);
+        return candidate > today ? localDate(parts.year - 1, month, day) : candidate;
+    };
+    const resolveWeekday = (weekday: number, excludeToday: boolean): LocalDate => {
+        let back = (parts.weekday - weekday + 7) % 7;
+        if (back === 0 && excludeToday) back = 7;
+        return shiftLocal(today, 'day', -back);
+    };
+
+    // Anchor date at the start of a "since"/"before" phrase, with the text it consumed
+    const parseAnchor = (phrase: string): { date: LocalDate; text: string } | null => {
+        const anchors: Array<[RegExp, (m: RegExpMatchArray) => LocalDate]> = [
+            [new RegExp(`^${ISO_DATE_RE}`), (m) => localDate(Number(m[1]), Number(m[2]), Number(m[3]))],
+            [
+                new RegExp(`^${MONTH_RE}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`),
+                (m) => resolveDay(MONTH_ALIASES[m[1]], Number(m[2]), m[3] ? Number(m[3]) : undefined),
+            ],
+            [
+                new RegExp(`^${MONTH_RE}(?:\\s+(\\d{4}))?\\b`),
+                (m) => resolveMonth(MONTH_ALIASES[m[1]], m[2] ? Number(m[2]) : undefined),
+            ],
+            [/^(\d{4})\b/, (m) => localDate(Number(m[1]), 1, 1)],
+            [
+                new RegExp(`^(?:last\\s+)?${WEEKDAY_RE}\\b`),
+                (m) => resolveWeekday(WEEKDAYS.indexOf(m[1]), true),
+            ],
+            [/^yesterday\b/, () => shiftLocal(today, 'day', -1)],
+            [/^today\b/, () => today],
+            [
+                /^last\s+(week|month|year)\b/,
+                (m) => shiftLocal(startOfUnit(today, m[1] as CalendarUnit), m[1] as CalendarUnit, -1),
+            ],
+        ];
+
+        for (const [pattern, resolve] of anchors) {
+            const m = phrase.match(pattern);
+            if (m) {
+                return { date: resolve(m), text: m[0] };
+            }
+        }
+        return null;
+    };
+
+    const rules: Array<{
+        pattern: RegExp;
+        resolve: (m: RegExpMatchArray) => { startDate?: Date; endDate?: Date; length?: number } | null;
+    }> = [
+        {
+            pattern: /\b(the\s+)?day\s+before\s+yesterday\b/,
+            resolve: () => unitSpan(shiftLocal(today, 'day', -2), 'day'),
+        },
+        {
+            pattern: /\b(since|after|from)\s+([a-z0-9][a-z0-9 ,.-]*)/,
+            resolve: (m) => {
+                const anchor = parseAnchor(m[2]);
+                return anchor
+                    ? { startDate: toInstant(anchor.date), endDate: now, length: m[0].indexOf(m[2]) + anchor.text.length }
+                    : null;
+            },
+        },
+        {
+            pattern: /\b(before|until|prior to)\s+([a-z0-9][a-z0-9 ,.-]*)/,
+            resolve: (m) => {
+                const anchor = parseAnchor(m[2]);
+                return anchor
+                    ? { endDate: new Date(toInstant(anchor.date).getTime() - 1), length: m[0].indexOf(m[2]) + anchor.text.length }
+                    : null;
+            },
+        },
+        {
+            pattern: /\byesterday\b|\blast\s+night\b/,
+            resolve: () => unitSpan(shiftLocal(today, 'day', -1), 'day'),
+        },
+        {
+            pattern: /\b(today|tonight|this\s+(morning|afternoon|evening))\b/,
+            resolve: () => unitSpan(today, 'day'),
+        },
+        {
+            pattern: new RegExp(`\\b${COUNT_RE}\\s+${UNIT_RE}\\s+ago\\b`),
+            resolve: (m) => {
+                const unit = m[2] as CalendarUnit;
+                const target = shiftLocal(startOfUnit(today, unit), unit, -parseCount(m[1]));
+                return unitSpan(startOfUnit(target, unit), unit);
+            },
+        },
+        {
+            pattern: new RegExp(`\\b(?:last|past|previous)\\s+${COUNT_RE}\\s+${UNIT_RE}\\b`),
+            resolve: (m) => {
+                // Rolling window of whole days ending now, e.g. "past 2 weeks" = the last 14 days
+                const count = parseCount(m[1]);
+                const daysPerUnit = { day: 1, week: 7, month: 30, year: 365 }[m[2] as CalendarUnit];
+                return { startDate: toInstant(shiftLocal(today, 'day', -(count * daysPerUnit - 1))), endDate: now };
+            },
+        },
+        {
+            pattern: /\b(?:last|previous)\s+(week|month|year)\b/,
+            resolve: (m) => {
+                const unit = m[1] as CalendarUnit;
+                return unitSpan(shiftLocal(startOfUnit(today, unit), unit, -1), unit);
+            },
+        },
+        {
+            pattern: /\bthis\s+(week|month|year)\b/,
+            resolve: (m) => unitSpan(startOfUnit(today, m[1] as CalendarUnit), m[1] as CalendarUnit),
+        },
+        {
+            pattern: /\blast\s+weekend\b/,
+            resolve: () => {
+                const saturday = shiftLocal(startOfUnit(today, 'week'), 'day', -2);
+                return span(saturday, shiftLocal(saturday, 'day', 2));
+            },
+        },
+        {
+            pattern: new RegExp(`\\b(last\\s+|on\\s+)?${WEEKDAY_RE}\\b`),
+            resolve: (m) => unitSpan(resolveWeekday(WEEKDAYS.indexOf(m[2]), m[1]?.trim() === 'last'), 'day'),
+        },
+        {
+            pattern: new RegExp(`\\b${ISO_DATE_RE}\\b`),
+            resolve: (m) => unitSpan(localDate(Number(m[1]), Number(m[2]), Number(m[3])), 'day'),
+        },
+        {
+            pattern: new RegExp(`\\b${MONTH_RE}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`),
+            resolve: (m) => unitSpan(
+                resolveDay(MONTH_ALIASES[m[1]], Number(m[2]), m[3] ? Number(m[3]) : undefined),
+                'day'
+            ),
+        },
+        {
+            // Bare month names need a preposition or a year ("may" is also a verb)
+            pattern: new RegExp(`\\b(?:(?:in|during|of|on)\\s+${MONTH_RE}(?:\\s+(\\d{4}))?|${MONTH_RE}\\s+(\\d{4}))\\b`),
+            resolve: (m) => {
+                const month = MONTH_ALIASES[m[1] ?? m[3]];
+                const year = m[2] ?? m[4];
+                return unitSpan(resolveMonth(month, year ? Number(year) : undefined), 'month');
+            },
+        },
+        {
+            pattern: /\b(?:in|during)\s+(\d{4})\b/,
+            resolve: (m) => unitSpan(localDate(Number(m[1]), 1, 1), 'year'),
+        },
+    ];
+
+    for (const rule of rules) {
+        const match = input.match(rule.pattern);
+        if (!match) continue;
+
+        const range = rule.resolve(match);
+        if (range) {
+            const start = match.index ?? 0;
+            return {
+                expression: text.slice(start, start + (range.length ?? match[0].length)).trim(),
+                startDate: range.startDate,
+                endDate: range.endDate,
+            };
+        }
+    }
+
+    return null;
+}
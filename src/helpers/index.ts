@@ -19,6 +19,16 @@ export {
     addHours,
     startOfDay,
     endOfDay,
+    isValidTimezone,
+    getZonedParts,
+    zonedTimeToUtc,
+    parseTemporalExpression,
+} from './datetime-helpers';
+
+export type {
+    ZonedDateParts,
+    TemporalRange,
+    TemporalParseOptions,
 } from './datetime-helpers';
 
 // JSON helpers
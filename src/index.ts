@@ -84,6 +84,7 @@ export type {
     ToolRule as ServiceToolRule,
     EmbeddingConfig,
     MemoryConfig,
+    CoreBlockTemplate,
     CreateAgentInput,
     UpdateAgentInput,
     AgentListOptions,
@@ -119,16 +120,21 @@ export {
     MetaAgent,
     MemoryAgentStates,
     MEMORY_AGENT_CONFIGS,
+    META_AGENT_NAME,
     createMetaAgent,
+    initializeMetaAgent,
+    ensureUserCoreMemory,
 } from './agent/index';
 
 export type {
     AgentConfig,
     AgentResult,
+    AgentStreamEvent,
     AgentState,
     AgentStep,
     MemoryAgentConfig,
     MetaAgentOptions,
+    InitializeMetaAgentOptions,
     MemoryAgentType,
     MetaAgentEmbeddingConfig,
     MetaAgentUsageStatistics,
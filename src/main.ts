@@ -5,7 +5,8 @@
 
 import { startServer } from './server/index';
 import { queueWorker } from './queue/index';
-import { connectDatabase, disconnectDatabase } from './database/index';
+import { connectDatabase, disconnectDatabase, checkFullTextSearch } from './database/index';
+import { registerBuiltinTools } from './tools/index';
 import { getLogger } from './log';
 
 const logger = getLogger('main');
@@ -17,6 +18,8 @@ async function main(): Promise<void> {
         // Connect to database
         logger.info('Connecting to database...');
         await connectDatabase();
+        await checkFullTextSearch();
+        registerBuiltinTools();
 
         // Start queue worker
         logger.info('Starting queue worker...');
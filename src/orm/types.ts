@@ -242,6 +242,8 @@ export interface AgentEmbeddingConfig {
 export interface AgentMemoryConfig {
     fadeAfterDays?: number;
     expireAfterDays?: number;
+    /** Core memory blocks created for each user of a meta agent */
+    coreBlocks?: Array<{ label: string; value: string }>;
 }
 
 /**
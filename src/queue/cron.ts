@@ -0,0 +1,171 @@
+/**
+ * Cron Expressions
+ * Minimal five-field cron parser (minute hour day-of-month month day-of-week)
+ * evaluated in UTC. Supports `*`, lists, ranges, steps and the common
+ * `@hourly`/`@daily`/`@weekly`/`@monthly` aliases.
+ */
+
+import { ValidationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    /** Day-of-month and day-of-week were both restricted, so either may match */
+    dayOr: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+};
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    // 7 is accepted as Sunday and folded into 0
+    { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+/** Give up looking for a match after this many years */
+const MAX_SEARCH_YEARS = 5;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a cron expression, throwing ValidationError when it is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+    const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression.trim();
+    const parts = normalized.split(/\s+/);
+
+    if (parts.length !== FIELDS.length) {
+        throw new ValidationError(`Invalid cron expression '${expression}'`, {
+            details: `expected ${FIELDS.length} fields, got ${parts.length}`,
+        });
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+        parseField(part, FIELDS[i], expression)
+    );
+
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOr: parts[2] !== '*' && parts[4] !== '*',
+    };
+}
+
+function parseField(
+    field: string,
+    range: (typeof FIELDS)[number],
+    expression: string
+): Set<number> {
+    const values = new Set<number>();
+
+    const invalid = (reason: string): ValidationError =>
+        new ValidationError(`Invalid cron expression '${expression}'`, {
+            details: `${range.name} '${field}': ${reason}`,
+        });
+
+    for (const item of field.split(',')) {
+        const [rangePart, stepPart] = item.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step < 1) {
+            throw invalid('step must be a positive integer');
+        }
+
+        let start: number = range.min;
+        let end: number = range.max;
+
+        if (rangePart !== '*') {
+            const bounds = rangePart.split('-').map(Number);
+            if (bounds.length > 2 || bounds.some((b) => !Number.isInteger(b))) {
+                throw invalid('expected a number, range or *');
+            }
+            start = bounds[0];
+            // A bare value with a step runs to the end of the range, e.g. 5/15
+            end = bounds.length === 2 ? bounds[1] : stepPart === undefined ? start : range.max;
+        }
+
+        if (start < range.min || end > range.max || start > end) {
+            throw invalid(`values must be within ${range.min}-${range.max}`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * The first time strictly after `from` that matches the expression
+ */
+export function getNextCronRun(expression: string | CronSchedule, from: Date = new Date()): Date {
+    const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+
+    const next = new Date(from.getTime());
+    next.setUTCSeconds(0, 0);
+    next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+    const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+    // Skip whole months, days and hours that cannot match before stepping minutes
+    while (next.getTime() <= limit) {
+        if (!schedule.months.has(next.getUTCMonth() + 1)) {
+            next.setUTCMonth(next.getUTCMonth() + 1, 1);
+            next.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(schedule, next)) {
+            next.setUTCDate(next.getUTCDate() + 1);
+            next.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(next.getUTCHours())) {
+            next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(next.getUTCMinutes())) {
+            next.setUTCMinutes(next.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+        return next;
+    }
+
+    throw new ValidationError(`Cron expression never matches within ${MAX_SEARCH_YEARS} years`);
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+    return schedule.dayOr ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
@@ -9,15 +9,46 @@ export {
     type JobResult,
     type JobHandler,
     type QueueConfig,
+    type QueueStats,
+    type CancelResult,
+    type JobQueue,
+    type HeartbeatResult,
+    type JobAttempt,
+    type DeadLetterJob,
+    type DeadLetterListOptions,
+    type BackoffPolicy,
+    type TenantDepth,
+    type TenantLoad,
+    type ClientStats,
+    type TenantStats,
+    type JobStatus,
+    type JobProgress,
+    type JobInfo,
+    type ProgressReporter,
+    getJobOrganizationId,
 } from './manager';
 
+export { GLOBAL_TENANT, NO_CLIENT } from './tenant';
+
+export { RedisQueue, type RedisQueueOptions } from './redis-queue';
+
 export {
     queueWorker,
     JobType,
     type WorkerConfig,
     type MemoryJobData,
+    type ConversationJobResult,
     type BackgroundAgentJobData,
     type CleanupJobData,
 } from './worker';
 
-export { memoryProcessor } from './memory-processor';
+export { memoryProcessor, type ConsolidationResult } from './memory-processor';
+
+export {
+    jobScheduler,
+    type ScheduleDefinition,
+    type ScheduleScope,
+    type SchedulerConfig,
+} from './scheduler';
+
+export { parseCron, getNextCronRun, type CronSchedule } from './cron';
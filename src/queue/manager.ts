@@ -3,7 +3,13 @@
  * Manages background job queues for memory processing
  */
 
+import { hostname } from 'os';
 import { logger } from '../log';
+import { settings } from '../settings';
+import { getRedisClient } from '../database/redis-client';
+import { RateLimitError } from '../errors';
+import { RedisQueue } from './redis-queue';
+import { GLOBAL_TENANT, NO_CLIENT, addClientStats, getJobClientId, getPayloadOrganizationId } from './tenant';
 
 // ============================================================================
 // TYPES
@@ -19,113 +25,555 @@ export interface QueueJob<T = unknown> {
     createdAt: Date;
     processAfter?: Date;
     metadata?: Record<string, unknown>;
+    /** Organization the job is scheduled and limited under */
+    tenantId?: string;
+    /** Client the job takes turns under within its organization */
+    clientId?: string;
+    /** Failed attempts so far, oldest first */
+    history?: JobAttempt[];
 }
 
 export interface JobResult<R = unknown> {
     success: boolean;
     result?: R;
     error?: string;
+    stack?: string;
     executionTimeMs: number;
 }
 
+/**
+ * A failed run of a job
+ */
+export interface JobAttempt {
+    /** 1-based attempt number */
+    attempt: number;
+    startedAt: Date;
+    finishedAt: Date;
+    error: string;
+    stack?: string;
+}
+
+/**
+ * A job that exhausted its attempts, kept until it is replayed or purged
+ */
+export interface DeadLetterJob {
+    job: QueueJob;
+    error: string;
+    stack?: string;
+    failedAt: Date;
+}
+
+export interface DeadLetterListOptions {
+    type?: string;
+    jobId?: string;
+    /**
+     * Only jobs for this organization. Jobs not tied to one, such as the
+     * scheduled cleanups across all organizations, are left out.
+     */
+    organizationId?: string;
+    /** Only jobs that failed before this date */
+    failedBefore?: Date;
+    limit?: number;
+    offset?: number;
+}
+
+/**
+ * How long to wait before retrying a failed job of a given type
+ */
+export interface BackoffPolicy {
+    strategy: 'fixed' | 'linear' | 'exponential';
+    /** Base delay in ms */
+    delay: number;
+    /** Upper bound for the delay in ms */
+    maxDelay: number;
+    /** Default attempts for jobs of this type */
+    maxAttempts?: number;
+}
+
+/**
+ * Lifecycle status of a job as reported to clients. Jobs waiting for a retry
+ * are queued again; failed means the job was dead-lettered.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Progress reported by a running job
+ */
+export interface JobProgress {
+    /** 0-100 */
+    percent: number;
+    /** What the job is working on, e.g. the running memory sub-agents */
+    currentStep?: string;
+    message?: string;
+    updatedAt: Date;
+}
+
+/**
+ * Current state of a job, without its payload
+ */
+export interface JobInfo {
+    id: string;
+    type: string;
+    status: JobStatus;
+    tenantId: string;
+    clientId: string;
+    attempts: number;
+    maxAttempts: number;
+    createdAt: Date;
+    /** When the current or last attempt started */
+    startedAt?: Date;
+    finishedAt?: Date;
+    /** Progress of the current attempt while running */
+    progress?: JobProgress;
+    /** Handler result once completed */
+    result?: unknown;
+    /** Last error, set after a failed attempt or cancellation */
+    error?: string;
+    metadata?: Record<string, unknown>;
+}
+
+export type ProgressReporter = (progress: Omit<JobProgress, 'updatedAt'>) => void;
+
+/**
+ * Job handler. The signal aborts when the job is cancelled while running;
+ * handlers should stop at the next safe point. Progress reports are best
+ * effort and never fail the job.
+ */
 export type JobHandler<T = unknown, R = unknown> = (
-    job: QueueJob<T>
+    job: QueueJob<T>,
+    signal: AbortSignal,
+    reportProgress: ProgressReporter
 ) => Promise<JobResult<R>>;
 
+/**
+ * Outcome of a cancel request: removed before it ran, signalled while
+ * running, or not pending or running
+ */
+export type CancelResult = 'cancelled' | 'cancelling' | 'not_found';
+
+/**
+ * Queued and running jobs for one tenant, or one of its clients
+ */
+export interface TenantDepth {
+    pending: number;
+    processing: number;
+}
+
+/**
+ * A tenant's depth with the depth of each of its clients
+ */
+export interface TenantLoad extends TenantDepth {
+    clients: Record<string, TenantDepth>;
+}
+
+export interface ClientStats extends TenantDepth {
+    completed: number;
+    failed: number;
+    cancelled: number;
+}
+
+export interface TenantStats extends ClientStats {
+    /** The same counts per client of the tenant */
+    clients: Record<string, ClientStats>;
+}
+
+export interface QueueStats {
+    pending: number;
+    processing: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    /** Failed jobs currently held in the dead-letter store */
+    deadLettered: number;
+    /** The same counts per tenant */
+    tenants: Record<string, TenantStats>;
+}
+
+/**
+ * Result of extending a running job's lease
+ */
+export interface HeartbeatResult {
+    /** The lease expired and the job was handed back to the queue */
+    lost: boolean;
+    /** Set when another process asked for the job to be cancelled */
+    cancelReason?: string;
+}
+
+/**
+ * Storage backend for a single job type. Claimed jobs stay leased to the
+ * claiming worker until they are marked finished or requeued.
+ */
+export interface JobQueue {
+    add(job: QueueJob): Promise<void>;
+    /** Atomically take a tenant client's next ready job, highest priority first */
+    claim(workerId: string, tenantId: string, clientId: string): Promise<QueueJob | null>;
+    markComplete(id: string, result: JobResult): Promise<void>;
+    /** Move a job that exhausted its attempts to the dead-letter store */
+    markFailed(job: QueueJob, error: string, stack?: string): Promise<void>;
+    markCancelled(id: string, reason: string): Promise<void>;
+    requeueForRetry(job: QueueJob, delayMs: number): Promise<void>;
+    /** Remove a job that has not started yet */
+    cancelPending(id: string, reason: string): Promise<boolean>;
+    /** Flag a job running in another process for cancellation */
+    requestCancel(id: string, reason: string): Promise<boolean>;
+    /** Extend the lease held by a worker on a running job */
+    heartbeat(id: string, workerId: string): Promise<HeartbeatResult>;
+    /** Requeue or fail jobs whose lease expired, returning how many were found */
+    recoverExpired(backoff: BackoffPolicy): Promise<number>;
+    /** Current state of a job, or null once it is no longer retained */
+    getJob(id: string): Promise<JobInfo | null>;
+    /** Record progress for a running job */
+    setProgress(id: string, progress: JobProgress): Promise<void>;
+    getTenantDepth(tenantId: string): Promise<TenantDepth>;
+    /** Depths of every tenant with queued or running jobs, per client */
+    getTenantDepths(): Promise<Record<string, TenantLoad>>;
+    /** Dead-lettered jobs, most recently failed first */
+    listDeadLetters(): Promise<DeadLetterJob[]>;
+    getDeadLetter(id: string): Promise<DeadLetterJob | null>;
+    /** Take a job out of the dead-letter store, returning it */
+    removeDeadLetter(id: string): Promise<DeadLetterJob | null>;
+    getStats(): Promise<QueueStats>;
+}
+
 export interface QueueConfig {
-    /** Maximum concurrent jobs */
+    /** Maximum concurrent jobs per type in this process */
     concurrency: number;
     /** Default retry attempts */
     defaultRetries: number;
-    /** Retry delay in ms */
+    /** Base retry delay in ms for types without a backoff policy */
     retryDelay: number;
+    /** Upper bound for the retry delay in ms */
+    maxRetryDelay: number;
     /** Poll interval for new jobs in ms */
     pollInterval: number;
+    /** Lease length for a claimed job in ms (Redis queue) */
+    visibilityTimeout: number;
+    /** How often running jobs renew their lease in ms */
+    heartbeatInterval: number;
+    /** How long completed and cancelled jobs stay readable in ms */
+    finishedJobTtl: number;
+    /** Maximum running jobs per tenant and type, across workers sharing the queue */
+    tenantConcurrency: number;
+    /** Maximum queued jobs per tenant and type before adds are rejected */
+    tenantQueueQuota: number;
+    /** Round-robin weights per tenant; unlisted tenants weigh 1 */
+    tenantWeights: Record<string, number>;
 }
 
 const DEFAULT_CONFIG: QueueConfig = {
     concurrency: 5,
     defaultRetries: 3,
     retryDelay: 5000,
+    maxRetryDelay: 300000,
     pollInterval: 1000,
+    visibilityTimeout: 30000,
+    heartbeatInterval: 10000,
+    finishedJobTtl: 86400000,
+    tenantConcurrency: 2,
+    tenantQueueQuota: 1000,
+    tenantWeights: {},
 };
 
+/** Retry-After sent with queue quota rejections, in seconds */
+const QUOTA_RETRY_AFTER_SECONDS = 30;
+
+interface ActiveJob {
+    type: string;
+    tenantId: string;
+    controller: AbortController;
+    /** Set when the lease was lost and another worker may own the job */
+    lost: boolean;
+}
+
+/**
+ * Lifecycle fields the in-memory queue keeps alongside each job
+ */
+type JobState = Pick<JobInfo, 'status' | 'startedAt' | 'finishedAt' | 'progress' | 'result' | 'error'>;
+
 // ============================================================================
 // IN-MEMORY QUEUE
 // ============================================================================
 
-class InMemoryQueue {
+class InMemoryQueue implements JobQueue {
     private jobs: Map<string, QueueJob> = new Map();
-    private pending: string[] = [];
-    private processing: Set<string> = new Set();
-    private completed: Map<string, JobResult> = new Map();
-    private failed: Map<string, { job: QueueJob; error: string }> = new Map();
+    /** Pending job IDs per tenant and client, in claim order */
+    private pending: Map<string, Map<string, string[]>> = new Map();
+    /** Running job IDs and their tenant and client */
+    private processing: Map<string, { tenantId: string; clientId: string }> = new Map();
+    private states: Map<string, JobState> = new Map();
+    private deadLetters: Map<string, DeadLetterJob> = new Map();
+    /** Counters per tenant and client */
+    private clientStats: Map<string, Map<string, ClientStats>> = new Map();
+    /** Expiry time of completed and cancelled jobs, oldest first */
+    private finished: Map<string, number> = new Map();
+
+    constructor(private readonly options: { finishedJobTtl: number }) {}
 
-    add(job: QueueJob): void {
+    async add(job: QueueJob): Promise<void> {
+        this.finished.delete(job.id);
         this.jobs.set(job.id, job);
-        this.pending.push(job.id);
-        // Sort by priority (higher first) then by creation time
-        this.pending.sort((a, b) => {
-            const jobA = this.jobs.get(a)!;
-            const jobB = this.jobs.get(b)!;
-            if (jobA.priority !== jobB.priority) {
-                return jobB.priority - jobA.priority;
-            }
-            return jobA.createdAt.getTime() - jobB.createdAt.getTime();
-        });
+        this.states.set(job.id, { status: 'queued' });
+        this.enqueue(job);
     }
 
-    getNextPending(): QueueJob | null {
+    async claim(_workerId: string, tenantId: string, clientId: string): Promise<QueueJob | null> {
+        const pending = this.pending.get(tenantId)?.get(clientId) ?? [];
         const now = new Date();
-        for (let i = 0; i < this.pending.length; i++) {
-            const id = this.pending[i];
+        for (let i = 0; i < pending.length; i++) {
+            const id = pending[i];
             const job = this.jobs.get(id);
             if (!job) continue;
             if (job.processAfter && job.processAfter > now) continue;
-            this.pending.splice(i, 1);
-            this.processing.add(id);
+            pending.splice(i, 1);
+            this.processing.set(id, { tenantId, clientId });
+            this.statsFor(tenantId, clientId).pending--;
+            this.statsFor(tenantId, clientId).processing++;
+            this.states.set(id, { ...this.states.get(id), status: 'running', startedAt: now, progress: undefined });
             return job;
         }
         return null;
     }
+    async markComplete(id: string, result: JobResult): Promise<void> {
+        this.release(id, 'completed');
+        this.updateState(id, {
+            status: 'completed',
+            finishedAt: new Date(),
+            result: result.result,
+            progress: undefined,
+            error: undefined,
+        });
+        this.expireFinished(id);
+    }
+
+    async markFailed(job: QueueJob, error: string, stack?: string): Promise<void> {
+        this.release(job.id, 'failed');
+        this.jobs.set(job.id, job);
+        this.deadLetters.set(job.id, { job, error, stack, failedAt: new Date() });
+        this.updateState(job.id, { status: 'failed', finishedAt: new Date(), error });
+    }
 
-    markComplete(id: string, result: JobResult): void {
-        this.processing.delete(id);
-        this.completed.set(id, result);
+    async markCancelled(id: string, reason: string): Promise<void> {
+        this.release(id, 'cancelled');
+        this.updateState(id, { status: 'cancelled', finishedAt: new Date(), error: reason });
+        this.expireFinished(id);
     }
 
-    markFailed(id: string, error: string): void {
-        this.processing.delete(id);
+    async cancelPending(id: string, reason: string): Promise<boolean> {
         const job = this.jobs.get(id);
-        if (job) {
-            this.failed.set(id, { job, error });
+        const tenantId = job?.tenantId ?? GLOBAL_TENANT;
+        const clientId = job?.clientId ?? NO_CLIENT;
+        const pending = this.pending.get(tenantId)?.get(clientId) ?? [];
+        const index = pending.indexOf(id);
+        if (!job || index === -1) {
+            return false;
         }
+        pending.splice(index, 1);
+        this.statsFor(tenantId, clientId).pending--;
+        await this.markCancelled(id, reason);
+        return true;
+    }
+
+    /**
+     * Running jobs only live in this process, so the manager aborts them directly
+     */
+    async requestCancel(): Promise<boolean> {
+        return false;
     }
 
-    requeueForRetry(job: QueueJob): void {
+    async requeueForRetry(job: QueueJob, delayMs: number): Promise<void> {
         const updatedJob = {
             ...job,
             attempts: job.attempts + 1,
-            processAfter: new Date(Date.now() + DEFAULT_CONFIG.retryDelay),
+            processAfter: new Date(Date.now() + delayMs),
         };
         this.jobs.set(job.id, updatedJob);
-        this.processing.delete(job.id);
-        this.pending.push(job.id);
+        this.release(job.id);
+        this.updateState(job.id, {
+            status: 'queued',
+            progress: undefined,
+            error: job.history?.[job.history.length - 1]?.error,
+        });
+        this.enqueue(updatedJob);
+    }
+
+    /**
+     * Leases never expire in-process
+     */
+    async heartbeat(): Promise<HeartbeatResult> {
+        return { lost: false };
+    }
+
+    async recoverExpired(): Promise<number> {
+        return 0;
+    }
+
+    async getJob(id: string): Promise<JobInfo | null> {
+        const job = this.jobs.get(id);
+        const state = this.states.get(id);
+        if (!job || !state) {
+            return null;
+        }
+        return toJobInfo(job, state);
+    }
+
+    async setProgress(id: string, progress: JobProgress): Promise<void> {
+        if (this.processing.has(id)) {
+            this.updateState(id, { progress });
+        }
     }
 
-    getStats(): {
-        pending: number;
-        processing: number;
-        completed: number;
-        failed: number;
-    } {
+    async getTenantDepth(tenantId: string): Promise<TenantDepth> {
+        const depth = { pending: 0, processing: 0 };
+        for (const stats of this.clientStats.get(tenantId)?.values() ?? []) {
+            depth.pending += stats.pending;
+            depth.processing += stats.processing;
+        }
+        return depth;
+    }
+
+    async getTenantDepths(): Promise<Record<string, TenantLoad>> {
+        const depths: Record<string, TenantLoad> = {};
+        for (const [tenantId, clients] of this.clientStats) {
+            for (const [clientId, stats] of clients) {
+                if (stats.pending === 0 && stats.processing === 0) {
+                    continue;
+                }
+                const load = (depths[tenantId] ??= { pending: 0, processing: 0, clients: {} });
+                load.pending += stats.pending;
+                load.processing += stats.processing;
+                load.clients[clientId] = { pending: stats.pending, processing: stats.processing };
+            }
+        }
+        return depths;
+    }
+
+    async listDeadLetters(): Promise<DeadLetterJob[]> {
+        return Array.from(this.deadLetters.values()).sort(
+            (a, b) => b.failedAt.getTime() - a.failedAt.getTime()
+        );
+    }
+
+    async getDeadLetter(id: string): Promise<DeadLetterJob | null> {
+        return this.deadLetters.get(id) ?? null;
+    }
+
+    async removeDeadLetter(id: string): Promise<DeadLetterJob | null> {
+        const entry = this.deadLetters.get(id);
+        if (!entry) {
+            return null;
+        }
+        this.deadLetters.delete(id);
+        this.jobs.delete(id);
+        this.states.delete(id);
+        return entry;
+    }
+
+    async getStats(): Promise<QueueStats> {
+        const tenants: Record<string, TenantStats> = {};
+        for (const [tenantId, clients] of this.clientStats) {
+            for (const [clientId, stats] of clients) {
+                addClientStats(tenants, tenantId, clientId, stats);
+            }
+        }
+        const total = (field: keyof ClientStats): number =>
+            Object.values(tenants).reduce((sum, stats) => sum + stats[field], 0);
+
         return {
-            pending: this.pending.length,
+            pending: total('pending'),
             processing: this.processing.size,
-            completed: this.completed.size,
-            failed: this.failed.size,
+            completed: total('completed'),
+            failed: total('failed'),
+            cancelled: total('cancelled'),
+            deadLettered: this.deadLetters.size,
+            tenants,
         };
     }
+
+    /**
+     * Insert a job into its tenant's pending list, by priority (higher
+     * first) then by creation time
+     */
+    private enqueue(job: QueueJob): void {
+        const tenantId = job.tenantId ?? GLOBAL_TENANT;
+        const clientId = job.clientId ?? NO_CLIENT;
+        let clients = this.pending.get(tenantId);
+        if (!clients) {
+            clients = new Map();
+            this.pending.set(tenantId, clients);
+        }
+        let pending = clients.get(clientId);
+        if (!pending) {
+            pending = [];
+            clients.set(clientId, pending);
+        }
+
+        pending.push(job.id);
+        pending.sort((a, b) => {
+            const jobA = this.jobs.get(a)!;
+            const jobB = this.jobs.get(b)!;
+            if (jobA.priority !== jobB.priority) {
+                return jobB.priority - jobA.priority;
+            }
+            return jobA.createdAt.getTime() - jobB.createdAt.getTime();
+        });
+        this.statsFor(tenantId, clientId).pending++;
+    }
+
+    /**
+     * Drop a job from the running set, counting its outcome if it finished
+     */
+    private release(id: string, outcome?: 'completed' | 'failed' | 'cancelled'): void {
+        const job = this.jobs.get(id);
+        const { tenantId, clientId } = this.processing.get(id)
+            ?? { tenantId: job?.tenantId ?? GLOBAL_TENANT, clientId: job?.clientId ?? NO_CLIENT };
+        const stats = this.statsFor(tenantId, clientId);
+        if (this.processing.delete(id)) {
+            stats.processing--;
+        }
+        if (outcome) {
+            stats[outcome]++;
+        }
+    }
+
+    private updateState(id: string, update: Partial<JobState>): void {
+        const state = this.states.get(id);
+        if (state) {
+            this.states.set(id, { ...state, ...update });
+        }
+    }
+
+    /**
+     * Schedule a finished job for eviction after finishedJobTtl and evict the
+     * ones already past it. Failed jobs stay for as long as their dead letter.
+     */
+    private expireFinished(id: string): void {
+        const now = Date.now();
+        this.finished.delete(id);
+        this.finished.set(id, now + this.options.finishedJobTtl);
+
+        for (const [finishedId, expiresAt] of this.finished) {
+            if (expiresAt > now) {
+                break;
+            }
+            this.finished.delete(finishedId);
+            this.jobs.delete(finishedId);
+            this.states.delete(finishedId);
+        }
+    }
+
+    private statsFor(tenantId: string, clientId: string): ClientStats {
+        let clients = this.clientStats.get(tenantId);
+        if (!clients) {
+            clients = new Map();
+            this.clientStats.set(tenantId, clients);
+        }
+        let stats = clients.get(clientId);
+        if (!stats) {
+            stats = { pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 };
+            clients.set(clientId, stats);
+        }
+        return stats;
+    }
 }
 
 // ============================================================================
@@ -134,10 +582,18 @@ class InMemoryQueue {
 
 class QueueManager {
     private readonly logger = logger;
-    private queues: Map<string, InMemoryQueue> = new Map();
+    private readonly workerId = `worker-${hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 9)}`;
+    private queues: Map<string, JobQueue> = new Map();
     private handlers: Map<string, JobHandler> = new Map();
+    private backoffPolicies: Map<string, BackoffPolicy> = new Map();
+    private activeJobs: Map<string, ActiveJob> = new Map();
+    /** Smooth weighted round-robin credit per tenant, per job type */
+    private tenantCredits: Map<string, Map<string, number>> = new Map();
+    /** Round-robin credit per client, per job type and tenant */
+    private clientCredits: Map<string, Map<string, number>> = new Map();
     private config: QueueConfig;
     private running = false;
+    private polling = false;
     private pollIntervalId?: NodeJS.Timeout;
 
     constructor(config: Partial<QueueConfig> = {}) {
@@ -145,18 +601,27 @@ class QueueManager {
     }
 
     /**
-     * Register a job handler for a queue type
+     * Register a job handler for a queue type, optionally with its own
+     * retry backoff
      */
     registerHandler<T, R>(
         type: string,
-        handler: JobHandler<T, R>
+        handler: JobHandler<T, R>,
+        options: { backoff?: Partial<BackoffPolicy> } = {}
     ): void {
         this.handlers.set(type, handler as JobHandler);
+        if (options.backoff) {
+            this.backoffPolicies.set(type, { ...this.defaultBackoff(), ...options.backoff });
+        }
+        // Create the queue up front so a worker polls jobs added by other processes
+        this.getOrCreateQueue(type);
         this.logger.info({ type }, 'Job handler registered');
     }
 
     /**
-     * Add a job to the queue
+     * Add a job to the queue. The job's tenant defaults to the organization
+     * in its payload and its client to metadata.clientId; a tenant over its
+     * queue quota is rejected with RateLimitError.
      */
     async addJob<T>(
         type: string,
@@ -166,9 +631,15 @@ class QueueManager {
             maxAttempts?: number;
             processAfter?: Date;
             metadata?: Record<string, unknown>;
+            tenantId?: string;
+            clientId?: string;
         } = {}
     ): Promise<string> {
         const queue = this.getOrCreateQueue(type);
+        const tenantId = options.tenantId ?? getPayloadOrganizationId(data) ?? GLOBAL_TENANT;
+        const clientId = options.clientId ?? getJobClientId(data, options.metadata) ?? NO_CLIENT;
+
+        await this.assertCapacity(type, tenantId);
 
         const job: QueueJob<T> = {
             id: `job-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
@@ -176,18 +647,87 @@ class QueueManager {
             data,
             priority: options.priority ?? 0,
             attempts: 0,
-            maxAttempts: options.maxAttempts ?? this.config.defaultRetries,
+            maxAttempts:
+                options.maxAttempts ?? this.getBackoffPolicy(type).maxAttempts ?? this.config.defaultRetries,
             createdAt: new Date(),
             processAfter: options.processAfter,
             metadata: options.metadata,
+            tenantId,
+            clientId,
         };
 
-        queue.add(job);
-        this.logger.debug({ jobId: job.id, type }, 'Job added to queue');
+        await queue.add(job);
+        this.logger.debug({ jobId: job.id, type, tenantId, clientId }, 'Job added to queue');
 
         return job.id;
     }
 
+    /**
+     * Throw RateLimitError when a tenant already has its quota of jobs of
+     * this type queued
+     */
+    async assertCapacity(type: string, tenantId: string): Promise<void> {
+        const { pending } = await this.getOrCreateQueue(type).getTenantDepth(tenantId);
+
+        if (pending >= this.config.tenantQueueQuota) {
+            this.logger.warn({ type, tenantId, pending }, 'Queue quota exceeded');
+            throw new RateLimitError(
+                `Too many queued ${type} jobs for this organization (limit ${this.config.tenantQueueQuota})`,
+                QUOTA_RETRY_AFTER_SECONDS
+            );
+        }
+    }
+
+    /**
+     * Set a tenant's share of workers relative to other tenants (default 1)
+     */
+    setTenantWeight(tenantId: string, weight: number): void {
+        this.config.tenantWeights[tenantId] = Math.max(1, weight);
+    }
+
+    /**
+     * Cancel a job. Pending jobs are dropped; running jobs have their signal
+     * aborted and are not retried. Jobs running in another process are
+     * flagged and stop at that worker's next heartbeat.
+     */
+    async cancel(jobId: string, reason = 'Cancelled'): Promise<CancelResult> {
+        for (const [type, queue] of this.queues) {
+            if (await queue.cancelPending(jobId, reason)) {
+                this.logger.info({ jobId, type, reason }, 'Pending job cancelled');
+                return 'cancelled';
+            }
+        }
+
+        const active = this.activeJobs.get(jobId);
+        if (active) {
+            active.controller.abort(reason);
+            this.logger.info({ jobId, type: active.type, reason }, 'Running job cancellation requested');
+            return 'cancelling';
+        }
+
+        for (const [type, queue] of this.queues) {
+            if (await queue.requestCancel(jobId, reason)) {
+                this.logger.info({ jobId, type, reason }, 'Remote job cancellation requested');
+                return 'cancelling';
+            }
+        }
+
+        return 'not_found';
+    }
+
+    /**
+     * Get a job's status, progress and result by ID
+     */
+    async getJob(jobId: string): Promise<JobInfo | null> {
+        for (const queue of this.queues.values()) {
+            const job = await queue.getJob(jobId);
+            if (job) {
+                return job;
+            }
+        }
+        return null;
+    }
+
     /**
      * Start processing queued jobs
      */
@@ -201,7 +741,7 @@ class QueueManager {
             this.processQueues();
         }, this.config.pollInterval);
 
-        this.logger.info('Queue manager started');
+        this.logger.info({ workerId: this.workerId }, 'Queue manager started');
     }
 
     /**
@@ -225,24 +765,69 @@ class QueueManager {
      * Process jobs from all queues
      */
     private async processQueues(): Promise<void> {
-        for (const [type, queue] of this.queues) {
-            const handler = this.handlers.get(type);
-            if (!handler) {
-                continue;
-            }
+        // A slow backend can make polls overlap; skip until the last one finishes
+        if (this.polling) {
+            return;
+        }
+        this.polling = true;
 
-            const stats = queue.getStats();
-            if (stats.processing >= this.config.concurrency) {
-                continue;
-            }
+        try {
+            for (const [type, queue] of this.queues) {
+                const handler = this.handlers.get(type);
+                if (!handler) {
+                    continue;
+                }
 
-            const job = queue.getNextPending();
-            if (!job) {
-                continue;
-            }
+                const recovered = await queue.recoverExpired(this.getBackoffPolicy(type));
+                if (recovered > 0) {
+                    this.logger.warn({ type, recovered }, 'Recovered jobs with expired leases');
+                }
 
-            // Process asynchronously
-            this.processJob(type, job, handler);
+                let freeSlots = this.config.concurrency - this.countActive(type);
+                if (freeSlots <= 0) {
+                    continue;
+                }
+
+                // Tenants with queued work that are under their concurrency cap,
+                // with their running job counts and the clients with queued work
+                const candidates = new Map<string, { running: number; clients: string[] }>();
+                for (const [tenantId, load] of Object.entries(await queue.getTenantDepths())) {
+                    const clients = Object.entries(load.clients)
+                        .filter(([, depth]) => depth.pending > 0)
+                        .map(([clientId]) => clientId);
+                    if (clients.length > 0 && load.processing < this.config.tenantConcurrency) {
+                        candidates.set(tenantId, { running: load.processing, clients });
+                    }
+                }
+
+                while (freeSlots > 0 && candidates.size > 0 && this.running) {
+                    const tenantId = this.pickTenant(type, Array.from(candidates.keys()));
+                    const candidate = candidates.get(tenantId)!;
+                    const clientId = this.pickClient(type, tenantId, candidate.clients);
+                    const job = await queue.claim(this.workerId, tenantId, clientId);
+                    if (!job) {
+                        // Only delayed jobs left for this client
+                        candidate.clients = candidate.clients.filter((id) => id !== clientId);
+                        if (candidate.clients.length === 0) {
+                            candidates.delete(tenantId);
+                        }
+                        continue;
+                    }
+                    freeSlots--;
+
+                    candidate.running++;
+                    if (candidate.running >= this.config.tenantConcurrency) {
+                        candidates.delete(tenantId);
+                    }
+
+                    // Process asynchronously
+                    this.processJob(type, queue, job, handler);
+                }
+            }
+        } catch (error) {
+            this.logger.error({ error }, 'Failed to poll job queues');
+        } finally {
+            this.polling = false;
         }
     }
 
@@ -251,11 +836,36 @@ class QueueManager {
      */
     private async processJob(
         type: string,
+        queue: JobQueue,
         job: QueueJob,
         handler: JobHandler
     ): Promise<void> {
-        const queue = this.queues.get(type)!;
         const startTime = Date.now();
+        const active: ActiveJob = {
+            type,
+            tenantId: job.tenantId ?? GLOBAL_TENANT,
+            controller: new AbortController(),
+            lost: false,
+        };
+        const { controller } = active;
+        this.activeJobs.set(job.id, active);
+
+        const heartbeat = setInterval(() => {
+            this.sendHeartbeat(queue, job.id, active);
+        }, this.config.heartbeatInterval);
+
+        const reportProgress: ProgressReporter = (progress) => {
+            if (active.lost || controller.signal.aborted) {
+                return;
+            }
+            queue
+                .setProgress(job.id, {
+                    ...progress,
+                    percent: Math.min(100, Math.max(0, Math.round(progress.percent))),
+                    updatedAt: new Date(),
+                })
+                .catch((error) => this.logger.warn({ jobId: job.id, type, error }, 'Failed to record job progress'));
+        };
 
         this.logger.debug(
             { jobId: job.id, type, attempt: job.attempts + 1 },
@@ -263,78 +873,274 @@ class QueueManager {
         );
 
         try {
-            const result = await handler(job);
+            const result = await handler(job, controller.signal, reportProgress);
 
-            if (result.success) {
-                queue.markComplete(job.id, result);
+            if (active.lost) {
+                this.logger.warn(
+                    { jobId: job.id, type, executionTimeMs: Date.now() - startTime },
+                    'Job lease lost, leaving it to the queue'
+                );
+            } else if (controller.signal.aborted) {
+                await queue.markCancelled(job.id, String(controller.signal.reason));
+                this.logger.info(
+                    { jobId: job.id, type, executionTimeMs: Date.now() - startTime },
+                    'Job cancelled'
+                );
+            } else if (result.success) {
+                await queue.markComplete(job.id, result);
                 this.logger.debug(
                     { jobId: job.id, type, executionTimeMs: result.executionTimeMs },
                     'Job completed successfully'
                 );
             } else {
+                const error = result.error ?? 'Unknown error';
+                const failedJob = withAttempt(job, startTime, error, result.stack);
+
                 if (job.attempts < job.maxAttempts - 1) {
-                    queue.requeueForRetry(job);
+                    await queue.requeueForRetry(failedJob, this.getRetryDelay(type, job.attempts));
                     this.logger.warn(
-                        { jobId: job.id, type, error: result.error, attempt: job.attempts + 1 },
+                        { jobId: job.id, type, error, attempt: job.attempts + 1 },
                         'Job failed, requeuing for retry'
                     );
                 } else {
-                    queue.markFailed(job.id, result.error ?? 'Unknown error');
+                    await queue.markFailed(failedJob, error, result.stack);
                     this.logger.error(
-                        { jobId: job.id, type, error: result.error },
-                        'Job failed after max attempts'
+                        { jobId: job.id, type, error },
+                        'Job failed after max attempts, moved to dead-letter store'
                     );
                 }
             }
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
+            const stack = error instanceof Error ? error.stack : undefined;
+            const failedJob = withAttempt(job, startTime, errorMessage, stack);
 
-            if (job.attempts < job.maxAttempts - 1) {
-                queue.requeueForRetry(job);
-                this.logger.warn(
-                    { jobId: job.id, type, error: errorMessage, attempt: job.attempts + 1 },
-                    'Job threw exception, requeuing for retry'
-                );
-            } else {
-                queue.markFailed(job.id, errorMessage);
-                this.logger.error(
-                    { jobId: job.id, type, error: errorMessage, executionTimeMs: Date.now() - startTime },
-                    'Job threw exception after max attempts'
-                );
+            try {
+                if (active.lost) {
+                    this.logger.warn({ jobId: job.id, type, error: errorMessage }, 'Job lease lost, leaving it to the queue');
+                } else if (controller.signal.aborted) {
+                    await queue.markCancelled(job.id, String(controller.signal.reason));
+                    this.logger.info({ jobId: job.id, type, error: errorMessage }, 'Job cancelled');
+                } else if (job.attempts < job.maxAttempts - 1) {
+                    await queue.requeueForRetry(failedJob, this.getRetryDelay(type, job.attempts));
+                    this.logger.warn(
+                        { jobId: job.id, type, error: errorMessage, attempt: job.attempts + 1 },
+                        'Job threw exception, requeuing for retry'
+                    );
+                } else {
+                    await queue.markFailed(failedJob, errorMessage, stack);
+                    this.logger.error(
+                        { jobId: job.id, type, error: errorMessage, executionTimeMs: Date.now() - startTime },
+                        'Job threw exception after max attempts, moved to dead-letter store'
+                    );
+                }
+            } catch (queueError) {
+                // The lease expires and the job is recovered by the next poll
+                this.logger.error({ jobId: job.id, type, error: queueError }, 'Failed to record job outcome');
+            }
+        } finally {
+            clearInterval(heartbeat);
+            this.activeJobs.delete(job.id);
+        }
+    }
+
+    /**
+     * Extend a running job's lease and pick up cancellations from other processes
+     */
+    private async sendHeartbeat(queue: JobQueue, jobId: string, active: ActiveJob): Promise<void> {
+        try {
+            const { lost, cancelReason } = await queue.heartbeat(jobId, this.workerId);
+
+            if (lost) {
+                active.lost = true;
+                active.controller.abort('Job lease expired');
+                this.logger.warn({ jobId, type: active.type }, 'Job lease lost, aborting');
+            } else if (cancelReason && !active.controller.signal.aborted) {
+                active.controller.abort(cancelReason);
+                this.logger.info({ jobId, type: active.type, reason: cancelReason }, 'Job cancelled remotely');
             }
+        } catch (error) {
+            this.logger.warn({ jobId, type: active.type, error }, 'Job heartbeat failed');
         }
     }
 
+    /**
+     * Backoff policy for a job type, falling back to exponential backoff
+     * from the queue config
+     */
+    getBackoffPolicy(type: string): BackoffPolicy {
+        return this.backoffPolicies.get(type) ?? this.defaultBackoff();
+    }
+
+    private defaultBackoff(): BackoffPolicy {
+        return {
+            strategy: 'exponential',
+            delay: this.config.retryDelay,
+            maxDelay: this.config.maxRetryDelay,
+        };
+    }
+
+    /**
+     * Delay before the next attempt, given the number of previous attempts
+     */
+    private getRetryDelay(type: string, attempts: number): number {
+        const policy = this.getBackoffPolicy(type);
+        const delay =
+            policy.strategy === 'exponential' ? policy.delay * 2 ** attempts
+            : policy.strategy === 'linear' ? policy.delay * (attempts + 1)
+            : policy.delay;
+        return Math.min(delay, policy.maxDelay);
+    }
+
+    /**
+     * Pick the tenant whose turn it is, by its configured weight
+     */
+    private pickTenant(type: string, tenantIds: string[]): string {
+        return pickWeighted(
+            getCredits(this.tenantCredits, type),
+            tenantIds,
+            (tenantId) => this.config.tenantWeights[tenantId] ?? 1
+        );
+    }
+
+    /**
+     * Pick the client whose turn it is within a tenant's turn; clients of a
+     * tenant weigh the same
+     */
+    private pickClient(type: string, tenantId: string, clientIds: string[]): string {
+        return pickWeighted(getCredits(this.clientCredits, `${type}:${tenantId}`), clientIds, () => 1);
+    }
+
+    private countActive(type: string): number {
+        let count = 0;
+        for (const active of this.activeJobs.values()) {
+            if (active.type === type) {
+                count++;
+            }
+        }
+        return count;
+    }
+
     /**
      * Get or create a queue for a type
      */
-    private getOrCreateQueue(type: string): InMemoryQueue {
+    private getOrCreateQueue(type: string): JobQueue {
         let queue = this.queues.get(type);
         if (!queue) {
-            queue = new InMemoryQueue();
+            queue = this.createQueue(type);
             this.queues.set(type, queue);
         }
         return queue;
     }
 
+    /**
+     * Use the durable Redis queue when Redis is enabled, in-memory otherwise
+     */
+    private createQueue(type: string): JobQueue {
+        if (settings.redisEnabled) {
+            const redis = getRedisClient({ redisUri: settings.mirixRedisUri });
+            if (redis) {
+                this.logger.debug({ type }, 'Using Redis job queue');
+                return new RedisQueue(redis, type, {
+                    visibilityTimeout: this.config.visibilityTimeout,
+                    finishedJobTtl: this.config.finishedJobTtl,
+                });
+            }
+            this.logger.warn({ type }, 'Redis enabled but not configured, using in-memory job queue');
+        }
+        return new InMemoryQueue({ finishedJobTtl: this.config.finishedJobTtl });
+    }
+
+    // ========================================================================
+    // DEAD LETTERS
+    // ========================================================================
+
+    /**
+     * List dead-lettered jobs across queues, most recently failed first
+     */
+    async listDeadLetters(
+        options: DeadLetterListOptions = {}
+    ): Promise<{ items: DeadLetterJob[]; total: number }> {
+        const entries: DeadLetterJob[] = [];
+
+        for (const [type, queue] of this.queues) {
+            if (options.type && options.type !== type) {
+                continue;
+            }
+            for (const entry of await queue.listDeadLetters()) {
+                if (matchesDeadLetter(entry, options)) {
+                    entries.push(entry);
+                }
+            }
+        }
+
+        entries.sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime());
+        const offset = options.offset ?? 0;
+        const items = options.limit !== undefined
+            ? entries.slice(offset, offset + options.limit)
+            : entries.slice(offset);
+
+        return { items, total: entries.length };
+    }
+
+    /**
+     * Get a dead-lettered job by ID
+     */
+    async getDeadLetter(jobId: string): Promise<DeadLetterJob | null> {
+        for (const queue of this.queues.values()) {
+            const entry = await queue.getDeadLetter(jobId);
+            if (entry) {
+                return entry;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Put a dead-lettered job back on its queue with a fresh set of attempts.
+     * It keeps its ID and attempt history.
+     */
+    async replayDeadLetter(jobId: string): Promise<QueueJob | null> {
+        for (const [type, queue] of this.queues) {
+            const entry = await queue.removeDeadLetter(jobId);
+            if (!entry) {
+                continue;
+            }
+
+            const job: QueueJob = { ...entry.job, attempts: 0, processAfter: undefined };
+            await queue.add(job);
+            this.logger.info({ jobId, type }, 'Dead-lettered job replayed');
+            return job;
+        }
+        return null;
+    }
+
+    /**
+     * Permanently delete dead-lettered jobs matching the filters, returning
+     * how many were removed
+     */
+    async purgeDeadLetters(options: Omit<DeadLetterListOptions, 'limit' | 'offset'> = {}): Promise<number> {
+        const { items } = await this.listDeadLetters(options);
+
+        let purged = 0;
+        for (const entry of items) {
+            if (await this.getOrCreateQueue(entry.job.type).removeDeadLetter(entry.job.id)) {
+                purged++;
+            }
+        }
+
+        this.logger.info({ ...options, purged }, 'Dead-lettered jobs purged');
+        return purged;
+    }
+
     /**
      * Get queue statistics
      */
-    getStats(): Record<string, {
-        pending: number;
-        processing: number;
-        completed: number;
-        failed: number;
-    }> {
-        const stats: Record<string, {
-            pending: number;
-            processing: number;
-            completed: number;
-            failed: number;
-        }> = {};
+    async getStats(): Promise<Record<string, QueueStats>> {
+        const stats: Record<string, QueueStats> = {};
 
         for (const [type, queue] of this.queues) {
-            stats[type] = queue.getStats();
+            stats[type] = await queue.getStats();
         }
 
         return stats;
@@ -348,7 +1154,99 @@ class QueueManager {
     }
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Smooth weighted round robin: every candidate earns its weight in credit,
+ * the richest is picked and pays back the total. Over time each candidate
+ * gets a share of picks proportional to its weight, interleaved rather than
+ * in bursts. Candidates without claimable work keep their credit.
+ */
+function pickWeighted(credits: Map<string, number>, ids: string[], weightOf: (id: string) => number): string {
+    let totalWeight = 0;
+    let picked = ids[0];
+    let pickedCredit = -Infinity;
+    for (const id of ids) {
+        const weight = weightOf(id);
+        const credit = (credits.get(id) ?? 0) + weight;
+        credits.set(id, credit);
+        totalWeight += weight;
+        if (credit > pickedCredit) {
+            picked = id;
+            pickedCredit = credit;
+        }
+    }
+
+    credits.set(picked, pickedCredit - totalWeight);
+    return picked;
+}
+
+function getCredits(all: Map<string, Map<string, number>>, key: string): Map<string, number> {
+    let credits = all.get(key);
+    if (!credits) {
+        credits = new Map();
+        all.set(key, credits);
+    }
+    return credits;
+}
+
+/**
+ * Copy of a job with a failed attempt appended to its history
+ */
+function withAttempt(job: QueueJob, startTime: number, error: string, stack?: string): QueueJob {
+    const attempt: JobAttempt = {
+        attempt: job.attempts + 1,
+        startedAt: new Date(startTime),
+        finishedAt: new Date(),
+        error,
+        stack,
+    };
+    return { ...job, history: [...(job.history ?? []), attempt] };
+}
+
+/**
+ * Public view of a job and its lifecycle fields; the payload is left out
+ */
+function toJobInfo(job: QueueJob, state: JobState): JobInfo {
+    return {
+        id: job.id,
+        type: job.type,
+        tenantId: job.tenantId ?? GLOBAL_TENANT,
+        clientId: job.clientId ?? NO_CLIENT,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        createdAt: job.createdAt,
+        metadata: job.metadata,
+        ...state,
+    };
+}
+
+/**
+ * Organization a job belongs to, when its payload names one
+ */
+export function getJobOrganizationId(job: QueueJob): string | undefined {
+    return getPayloadOrganizationId(job.data);
+}
+
+function matchesDeadLetter(entry: DeadLetterJob, options: DeadLetterListOptions): boolean {
+    if (options.jobId && entry.job.id !== options.jobId) {
+        return false;
+    }
+    if (options.failedBefore && entry.failedAt >= options.failedBefore) {
+        return false;
+    }
+    if (options.organizationId && getJobOrganizationId(entry.job) !== options.organizationId) {
+        return false;
+    }
+    return true;
+}
+
 // Singleton instance
-export const queueManager = new QueueManager();
+export const queueManager = new QueueManager({
+    tenantConcurrency: settings.queueTenantConcurrency,
+    tenantQueueQuota: settings.queueTenantQuota,
+});
 
 export default queueManager;
@@ -3,9 +3,122 @@
  * Handles background memory processing tasks
  */
 
+import { EpisodicEvent, Prisma } from '@prisma/client';
+import { z } from 'zod';
 import { prismaRaw } from '../database/prisma-client';
 import { logger } from '../log';
-import type { MemoryJobData, CleanupJobData } from './worker';
+import { settings } from '../settings';
+import { MEMORY_EMBEDDING_DIM } from '../constants';
+import { padEmbeddingToDim } from '../schemas/memory';
+import { EmbeddingClient, createEmbeddingClientFromAgentConfig } from '../embeddings';
+import type { EmbeddingConfig } from '../services/agent-manager';
+import { traceManager } from '../services/trace-manager';
+import { userManager } from '../services/user-manager';
+import { agentManager } from '../services/agent-manager';
+import { blockManager } from '../services/block-manager';
+import {
+    semanticMemoryManager,
+    proceduralMemoryManager,
+    memoryForgettingService,
+    memoryRevisionService,
+    type ForgettingResult,
+} from '../services/memory/index';
+import { loadMetaAgent, ensureUserCoreMemory, ConversationProgress, MetaAgent } from '../agent/meta-agent';
+import { LLMClient } from '../llm_api/client';
+import { LLMConfig, createDefaultLLMConfig } from '../schemas/llm_config';
+import type { ActorContext } from '../services/base-manager';
+import type { MemoryJobData, CleanupJobData, BackgroundAgentJobData, ConversationJobResult } from './worker';
+import type { ProgressReporter } from './manager';
+
+// ============================================================================
+// EMBEDDING TARGETS
+// ============================================================================
+
+/** Maximum number of texts sent to the provider in one embedMany call */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Vector columns per memory table, keyed by the text field they embed.
+ * Table and column names come only from this map, never from input.
+ */
+const EMBEDDING_TARGETS = {
+    episodic: {
+        table: 'episodic_memory',
+        columns: { summary: 'summary_embedding', details: 'details_embedding' },
+    },
+    semantic: {
+        table: 'semantic_memory',
+        columns: { name: 'name_embedding', summary: 'summary_embedding', details: 'details_embedding' },
+    },
+    procedural: {
+        table: 'procedural_memory',
+        columns: { summary: 'summary_embedding', steps: 'steps_embedding' },
+    },
+    resource: {
+        table: 'resource_memory',
+        columns: { summary: 'summary_embedding' },
+    },
+    knowledge: {
+        table: 'knowledge',
+        columns: { caption: 'caption_embedding' },
+    },
+} as const;
+
+type EmbeddingTarget = keyof typeof EMBEDDING_TARGETS;
+
+// ============================================================================
+// CONSOLIDATION
+// ============================================================================
+
+/** Cosine similarity an event needs to its cluster's centroid to join it */
+const CONSOLIDATION_SIMILARITY = 0.8;
+
+/** One-off events are not consolidated; only recurring ones become knowledge */
+const MIN_CLUSTER_SIZE = 2;
+
+/** Most recent events considered in one run */
+const MAX_CONSOLIDATION_EVENTS = 200;
+
+/** Events shown to the model per cluster */
+const MAX_CLUSTER_EVENTS = 20;
+
+/** How far back the first consolidation for a user looks */
+const INITIAL_CONSOLIDATION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CONSOLIDATION_PROMPT = `These episodic events about the user are related.
+Extract only durable knowledge they support:
+- facts: stable facts about the user, people, places or things that will still be true later
+- procedures: ways the user repeatedly does something, as ordered steps
+Ignore one-off details. Cite the IDs of the events each item is based on.
+Return empty lists when nothing durable can be concluded.`;
+
+const ConsolidationSchema = z.object({
+    facts: z.array(
+        z.object({
+            name: z.string().describe('Short, unique name for the fact, e.g. "Alice\'s employer"'),
+            summary: z.string(),
+            details: z.string(),
+            eventIds: z.array(z.string()),
+        })
+    ),
+    procedures: z.array(
+        z.object({
+            entryType: z.string().describe('workflow, guide or habit'),
+            summary: z.string(),
+            steps: z.array(z.string()),
+            eventIds: z.array(z.string()),
+        })
+    ),
+});
+
+export interface ConsolidationResult {
+    eventsScanned: number;
+    clusters: number;
+    semanticCreated: number;
+    semanticUpdated: number;
+    proceduralCreated: number;
+    proceduralUpdated: number;
+}
 
 // ============================================================================
 // MEMORY PROCESSOR
@@ -16,15 +129,126 @@ class MemoryProcessor {
     private readonly prisma = prismaRaw;
 
     // ========================================================================
-    // EPISODIC MEMORY PROCESSING
+    // CONVERSATION PROCESSING
     // ========================================================================
 
     /**
-     * Process episodic memory from conversation
-     * Extracts events and experiences from messages
+     * Process conversation turns added through the memory API: the meta agent
+     * routes them to its memory sub-agents and the run is recorded on the
+     * job's queue trace. Aborting `signal` interrupts the run and fails the trace.
+     * Progress is reported as the sub-agents finish.
      */
+    async processConversation(
+        data: MemoryJobData,
+        signal?: AbortSignal,
+        reportProgress?: ProgressReporter
+    ): Promise<ConversationJobResult> {
+        const { agentId, userId, organizationId, messageIds, traceId, metadata } = data;
+
+        this.logger.debug(
+            { agentId, userId, traceId, messageCount: messageIds?.length ?? 0 },
+            'Processing conversation'
+        );
+
+        if (traceId) {
+            await traceManager.startQueueTrace(traceId);
+        }
+
+        try {
+            const messages = messageIds && messageIds.length > 0
+                ? await this.prisma.message.findMany({
+                    where: { id: { in: messageIds }, isDeleted: false },
+                    select: { id: true, role: true, text: true },
+                    orderBy: { createdAt: 'asc' },
+                })
+                : [];
+
+            const conversation = messages
+                .filter((m) => m.text)
+                .map((m) => `${m.role}: ${m.text}`)
+                .join('\n');
+
+            if (!conversation) {
+                this.logger.debug({ agentId }, 'No messages to process for conversation');
+                if (traceId) {
+                    await traceManager.completeQueueTrace(traceId, {
+                        success: true,
+                        triggeredMemoryTypes: [],
+                        memoryUpdateCounts: {},
+                    });
+                }
+                return { traceId, triggeredMemoryTypes: [], memoryUpdateCounts: {}, failedAgents: [] };
+            }
+
+            const actor = { id: (metadata?.clientId as string | undefined) ?? userId, organizationId };
+            // Users created before the meta agent was configured have no blocks yet
+            await ensureUserCoreMemory(userId, actor, { metaAgentId: agentId });
+
+            const metaAgent = await loadMetaAgent(agentId, {
+                actor,
+                userId,
+                filterTags: metadata?.filterTags as Record<string, string> | undefined,
+                useCache: metadata?.useCache as boolean | undefined,
+            });
+
+            const result = await metaAgent.processConversation(conversation, {
+                queueTraceId: traceId,
+                messageIds: messages.filter((m) => m.text).map((m) => m.id),
+                occurredAt: metadata?.occurredAt as string | undefined,
+                signal,
+                onProgress: reportProgress
+                    ? (progress) => reportProgress(toJobProgress(progress))
+                    : undefined,
+            });
+
+            const failed = result.agentResults.filter((r) => !r.success);
+
+            let errorMessage: string | null = null;
+            if (result.interruptReason) {
+                errorMessage = `Interrupted: ${result.interruptReason}`;
+            } else if (failed.length > 0) {
+                errorMessage = failed.map((r) => `${r.agentName}: ${r.error}`).join('; ');
+            }
+
+            if (traceId) {
+                await traceManager.completeQueueTrace(traceId, {
+                    success: errorMessage === null,
+                    errorMessage,
+                    metaAgentOutput: result.metaAgentOutput,
+                    triggeredMemoryTypes: result.triggeredMemoryTypes,
+                    memoryUpdateCounts: result.memoryUpdateCounts,
+                });
+            }
+
+            this.logger.info(
+                {
+                    agentId,
+                    traceId,
+                    triggeredMemoryTypes: result.triggeredMemoryTypes,
+                    memoryUpdateCounts: result.memoryUpdateCounts,
+                },
+                'Conversation processed'
+            );
+
+            return {
+                traceId,
+                triggeredMemoryTypes: result.triggeredMemoryTypes,
+                memoryUpdateCounts: result.memoryUpdateCounts,
+                failedAgents: failed.map((r) => r.agentName),
+            };
+        } catch (error) {
+            if (traceId) {
+                await traceManager.completeQueueTrace(traceId, {
+                    success: false,
+                    errorMessage: error instanceof Error ? error.message : String(error),
+                });
+            }
+            throw error;
+        }
+    }
+
     async processEpisodicMemory(data: MemoryJobData): Promise<void> {
-        const { agentId, userId, organizationId, messageIds } = data;
+        const { agentId, userId, organizationId, messageIds, metadata } = data;
 
         this.logger.debug(
             { agentId, userId, messageIds },
@@ -64,22 +288,33 @@ class MemoryProcessor {
             return;
         }
 
+        const embedding = await this.resolveEmbedding(agentId);
+
         // Create episodic memory entry
-        await this.prisma.episodicEvent.create({
+        const event = await this.prisma.episodicEvent.create({
             data: {
                 id: `ep-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                 userId,
                 organizationId,
                 agentId,
-                occurredAt: new Date(),
+                occurredAt: metadata?.occurredAt
+                    ? new Date(metadata.occurredAt as string)
+                    : new Date(),
                 actor: 'user',
                 eventType: 'conversation',
                 summary: combinedText.substring(0, 500),
                 details: JSON.stringify({ messageCount: messages.length }),
-                filterTags: {},
+                filterTags: (metadata?.filterTags as Record<string, string>) ?? {},
+                embeddingConfig: embedding?.record ?? Prisma.JsonNull,
             },
         });
 
+        await memoryRevisionService.record('episodic', null, event, 'created');
+        await this.writeEmbeddings(embedding?.client, 'episodic', event.id, {
+            summary: event.summary,
+            details: event.details,
+        });
+
         this.logger.info({ agentId, messageCount: messages.length }, 'Episodic memory created');
     }
 
@@ -106,7 +341,9 @@ class MemoryProcessor {
         // TODO: Use LLM to extract semantic facts
         // For now, store the content directly
 
-        await this.prisma.semanticMemoryItem.create({
+        const embedding = await this.resolveEmbedding(agentId);
+
+        const item = await this.prisma.semanticMemoryItem.create({
             data: {
                 id: `sem-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                 userId,
@@ -117,9 +354,17 @@ class MemoryProcessor {
                 details: '',
                 source: 'conversation',
                 filterTags: {},
+                embeddingConfig: embedding?.record ?? Prisma.JsonNull,
             },
         });
 
+        await memoryRevisionService.record('semantic', null, item, 'created');
+        await this.writeEmbeddings(embedding?.client, 'semantic', item.id, {
+            name: item.name,
+            summary: item.summary,
+            details: item.details,
+        });
+
         this.logger.info({ agentId }, 'Semantic memory created');
     }
 
@@ -146,7 +391,9 @@ class MemoryProcessor {
         // TODO: Use LLM to extract procedures and patterns
         // For now, store as a system entry
 
-        await this.prisma.proceduralMemoryItem.create({
+        const embedding = await this.resolveEmbedding(agentId);
+
+        const item = await this.prisma.proceduralMemoryItem.create({
             data: {
                 id: `proc-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                 userId,
@@ -156,9 +403,16 @@ class MemoryProcessor {
                 summary: content.substring(0, 500),
                 steps: metadata?.steps ?? [],
                 filterTags: {},
+                embeddingConfig: embedding?.record ?? Prisma.JsonNull,
             },
         });
 
+        await memoryRevisionService.record('procedural', null, item, 'created');
+        await this.writeEmbeddings(embedding?.client, 'procedural', item.id, {
+            summary: item.summary,
+            steps: JSON.stringify(item.steps),
+        });
+
         this.logger.info({ agentId }, 'Procedural memory created');
     }
 
@@ -182,7 +436,9 @@ class MemoryProcessor {
             return;
         }
 
-        await this.prisma.resourceMemoryItem.create({
+        const embedding = await this.resolveEmbedding(agentId);
+
+        const item = await this.prisma.resourceMemoryItem.create({
             data: {
                 id: `res-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                 userId,
@@ -193,9 +449,15 @@ class MemoryProcessor {
                 resourceType: (metadata?.resourceType as string) ?? 'document',
                 content: content ?? '',
                 filterTags: {},
+                embeddingConfig: embedding?.record ?? Prisma.JsonNull,
             },
         });
 
+        await memoryRevisionService.record('resource', null, item, 'created');
+        await this.writeEmbeddings(embedding?.client, 'resource', item.id, {
+            summary: item.summary,
+        });
+
         this.logger.info({ agentId }, 'Resource memory created');
     }
 
@@ -219,7 +481,9 @@ class MemoryProcessor {
             return;
         }
 
-        await this.prisma.knowledgeItem.create({
+        const embedding = await this.resolveEmbedding(agentId);
+
+        const item = await this.prisma.knowledgeItem.create({
             data: {
                 id: `know-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
                 userId,
@@ -231,67 +495,284 @@ class MemoryProcessor {
                 secretValue: '',
                 caption: content.substring(0, 500),
                 filterTags: {},
+                embeddingConfig: embedding?.record ?? Prisma.JsonNull,
             },
         });
 
+        await memoryRevisionService.record('knowledge', null, item, 'created');
+        await this.writeEmbeddings(embedding?.client, 'knowledge', item.id, {
+            caption: item.caption,
+        });
+
         this.logger.info({ agentId }, 'Knowledge item created');
     }
 
     // ========================================================================
-    // CLEANUP OPERATIONS
+    // BACKGROUND AGENTS
     // ========================================================================
 
     /**
-     * Clean up old memory items (based on creation date)
+     * Reflect on a user's memories: consolidate the episodic events recorded
+     * since the last reflection into semantic and procedural memory, then run
+     * the reflexion sub-agent on `input` when given. The reflection time is
+     * recorded on the user once both succeed.
      */
-    async cleanupExpiredMemories(data: CleanupJobData): Promise<number> {
-        const { organizationId, olderThan } = data;
+    async runReflexion(data: BackgroundAgentJobData, signal?: AbortSignal): Promise<ConsolidationResult> {
+        const { agentId, userId, organizationId, input } = data;
+        const actor = { id: userId, organizationId };
+        const startedAt = new Date();
 
-        this.logger.debug(
-            { organizationId, olderThan },
-            'Cleaning up old memories'
-        );
+        signal?.throwIfAborted();
 
-        const cutoffDate = olderThan ?? new Date(Date.now() - 90 * 24 * 60 * 60 * 1000); // 90 days
+        const metaAgent = await loadMetaAgent(agentId, { actor, userId });
+        const user = await userManager.read(userId, actor);
+        const since = user.lastSelfReflectionTime
+            ?? new Date(startedAt.getTime() - INITIAL_CONSOLIDATION_WINDOW_MS);
 
-        const where = {
-            isDeleted: false,
-            createdAt: { lte: cutoffDate },
-            ...(organizationId && { organizationId }),
+        const result = await this.consolidateEpisodicMemory(metaAgent, actor, since, signal);
+
+        if (input && metaAgent.getMemoryAgentState('reflexion_agent')) {
+            signal?.throwIfAborted();
+            const usage = await metaAgent.stepWithAgent(input, 'reflexion_agent');
+            this.logger.debug(
+                { agentId, userId, totalTokens: usage.totalTokens, stepCount: usage.stepCount },
+                'Reflexion agent step completed'
+            );
+        }
+
+        // Events written while this run was going are picked up next time
+        await userManager.updateLastSelfReflectionTime(userId, actor, startedAt);
+
+        this.logger.info({ agentId, userId, since, ...result }, 'Reflexion completed');
+
+        return result;
+    }
+
+    /**
+     * Cluster a user's episodic events recorded after `since` by embedding
+     * similarity and have the LLM distill each recurring cluster into facts
+     * and procedures. Items are upserted by name (facts) or summary
+     * (procedures) and link back to the events they came from.
+     */
+    private async consolidateEpisodicMemory(
+        metaAgent: MetaAgent,
+        actor: ActorContext,
+        since: Date,
+        signal?: AbortSignal
+    ): Promise<ConsolidationResult> {
+        const userId = metaAgent.userId;
+
+        const events = (await this.prisma.episodicEvent.findMany({
+            where: {
+                userId,
+                organizationId: actor.organizationId,
+                isDeleted: false,
+                createdAt: { gt: since },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: MAX_CONSOLIDATION_EVENTS,
+        })).reverse();
+
+        const clusters = clusterEvents(events, await this.loadEventEmbeddings(events))
+            .filter((cluster) => cluster.length >= MIN_CLUSTER_SIZE);
+
+        const result: ConsolidationResult = {
+            eventsScanned: events.length,
+            clusters: clusters.length,
+            semanticCreated: 0,
+            semanticUpdated: 0,
+            proceduralCreated: 0,
+            proceduralUpdated: 0,
         };
 
-        // Soft delete old items from each memory table
-        const results = await Promise.all([
-            this.prisma.episodicEvent.updateMany({
-                where,
-                data: { isDeleted: true },
-            }),
-            this.prisma.semanticMemoryItem.updateMany({
-                where,
-                data: { isDeleted: true },
-            }),
-            this.prisma.proceduralMemoryItem.updateMany({
-                where,
-                data: { isDeleted: true },
-            }),
-            this.prisma.resourceMemoryItem.updateMany({
-                where,
-                data: { isDeleted: true },
-            }),
-            this.prisma.knowledgeItem.updateMany({
-                where,
-                data: { isDeleted: true },
-            }),
+        if (clusters.length === 0) {
+            return result;
+        }
+
+        const reflexionAgent = metaAgent.getMemoryAgentState('reflexion_agent')?.agent;
+        const agentLlmConfig = reflexionAgent?.llmConfig as Partial<LLMConfig> | null | undefined;
+        const llm = new LLMClient(
+            agentLlmConfig?.model && agentLlmConfig.modelEndpointType
+                ? { ...createDefaultLLMConfig(agentLlmConfig.model), ...agentLlmConfig } as LLMConfig
+                : metaAgent.llmConfig
+        );
+        const system = reflexionAgent?.system ?? metaAgent.getSystemPromptForAgent('reflexion_agent');
+
+        // Consolidated items are owned by the sub-agents that normally write them
+        const semanticAgentId = metaAgent.getMemoryAgentState('semantic_memory_agent')?.agent.id
+            ?? metaAgent.agentId;
+        const proceduralAgentId = metaAgent.getMemoryAgentState('procedural_memory_agent')?.agent.id
+            ?? metaAgent.agentId;
+        const semanticEmbedding = await this.resolveEmbedding(semanticAgentId);
+        const proceduralEmbedding = await this.resolveEmbedding(proceduralAgentId);
+
+        for (const cluster of clusters) {
+            signal?.throwIfAborted();
+
+            const shown = cluster.slice(-MAX_CLUSTER_EVENTS);
+            const clusterIds = new Set(shown.map((event) => event.id));
+            const listing = shown
+                .map((event) => `[${event.id}] ${event.occurredAt.toISOString()} (${event.eventType}) ${event.summary}\n${event.details}`)
+                .join('\n\n');
+
+            const { object } = await llm.generateStructured(
+                `${CONSOLIDATION_PROMPT}\n\nEvents:\n${listing}`,
+                ConsolidationSchema,
+                { system, temperature: 0 }
+            );
+
+            // Only cite events from this cluster; fall back to all of them
+            const citedIds = (ids: string[]): string[] => {
+                const cited = ids.filter((id) => clusterIds.has(id));
+                return cited.length > 0 ? cited : Array.from(clusterIds);
+            };
+
+            for (const fact of object.facts) {
+                const eventIds = citedIds(fact.eventIds);
+                const existing = await this.prisma.semanticMemoryItem.findFirst({
+                    where: {
+                        userId,
+                        organizationId: actor.organizationId,
+                        isDeleted: false,
+                        name: { equals: fact.name, mode: 'insensitive' },
+                    },
+                });
+
+                const item = existing
+                    ? await semanticMemoryManager.update(existing.id, {
+                        summary: fact.summary,
+                        details: fact.details,
+                        sourceEventIds: mergeIds(existing.sourceEventIds, eventIds),
+                    }, actor)
+                    : await semanticMemoryManager.create({
+                        id: `sem-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+                        organizationId: actor.organizationId,
+                        userId,
+                        agentId: semanticAgentId,
+                        name: fact.name,
+                        summary: fact.summary,
+                        details: fact.details,
+                        source: 'consolidation',
+                        sourceEventIds: eventIds,
+                        embeddingConfig: semanticEmbedding?.record,
+                    }, actor);
+                result[existing ? 'semanticUpdated' : 'semanticCreated']++;
+
+                await this.writeEmbeddings(semanticEmbedding?.client, 'semantic', item.id, {
+                    name: existing ? undefined : item.name,
+                    summary: item.summary,
+                    details: item.details,
+                });
+            }
+
+            for (const procedure of object.procedures) {
+                const eventIds = citedIds(procedure.eventIds);
+                const existing = await this.prisma.proceduralMemoryItem.findFirst({
+                    where: {
+                        userId,
+                        organizationId: actor.organizationId,
+                        isDeleted: false,
+                        summary: { equals: procedure.summary, mode: 'insensitive' },
+                    },
+                });
+
+                const item = existing
+                    ? await proceduralMemoryManager.update(existing.id, {
+                        steps: procedure.steps,
+                        sourceEventIds: mergeIds(existing.sourceEventIds, eventIds),
+                    }, actor)
+                    : await proceduralMemoryManager.create({
+                        id: `proc-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+                        organizationId: actor.organizationId,
+                        userId,
+                        agentId: proceduralAgentId,
+                        entryType: procedure.entryType,
+                        summary: procedure.summary,
+                        steps: procedure.steps,
+                        sourceEventIds: eventIds,
+                        embeddingConfig: proceduralEmbedding?.record,
+                    }, actor);
+                result[existing ? 'proceduralUpdated' : 'proceduralCreated']++;
+
+                await this.writeEmbeddings(proceduralEmbedding?.client, 'procedural', item.id, {
+                    summary: existing ? undefined : item.summary,
+                    steps: procedure.steps.join('\n'),
+                });
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Summary embeddings of the given events, for those that have one
+     */
+    private async loadEventEmbeddings(events: EpisodicEvent[]): Promise<Map<string, number[]>> {
+        if (events.length === 0) {
+            return new Map();
+        }
+
+        const rows = await this.prisma.$queryRaw<{ id: string; embedding: string }[]>`
+            SELECT id, summary_embedding::text AS embedding
+            FROM episodic_memory
+            WHERE id IN (${Prisma.join(events.map((event) => event.id))})
+              AND summary_embedding IS NOT NULL
+        `;
+
+        return new Map(rows.map((row) => [row.id, JSON.parse(row.embedding) as number[]]));
+    }
+
+    /**
+     * Read a user's record, meta agent, sub-agents and memory blocks through
+     * the managers so they are cached before the user's next request.
+     * Returns the number of records loaded.
+     */
+    async warmCache(data: BackgroundAgentJobData): Promise<number> {
+        const { agentId, userId, organizationId } = data;
+        const actor = { id: userId, organizationId };
+
+        if (!settings.redisEnabled) {
+            return 0;
+        }
+
+        await userManager.read(userId, actor);
+        await agentManager.read(agentId, actor);
+        const children = await agentManager.getChildren(agentId, actor);
+        const blocks = await blockManager.getUserBlocks(userId, actor);
+
+        await Promise.all([
+            ...children.map((child) => agentManager.read(child.id, actor)),
+            ...blocks.map((block) => blockManager.read(block.id, actor)),
         ]);
 
-        const totalCount = results.reduce((sum, r) => sum + r.count, 0);
+        const count = 2 + children.length + blocks.length;
+        this.logger.debug({ agentId, userId, count }, 'Cache warmed');
 
-        this.logger.info(
-            { totalCount, organizationId },
-            'Cleaned up old memories'
+        return count;
+    }
+
+    // ========================================================================
+    // CLEANUP OPERATIONS
+    // ========================================================================
+
+    /**
+     * Forget low-value memory items according to the forgetting policies
+     */
+    async cleanupExpiredMemories(data: CleanupJobData): Promise<ForgettingResult> {
+        const { organizationId, olderThan, limit, dryRun } = data;
+
+        this.logger.debug(
+            { organizationId, olderThan, dryRun },
+            'Applying memory forgetting policies'
         );
 
-        return totalCount;
+        return memoryForgettingService.applyPolicies({
+            organizationId,
+            // Job payloads are JSON, so dates arrive as strings
+            olderThan: olderThan ? new Date(olderThan) : undefined,
+            limit,
+            dryRun,
+        });
     }
 
     /**
@@ -337,14 +818,208 @@ class MemoryProcessor {
     // ========================================================================
 
     /**
-     * Generate embeddings for a memory item
-     * TODO: Implement actual embedding generation
+     * Resolve the embedding client for an agent from its stored embeddingConfig.
+     * Returns null when embeddings are disabled or the agent has no config.
+     */
+    async resolveEmbedding(
+        agentId: string
+    ): Promise<{ client: EmbeddingClient; record: Prisma.InputJsonValue } | null> {
+        if (!settings.buildEmbeddingsForMemory) {
+            return null;
+        }
+
+        const agent = await this.prisma.agent.findUnique({
+            where: { id: agentId },
+            select: { embeddingConfig: true },
+        });
+
+        const config = agent?.embeddingConfig as EmbeddingConfig | null | undefined;
+        if (!config?.model || !config.modelEndpointType) {
+            this.logger.debug({ agentId }, 'Agent has no embedding config, skipping embeddings');
+            return null;
+        }
+
+        // Stored on each memory item; never persist the API key there
+        const { apiKey: _apiKey, ...record } = config;
+
+        return {
+            client: createEmbeddingClientFromAgentConfig(config),
+            record: record as Prisma.InputJsonValue,
+        };
+    }
+
+    /**
+     * Embed texts in batches with embedMany and pad each vector to the column size
      */
-    async generateEmbedding(_text: string): Promise<number[]> {
-        // Placeholder - should use actual embedding model
-        // For now, return a dummy embedding
-        return new Array(1536).fill(0).map(() => Math.random() - 0.5);
+    async generateEmbeddings(client: EmbeddingClient, texts: string[]): Promise<number[][]> {
+        const embeddings: number[][] = [];
+
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = texts.slice(i, i + EMBEDDING_BATCH_SIZE);
+            const result = await client.embedMany(batch);
+
+            for (const embedding of result.embeddings) {
+                if (embedding.length > MEMORY_EMBEDDING_DIM) {
+                    throw new Error(
+                        `Embedding dimension ${embedding.length} exceeds column size ${MEMORY_EMBEDDING_DIM}`
+                    );
+                }
+                embeddings.push(padEmbeddingToDim(embedding, MEMORY_EMBEDDING_DIM)!);
+            }
+        }
+
+        return embeddings;
     }
+
+    /**
+     * Embed the given text fields and write them to the item's vector columns.
+     * Failures are logged so the memory item itself is kept.
+     */
+    async writeEmbeddings<T extends EmbeddingTarget>(
+        client: EmbeddingClient | undefined,
+        target: T,
+        id: string,
+        fields: Partial<Record<keyof (typeof EMBEDDING_TARGETS)[T]['columns'], string>>
+    ): Promise<void> {
+        if (!client) {
+            return;
+        }
+
+        const { table, columns } = EMBEDDING_TARGETS[target];
+        const entries = (Object.entries(fields) as [keyof typeof columns, string | undefined][])
+            .filter((entry): entry is [keyof typeof columns, string] => Boolean(entry[1]?.trim()));
+
+        if (entries.length === 0) {
+            return;
+        }
+
+        try {
+            const embeddings = await this.generateEmbeddings(
+                client,
+                entries.map(([, text]) => text)
+            );
+
+            const assignments = entries.map(([field], i) =>
+                Prisma.sql`${Prisma.raw(columns[field] as string)} = ${toVectorLiteral(embeddings[i])}::vector`
+            );
+
+            await this.prisma.$executeRaw`
+                UPDATE ${Prisma.raw(table)}
+                SET ${Prisma.join(assignments, ', ')}
+                WHERE id = ${id}
+            `;
+
+            this.logger.debug({ target, id, fields: entries.length }, 'Memory embeddings written');
+        } catch (error) {
+            this.logger.warn(
+                { target, id, error: error instanceof Error ? error.message : String(error) },
+                'Failed to generate memory embeddings'
+            );
+        }
+    }
+
+    /**
+     * Re-embed every text field of an existing item with its agent's model,
+     * e.g. after a revert replaced the item's content
+     */
+    async refreshEmbeddings(target: EmbeddingTarget, item: { id: string; agentId: string | null }): Promise<void> {
+        if (!item.agentId) {
+            return;
+        }
+
+        const embedding = await this.resolveEmbedding(item.agentId);
+        const record = item as unknown as Record<string, unknown>;
+        const fields: Record<string, string> = {};
+        for (const field of Object.keys(EMBEDDING_TARGETS[target].columns)) {
+            const value = record[field];
+            if (value !== null && value !== undefined) {
+                fields[field] = typeof value === 'string' ? value : JSON.stringify(value);
+            }
+        }
+
+        await this.writeEmbeddings(embedding?.client, target, item.id, fields);
+    }
+}
+
+/**
+ * Greedy clustering in chronological order: each event joins the cluster
+ * whose centroid it is most similar to, above CONSOLIDATION_SIMILARITY, or
+ * starts a new one. Events without an embedding are grouped by event type.
+ */
+function clusterEvents(events: EpisodicEvent[], embeddings: Map<string, number[]>): EpisodicEvent[][] {
+    const clusters: Array<{ events: EpisodicEvent[]; centroid: number[] }> = [];
+    const byType = new Map<string, EpisodicEvent[]>();
+
+    for (const event of events) {
+        const embedding = embeddings.get(event.id);
+        if (!embedding) {
+            const type = event.eventType.trim().toLowerCase();
+            byType.set(type, [...(byType.get(type) ?? []), event]);
+            continue;
+        }
+
+        let best: (typeof clusters)[number] | undefined;
+        let bestSimilarity = CONSOLIDATION_SIMILARITY;
+        for (const cluster of clusters) {
+            const similarity = cosineSimilarity(embedding, cluster.centroid);
+            if (similarity >= bestSimilarity) {
+                best = cluster;
+                bestSimilarity = similarity;
+            }
+        }
+
+        if (!best) {
+            clusters.push({ events: [event], centroid: [...embedding] });
+            continue;
+        }
+
+        // Running mean keeps the centroid in step with its members
+        const size = best.events.length;
+        best.centroid = best.centroid.map((value, i) => (value * size + embedding[i]) / (size + 1));
+        best.events.push(event);
+    }
+
+    return [...clusters.map((cluster) => cluster.events), ...byType.values()];
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function mergeIds(existing: string[], added: string[]): string[] {
+    return Array.from(new Set([...existing, ...added]));
+}
+
+/**
+ * Format a vector as a pgvector literal
+ */
+function toVectorLiteral(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+}
+
+/**
+ * Routing counts as the first 10% of a conversation job; the memory
+ * sub-agents share the rest evenly
+ */
+function toJobProgress(progress: ConversationProgress): Parameters<ProgressReporter>[0] {
+    if (progress.stage === 'routing') {
+        return { percent: 0, currentStep: 'meta_memory_agent', message: 'Routing conversation' };
+    }
+
+    const share = progress.totalAgents > 0 ? progress.completedAgents / progress.totalAgents : 1;
+    return {
+        percent: 10 + 90 * share,
+        currentStep: progress.runningAgents.length > 0 ? progress.runningAgents.join(', ') : undefined,
+        message: `${progress.completedAgents} of ${progress.totalAgents} memory agents finished`,
+    };
 }
 
 // Singleton instance
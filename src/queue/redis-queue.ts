@@ -0,0 +1,644 @@
+/**
+ * Redis Queue
+ * Durable job queue shared by every server instance. Jobs are claimed
+ * atomically, leased for a visibility timeout that running workers extend
+ * with heartbeats, and put back with backoff when a lease expires. Jobs that
+ * run out of attempts are kept in a dead-letter set until replayed or purged.
+ * Pending jobs are kept per tenant and client (a lane) so the manager can
+ * schedule tenants, and the clients within each, fairly.
+ */
+
+import type { RedisMemoryClient } from '../database/redis-client';
+import { GLOBAL_TENANT, NO_CLIENT, addClientStats } from './tenant';
+import type {
+    BackoffPolicy,
+    ClientStats,
+    DeadLetterJob,
+    HeartbeatResult,
+    JobAttempt,
+    JobInfo,
+    JobProgress,
+    JobQueue,
+    JobStatus,
+    JobResult,
+    QueueJob,
+    QueueStats,
+    TenantDepth,
+    TenantLoad,
+    TenantStats,
+} from './manager';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RedisQueueOptions {
+    /** Lease length for a claimed job in ms */
+    visibilityTimeout: number;
+    /** How long completed and cancelled jobs stay readable, in ms */
+    finishedJobTtl: number;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+const KEY_PREFIX = 'queue:';
+const JOB_KEY_PREFIX = `${KEY_PREFIX}job:`;
+
+const jobKey = (id: string): string => `${JOB_KEY_PREFIX}${id}`;
+const cancelKey = (id: string): string => `${KEY_PREFIX}cancel:${id}`;
+
+/**
+ * A tenant's client as one key segment. Pending sets, running counts and
+ * outcome counters are kept per lane and summed per tenant when read.
+ */
+const LANE_SEPARATOR = '|';
+const laneId = (tenantId: string, clientId: string): string => `${tenantId}${LANE_SEPARATOR}${clientId}`;
+const GLOBAL_LANE = laneId(GLOBAL_TENANT, NO_CLIENT);
+
+function parseLane(lane: string): { tenantId: string; clientId: string } {
+    const separator = lane.indexOf(LANE_SEPARATOR);
+    return separator === -1
+        ? { tenantId: lane, clientId: NO_CLIENT }
+        : { tenantId: lane.slice(0, separator), clientId: lane.slice(separator + 1) };
+}
+
+/** How many of the earliest ready jobs a claim compares priorities over */
+const CLAIM_WINDOW = 50;
+
+/** Expired leases recovered per poll */
+const RECOVER_BATCH = 100;
+
+// ============================================================================
+// SCRIPTS
+// ============================================================================
+
+/**
+ * Claim a lane's highest-priority ready job (oldest first within a
+ * priority), move it to the processing set with a lease deadline and return
+ * its hash.
+ * KEYS: lane pending, processing, running, lanes. ARGV: now, deadline,
+ * workerId, job key prefix, window, lane.
+ */
+const CLAIM_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[5]))
+if #ids == 0 then return nil end
+local best, bestPriority = nil, nil
+for _, id in ipairs(ids) do
+    local priority = tonumber(redis.call('HGET', ARGV[4] .. id, 'priority') or '0')
+    if best == nil or priority > bestPriority then
+        best = id
+        bestPriority = priority
+    end
+end
+redis.call('ZREM', KEYS[1], best)
+if redis.call('ZCARD', KEYS[1]) == 0 then
+    redis.call('SREM', KEYS[4], ARGV[6])
+end
+redis.call('ZADD', KEYS[2], ARGV[2], best)
+redis.call('HINCRBY', KEYS[3], ARGV[6], 1)
+local key = ARGV[4] .. best
+redis.call('HSET', key, 'status', 'processing', 'workerId', ARGV[3], 'claimedAt', ARGV[1])
+redis.call('HDEL', key, 'progress')
+return redis.call('HMGET', key, 'job', 'attempts', 'history')
+`;
+
+/**
+ * Release a job's lease if it holds one and record its final status.
+ * Failed jobs move to the dead-letter set and keep their hash; completed and
+ * cancelled ones expire.
+ * KEYS: processing, job, cancel, stats, running, dead. ARGV: id, status, now,
+ * ttl, then field/value pairs for the job hash.
+ */
+const FINISH_SCRIPT = `
+local lane = redis.call('HGET', KEYS[2], 'lane') or '${GLOBAL_LANE}'
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+    redis.call('HINCRBY', KEYS[5], lane, -1)
+end
+for i = 5, #ARGV, 2 do
+    redis.call('HSET', KEYS[2], ARGV[i], ARGV[i + 1])
+end
+redis.call('HSET', KEYS[2], 'status', ARGV[2], 'finishedAt', ARGV[3])
+redis.call('DEL', KEYS[3])
+redis.call('HINCRBY', KEYS[4], ARGV[2], 1)
+redis.call('HINCRBY', KEYS[4], ARGV[2] .. ':' .. lane, 1)
+if ARGV[2] == 'completed' then
+    redis.call('HDEL', KEYS[2], 'progress')
+end
+if ARGV[2] == 'failed' then
+    redis.call('PERSIST', KEYS[2])
+    redis.call('ZADD', KEYS[6], ARGV[3], ARGV[1])
+else
+    redis.call('PEXPIRE', KEYS[2], ARGV[4])
+end
+`;
+
+/**
+ * Move a running job back to its lane's pending set for another attempt.
+ * KEYS: processing, job, running, lanes. ARGV: id, pending key prefix,
+ * available at, attempts, history, last error.
+ */
+const REQUEUE_SCRIPT = `
+local lane = redis.call('HGET', KEYS[2], 'lane') or '${GLOBAL_LANE}'
+if redis.call('ZREM', KEYS[1], ARGV[1]) == 1 then
+    redis.call('HINCRBY', KEYS[3], lane, -1)
+end
+redis.call('HSET', KEYS[2], 'attempts', ARGV[4], 'status', 'pending', 'history', ARGV[5], 'error', ARGV[6])
+redis.call('HDEL', KEYS[2], 'progress')
+redis.call('ZADD', ARGV[2] .. lane, ARGV[3], ARGV[1])
+redis.call('SADD', KEYS[4], lane)
+`;
+
+/**
+ * Return jobs whose lease expired to their lane's pending set with
+ * backoff, or move them to the dead-letter set when they are out of
+ * attempts. The expiry is recorded in the job's attempt history.
+ * KEYS: processing, dead, stats, running, lanes. ARGV: now, job key prefix,
+ * pending key prefix, batch size, backoff strategy, base delay, max delay.
+ */
+const RECOVER_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[4]))
+local now = tonumber(ARGV[1])
+local reason = 'Visibility timeout expired'
+for _, id in ipairs(ids) do
+    redis.call('ZREM', KEYS[1], id)
+    local key = ARGV[2] .. id
+    if redis.call('EXISTS', key) == 1 then
+        local lane = redis.call('HGET', key, 'lane') or '${GLOBAL_LANE}'
+        redis.call('HINCRBY', KEYS[4], lane, -1)
+        local attempts = tonumber(redis.call('HGET', key, 'attempts') or '0')
+        local maxAttempts = tonumber(redis.call('HGET', key, 'maxAttempts') or '1')
+        local claimedAt = tonumber(redis.call('HGET', key, 'claimedAt') or ARGV[1])
+        local entry = cjson.encode({ attempt = attempts + 1, startedAt = claimedAt, finishedAt = now, error = reason })
+        local history = redis.call('HGET', key, 'history') or '[]'
+        if history == '[]' then
+            history = '[' .. entry .. ']'
+        else
+            history = string.sub(history, 1, -2) .. ',' .. entry .. ']'
+        end
+        if attempts + 1 < maxAttempts then
+            local delay = tonumber(ARGV[6])
+            if ARGV[5] == 'exponential' then
+                delay = delay * (2 ^ attempts)
+            elseif ARGV[5] == 'linear' then
+                delay = delay * (attempts + 1)
+            end
+            delay = math.min(delay, tonumber(ARGV[7]))
+            redis.call('HSET', key, 'attempts', attempts + 1, 'status', 'pending', 'error', reason, 'history', history)
+            redis.call('HDEL', key, 'progress')
+            redis.call('ZADD', ARGV[3] .. lane, now + delay, id)
+            redis.call('SADD', KEYS[5], lane)
+        else
+            redis.call('HSET', key, 'status', 'failed', 'error', reason, 'history', history, 'failedAt', now, 'finishedAt', now)
+            redis.call('ZADD', KEYS[2], now, id)
+            redis.call('HINCRBY', KEYS[3], 'failed', 1)
+            redis.call('HINCRBY', KEYS[3], 'failed:' .. lane, 1)
+        end
+    end
+end
+return #ids
+`;
+
+/**
+ * Extend a lease only while the job is still claimed by this worker, and
+ * report any pending cancel request.
+ * KEYS: processing, job, cancel. ARGV: deadline, workerId, job id.
+ */
+const HEARTBEAT_SCRIPT = `
+local score = redis.call('ZSCORE', KEYS[1], ARGV[3])
+if not score or redis.call('HGET', KEYS[2], 'workerId') ~= ARGV[2] then
+    return {0, false}
+end
+redis.call('ZADD', KEYS[1], ARGV[1], ARGV[3])
+return {1, redis.call('GET', KEYS[3])}
+`;
+
+/**
+ * Store progress only while the job is running, so a late report cannot
+ * outlive the attempt it belongs to.
+ * KEYS: job. ARGV: progress JSON.
+ */
+const PROGRESS_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'status') == 'processing' then
+    redis.call('HSET', KEYS[1], 'progress', ARGV[1])
+end
+`;
+
+/** Hash statuses as reported to clients */
+const JOB_STATUSES: Record<string, JobStatus> = {
+    pending: 'queued',
+    processing: 'running',
+    completed: 'completed',
+    failed: 'failed',
+    cancelled: 'cancelled',
+};
+
+// ============================================================================
+// REDIS QUEUE
+// ============================================================================
+
+export class RedisQueue implements JobQueue {
+    private readonly pendingPrefix: string;
+    private readonly lanesKey: string;
+    private readonly processingKey: string;
+    private readonly runningKey: string;
+    private readonly deadKey: string;
+    private readonly statsKey: string;
+
+    constructor(
+        private readonly redis: RedisMemoryClient,
+        readonly type: string,
+        private readonly options: RedisQueueOptions
+    ) {
+        this.pendingPrefix = `${KEY_PREFIX}${type}:pending:`;
+        this.lanesKey = `${KEY_PREFIX}${type}:lanes`;
+        this.processingKey = `${KEY_PREFIX}${type}:processing`;
+        this.runningKey = `${KEY_PREFIX}${type}:running`;
+        this.deadKey = `${KEY_PREFIX}${type}:dead`;
+        this.statsKey = `${KEY_PREFIX}${type}:stats`;
+    }
+
+    async add(job: QueueJob): Promise<void> {
+        const { attempts, history, ...rest } = job;
+        const tenantId = job.tenantId ?? GLOBAL_TENANT;
+        const clientId = job.clientId ?? NO_CLIENT;
+        const lane = laneId(tenantId, clientId);
+        const availableAt = job.processAfter?.getTime() ?? Date.now();
+
+        // Replayed jobs reuse their ID, so start from a clean hash
+        await this.redis.client
+            .multi()
+            .del(jobKey(job.id))
+            .hset(jobKey(job.id), {
+                job: JSON.stringify(rest),
+                type: this.type,
+                tenant: tenantId,
+                client: clientId,
+                lane,
+                attempts,
+                history: JSON.stringify(history ?? []),
+                maxAttempts: job.maxAttempts,
+                priority: job.priority,
+                status: 'pending',
+            })
+            .zadd(this.pendingPrefix + lane, availableAt, job.id)
+            .sadd(this.lanesKey, lane)
+            .exec();
+    }
+
+    async claim(workerId: string, tenantId: string, clientId: string): Promise<QueueJob | null> {
+        const lane = laneId(tenantId, clientId);
+        const now = Date.now();
+        const claimed = (await this.redis.client.eval(
+            CLAIM_SCRIPT,
+            4,
+            this.pendingPrefix + lane,
+            this.processingKey,
+            this.runningKey,
+            this.lanesKey,
+            now,
+            now + this.options.visibilityTimeout,
+            workerId,
+            JOB_KEY_PREFIX,
+            CLAIM_WINDOW,
+            lane
+        )) as [string | null, string | null, string | null] | null;
+
+        if (!claimed || !claimed[0]) {
+            return null;
+        }
+
+        return deserializeJob(claimed[0], Number(claimed[1] ?? 0), claimed[2]);
+    }
+
+    async markComplete(id: string, result: JobResult): Promise<void> {
+        // Errors from earlier attempts no longer apply
+        await this.finish(id, 'completed', { result: JSON.stringify(result), error: '' });
+    }
+
+    async markFailed(job: QueueJob, error: string, stack?: string): Promise<void> {
+        await this.finish(job.id, 'failed', {
+            error,
+            stack: stack ?? '',
+            history: JSON.stringify(job.history ?? []),
+        });
+    }
+
+    async markCancelled(id: string, reason: string): Promise<void> {
+        await this.finish(id, 'cancelled', { error: reason });
+    }
+
+    async requeueForRetry(job: QueueJob, delayMs: number): Promise<void> {
+        await this.redis.client.eval(
+            REQUEUE_SCRIPT,
+            4,
+            this.processingKey,
+            jobKey(job.id),
+            this.runningKey,
+            this.lanesKey,
+            job.id,
+            this.pendingPrefix,
+            Date.now() + delayMs,
+            job.attempts + 1,
+            JSON.stringify(job.history ?? []),
+            job.history?.[job.history.length - 1]?.error ?? ''
+        );
+    }
+
+    async cancelPending(id: string, reason: string): Promise<boolean> {
+        const lane = (await this.redis.client.hget(jobKey(id), 'lane')) ?? GLOBAL_LANE;
+        const removed = await this.redis.client.zrem(this.pendingPrefix + lane, id);
+        if (removed === 0) {
+            return false;
+        }
+        await this.finish(id, 'cancelled', { error: reason });
+        return true;
+    }
+
+    async requestCancel(id: string, reason: string): Promise<boolean> {
+        const score = await this.redis.client.zscore(this.processingKey, id);
+        if (score === null) {
+            return false;
+        }
+        // The worker holding the lease sees this on its next heartbeat
+        await this.redis.client.set(cancelKey(id), reason, 'PX', this.options.finishedJobTtl);
+        return true;
+    }
+
+    async heartbeat(id: string, workerId: string): Promise<HeartbeatResult> {
+        const [leased, cancelReason] = (await this.redis.client.eval(
+            HEARTBEAT_SCRIPT,
+            3,
+            this.processingKey,
+            jobKey(id),
+            cancelKey(id),
+            Date.now() + this.options.visibilityTimeout,
+            workerId,
+            id
+        )) as [number, string | null];
+
+        return {
+            lost: leased !== 1,
+            cancelReason: cancelReason ?? undefined,
+        };
+    }
+
+    async recoverExpired(backoff: BackoffPolicy): Promise<number> {
+        return (await this.redis.client.eval(
+            RECOVER_SCRIPT,
+            5,
+            this.processingKey,
+            this.deadKey,
+            this.statsKey,
+            this.runningKey,
+            this.lanesKey,
+            Date.now(),
+            JOB_KEY_PREFIX,
+            this.pendingPrefix,
+            RECOVER_BATCH,
+            backoff.strategy,
+            backoff.delay,
+            backoff.maxDelay
+        )) as number;
+    }
+
+    async getJob(id: string): Promise<JobInfo | null> {
+        const hash = await this.redis.client.hgetall(jobKey(id));
+        if (!hash.job) {
+            return null;
+        }
+
+        const job = deserializeJob(hash.job, Number(hash.attempts ?? 0), hash.history);
+        const status = JOB_STATUSES[hash.status] ?? 'queued';
+        const finishedAt = hash.finishedAt ?? hash.failedAt;
+
+        return {
+            id: job.id,
+            type: job.type,
+            status,
+            tenantId: hash.tenant ?? GLOBAL_TENANT,
+            clientId: hash.client ?? NO_CLIENT,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            createdAt: job.createdAt,
+            startedAt: hash.claimedAt ? new Date(Number(hash.claimedAt)) : undefined,
+            finishedAt: status !== 'queued' && status !== 'running' && finishedAt
+                ? new Date(Number(finishedAt))
+                : undefined,
+            progress: hash.progress ? deserializeProgress(hash.progress) : undefined,
+            result: hash.result ? (JSON.parse(hash.result) as JobResult).result : undefined,
+            error: hash.error || undefined,
+            metadata: job.metadata,
+        };
+    }
+
+    async setProgress(id: string, progress: JobProgress): Promise<void> {
+        await this.redis.client.eval(PROGRESS_SCRIPT, 1, jobKey(id), JSON.stringify(progress));
+    }
+
+    async getTenantDepth(tenantId: string): Promise<TenantDepth> {
+        const depth = (await this.getTenantDepths())[tenantId];
+        return { pending: depth?.pending ?? 0, processing: depth?.processing ?? 0 };
+    }
+
+    async getTenantDepths(): Promise<Record<string, TenantLoad>> {
+        const depths: Record<string, TenantLoad> = {};
+        for (const [lane, depth] of Object.entries(await this.getLaneDepths())) {
+            const { tenantId, clientId } = parseLane(lane);
+            const load = (depths[tenantId] ??= { pending: 0, processing: 0, clients: {} });
+            load.pending += depth.pending;
+            load.processing += depth.processing;
+            load.clients[clientId] = depth;
+        }
+
+        return depths;
+    }
+
+    async listDeadLetters(): Promise<DeadLetterJob[]> {
+        const ids = await this.redis.client.zrevrange(this.deadKey, 0, -1);
+        const entries = await Promise.all(ids.map((id) => this.getDeadLetter(id)));
+        return entries.filter((entry): entry is DeadLetterJob => entry !== null);
+    }
+
+    async getDeadLetter(id: string): Promise<DeadLetterJob | null> {
+        const score = await this.redis.client.zscore(this.deadKey, id);
+        if (score === null) {
+            return null;
+        }
+
+        const hash = await this.redis.client.hgetall(jobKey(id));
+        if (!hash.job) {
+            return null;
+        }
+
+        return {
+            job: deserializeJob(hash.job, Number(hash.attempts ?? 0), hash.history),
+            error: hash.error ?? 'Unknown error',
+            stack: hash.stack || undefined,
+            failedAt: new Date(Number(score)),
+        };
+    }
+
+    async removeDeadLetter(id: string): Promise<DeadLetterJob | null> {
+        const entry = await this.getDeadLetter(id);
+        if (!entry) {
+            return null;
+        }
+
+        const results = await this.redis.client
+            .multi()
+            .zrem(this.deadKey, id)
+            .del(jobKey(id))
+            .exec();
+
+        // Another process replayed or purged it first
+        return results?.[0]?.[1] === 1 ? entry : null;
+    }
+
+    async getStats(): Promise<QueueStats> {
+        const [depths, processing, deadLettered, counters] = await Promise.all([
+            this.getLaneDepths(),
+            this.redis.client.zcard(this.processingKey),
+            this.redis.client.zcard(this.deadKey),
+            this.redis.client.hgetall(this.statsKey),
+        ]);
+
+        const lanes: Record<string, ClientStats> = {};
+        const laneStats = (lane: string): ClientStats =>
+            (lanes[lane] ??= { pending: 0, processing: 0, completed: 0, failed: 0, cancelled: 0 });
+
+        for (const [lane, depth] of Object.entries(depths)) {
+            Object.assign(laneStats(lane), depth);
+        }
+        for (const [field, value] of Object.entries(counters)) {
+            const separator = field.indexOf(':');
+            if (separator === -1) {
+                continue;
+            }
+            const status = field.slice(0, separator) as 'completed' | 'failed' | 'cancelled';
+            laneStats(field.slice(separator + 1))[status] = Number(value);
+        }
+
+        const tenants: Record<string, TenantStats> = {};
+        for (const [lane, stats] of Object.entries(lanes)) {
+            const { tenantId, clientId } = parseLane(lane);
+            addClientStats(tenants, tenantId, clientId, stats);
+        }
+
+        return {
+            pending: Object.values(depths).reduce((sum, depth) => sum + depth.pending, 0),
+            processing,
+            completed: Number(counters.completed ?? 0),
+            failed: Number(counters.failed ?? 0),
+            cancelled: Number(counters.cancelled ?? 0),
+            deadLettered,
+            tenants,
+        };
+    }
+
+    /**
+     * Queued and running jobs of every lane that has any
+     */
+    private async getLaneDepths(): Promise<Record<string, TenantDepth>> {
+        const [queued, running] = await Promise.all([
+            this.redis.client.smembers(this.lanesKey),
+            this.redis.client.hgetall(this.runningKey),
+        ]);
+
+        const lanes = Array.from(new Set([...queued, ...Object.keys(running)]));
+        const pipeline = this.redis.client.pipeline();
+        for (const lane of lanes) {
+            pipeline.zcard(this.pendingPrefix + lane);
+        }
+        const counts = (await pipeline.exec()) ?? [];
+
+        const depths: Record<string, TenantDepth> = {};
+        lanes.forEach((lane, i) => {
+            const pending = Number(counts[i]?.[1] ?? 0);
+            const processing = Math.max(0, Number(running[lane] ?? 0));
+            if (pending > 0 || processing > 0) {
+                depths[lane] = { pending, processing };
+            }
+        });
+
+        return depths;
+    }
+
+    /**
+     * Release the lease and record the final status
+     */
+    private async finish(
+        id: string,
+        status: 'completed' | 'failed' | 'cancelled',
+        fields: Record<string, string>
+    ): Promise<void> {
+        await this.redis.client.eval(
+            FINISH_SCRIPT,
+            6,
+            this.processingKey,
+            jobKey(id),
+            cancelKey(id),
+            this.statsKey,
+            this.runningKey,
+            this.deadKey,
+            id,
+            status,
+            Date.now(),
+            this.options.finishedJobTtl,
+            ...Object.entries(fields).flat()
+        );
+    }
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+function deserializeJob(raw: string, attempts: number, rawHistory?: string | null): QueueJob {
+    const parsed = JSON.parse(raw) as Omit<QueueJob, 'attempts' | 'createdAt' | 'processAfter' | 'history'> & {
+        createdAt: string;
+        processAfter?: string;
+    };
+
+    return {
+        ...parsed,
+        attempts,
+        createdAt: new Date(parsed.createdAt),
+        processAfter: parsed.processAfter ? new Date(parsed.processAfter) : undefined,
+        history: deserializeHistory(rawHistory),
+    };
+}
+
+function deserializeProgress(raw: string): JobProgress {
+    const parsed = JSON.parse(raw) as Omit<JobProgress, 'updatedAt'> & { updatedAt: string };
+    return { ...parsed, updatedAt: new Date(parsed.updatedAt) };
+}
+
+/**
+ * Attempt history is stored as JSON; the recovery script writes epoch
+ * milliseconds rather than ISO strings
+ */
+function deserializeHistory(raw?: string | null): JobAttempt[] {
+    if (!raw) {
+        return [];
+    }
+
+    const parsed = JSON.parse(raw) as Array<
+        Omit<JobAttempt, 'startedAt' | 'finishedAt'> & {
+            startedAt: string | number;
+            finishedAt: string | number;
+        }
+    >;
+
+    // cjson encodes an empty table as an object
+    if (!Array.isArray(parsed)) {
+        return [];
+    }
+
+    return parsed.map((entry) => ({
+        ...entry,
+        startedAt: new Date(entry.startedAt),
+        finishedAt: new Date(entry.finishedAt),
+    }));
+}
@@ -0,0 +1,341 @@
+/**
+ * Job Scheduler
+ * Enqueues recurring jobs from cron schedules persisted in the database.
+ * When several workers run, they elect a leader through a lease row and only
+ * the leader enqueues; each due run is also claimed atomically, so a run is
+ * never enqueued twice even while leadership changes hands.
+ */
+
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { Prisma, JobSchedule } from '@prisma/client';
+import { prismaRaw } from '../database/prisma-client';
+import { logger } from '../log';
+import { queueManager } from './manager';
+import { getNextCronRun, parseCron } from './cron';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Who a scheduled run enqueues jobs for: a single job, or one job per user
+ * with memory activity in the configured window (with their organizationId,
+ * userId and meta agentId merged into the payload)
+ */
+export type ScheduleScope = 'global' | 'active_users';
+
+export interface ScheduleDefinition {
+    /** Unique schedule name */
+    name: string;
+    /** Five-field cron expression, evaluated in UTC */
+    cron: string;
+    jobType: string;
+    payload?: Record<string, unknown>;
+    scope?: ScheduleScope;
+    enabled?: boolean;
+}
+
+export interface SchedulerConfig {
+    /** How often to check for due schedules in ms */
+    tickInterval: number;
+    /** How long a leader holds the lease without renewing it in ms */
+    leaseTtl: number;
+    /** How far back a user's last memory update counts as active in ms */
+    activeUserWindow: number;
+}
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+    tickInterval: 15000,
+    leaseTtl: 60000,
+    activeUserWindow: 24 * 60 * 60 * 1000,
+};
+
+const LEASE_NAME = 'job-scheduler';
+
+// ============================================================================
+// JOB SCHEDULER
+// ============================================================================
+
+class JobScheduler {
+    private readonly logger = logger;
+    private readonly prisma = prismaRaw;
+    private readonly holderId = `scheduler-${hostname()}-${process.pid}-${Math.random().toString(36).substring(2, 9)}`;
+    private config: SchedulerConfig;
+    private leader = false;
+    private ticking = false;
+    private tickIntervalId?: NodeJS.Timeout;
+
+    constructor(config: Partial<SchedulerConfig> = {}) {
+        this.config = { ...DEFAULT_CONFIG, ...config };
+    }
+
+    /**
+     * Create schedules that do not exist yet. Existing rows are left alone so
+     * changes made to a persisted schedule survive restarts.
+     */
+    async ensureSchedules(definitions: ScheduleDefinition[]): Promise<void> {
+        for (const definition of definitions) {
+            parseCron(definition.cron);
+
+            try {
+                await this.prisma.jobSchedule.upsert({
+                    where: { name: definition.name },
+                    update: {},
+                    create: {
+                        id: `schedule-${uuidv4()}`,
+                        name: definition.name,
+                        cron: definition.cron,
+                        jobType: definition.jobType,
+                        payload: (definition.payload ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+                        scope: definition.scope ?? 'global',
+                        enabled: definition.enabled ?? true,
+                        nextRunAt: getNextCronRun(definition.cron),
+                    },
+                });
+            } catch (error) {
+                // Another worker created it first
+                if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    /**
+     * Create or replace a schedule, recomputing its next run
+     */
+    async upsertSchedule(definition: ScheduleDefinition): Promise<JobSchedule> {
+        const nextRunAt = getNextCronRun(definition.cron);
+        const data = {
+            cron: definition.cron,
+            jobType: definition.jobType,
+            payload: (definition.payload ?? Prisma.JsonNull) as Prisma.InputJsonValue,
+            scope: definition.scope ?? 'global',
+            enabled: definition.enabled ?? true,
+            nextRunAt,
+        };
+
+        return this.prisma.jobSchedule.upsert({
+            where: { name: definition.name },
+            update: data,
+            create: { id: `schedule-${uuidv4()}`, name: definition.name, ...data },
+        });
+    }
+
+    /**
+     * Enable or disable a schedule by name
+     */
+    async setEnabled(name: string, enabled: boolean): Promise<JobSchedule> {
+        const schedule = await this.prisma.jobSchedule.findUniqueOrThrow({ where: { name } });
+
+        return this.prisma.jobSchedule.update({
+            where: { name },
+            // Re-enabling starts from the next slot instead of catching up
+            data: enabled
+                ? { enabled, nextRunAt: getNextCronRun(schedule.cron) }
+                : { enabled },
+        });
+    }
+
+    async listSchedules(): Promise<JobSchedule[]> {
+        return this.prisma.jobSchedule.findMany({ orderBy: { name: 'asc' } });
+    }
+
+    /**
+     * Start checking for due schedules
+     */
+    start(): void {
+        if (this.tickIntervalId) {
+            return;
+        }
+
+        this.tickIntervalId = setInterval(() => {
+            this.tick();
+        }, this.config.tickInterval);
+
+        this.logger.info({ holderId: this.holderId }, 'Job scheduler started');
+        this.tick();
+    }
+
+    /**
+     * Stop checking for due schedules and give up leadership
+     */
+    async stop(): Promise<void> {
+        if (!this.tickIntervalId) {
+            return;
+        }
+
+        clearInterval(this.tickIntervalId);
+        this.tickIntervalId = undefined;
+
+        if (this.leader) {
+            this.leader = false;
+            await this.prisma.schedulerLease
+                .deleteMany({ where: { name: LEASE_NAME, holderId: this.holderId } })
+                .catch((error) => this.logger.warn({ error }, 'Failed to release scheduler lease'));
+        }
+
+        this.logger.info('Job scheduler stopped');
+    }
+
+    /**
+     * Whether this process currently holds the scheduler lease
+     */
+    isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Renew or acquire leadership, then enqueue due runs if leader
+     */
+    private async tick(): Promise<void> {
+        if (this.ticking) {
+            return;
+        }
+        this.ticking = true;
+
+        try {
+            const wasLeader = this.leader;
+            this.leader = await this.acquireLease();
+
+            if (this.leader !== wasLeader) {
+                this.logger.info(
+                    { holderId: this.holderId },
+                    this.leader ? 'Became job scheduler leader' : 'Lost job scheduler leadership'
+                );
+            }
+
+            if (this.leader) {
+                await this.runDueSchedules();
+            }
+        } catch (error) {
+            this.logger.error({ error }, 'Job scheduler tick failed');
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Take the lease if it is free or expired, or extend it if already held
+     */
+    private async acquireLease(): Promise<boolean> {
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + this.config.leaseTtl);
+
+        const { count } = await this.prisma.schedulerLease.updateMany({
+            where: {
+                name: LEASE_NAME,
+                OR: [{ holderId: this.holderId }, { expiresAt: { lt: now } }],
+            },
+            data: { holderId: this.holderId, expiresAt },
+        });
+        if (count === 1) {
+            return true;
+        }
+
+        try {
+            await this.prisma.schedulerLease.create({
+                data: { name: LEASE_NAME, holderId: this.holderId, expiresAt },
+            });
+            return true;
+        } catch (error) {
+            // Held by another worker
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    private async runDueSchedules(): Promise<void> {
+        const now = new Date();
+        const due = await this.prisma.jobSchedule.findMany({
+            where: { enabled: true, nextRunAt: { lte: now } },
+            orderBy: { nextRunAt: 'asc' },
+        });
+
+        for (const schedule of due) {
+            // Missed runs collapse into one; the next run is computed from now
+            const { count } = await this.prisma.jobSchedule.updateMany({
+                where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+                data: { nextRunAt: getNextCronRun(schedule.cron, now), lastRunAt: now },
+            });
+            if (count === 0) {
+                continue;
+            }
+
+            try {
+                const jobCount = await this.enqueue(schedule);
+                await this.prisma.jobSchedule.update({
+                    where: { id: schedule.id },
+                    data: { lastJobCount: jobCount },
+                });
+                this.logger.info(
+                    { schedule: schedule.name, jobType: schedule.jobType, jobCount },
+                    'Scheduled jobs enqueued'
+                );
+            } catch (error) {
+                this.logger.error({ error, schedule: schedule.name }, 'Failed to enqueue scheduled jobs');
+            }
+        }
+    }
+
+    /**
+     * Enqueue the jobs for one run of a schedule, returning how many were added.
+     * A user whose job is rejected, e.g. because their organization is over
+     * its queue quota, is skipped so the other users still get theirs.
+     */
+    private async enqueue(schedule: JobSchedule): Promise<number> {
+        const payload = (schedule.payload ?? {}) as Record<string, unknown>;
+        const metadata = { scheduleId: schedule.id, scheduleName: schedule.name };
+
+        if (schedule.scope !== 'active_users') {
+            await queueManager.addJob(schedule.jobType, payload, { metadata });
+            return 1;
+        }
+
+        const users = await this.findActiveUsers();
+        let enqueued = 0;
+        for (const user of users) {
+            try {
+                await queueManager.addJob(schedule.jobType, { ...payload, ...user }, { metadata });
+                enqueued++;
+            } catch (error) {
+                this.logger.warn(
+                    { error, schedule: schedule.name, organizationId: user.organizationId, userId: user.userId },
+                    'Failed to enqueue scheduled job for user'
+                );
+            }
+        }
+        return enqueued;
+    }
+
+    /**
+     * Users whose memory was updated recently, with the meta agent that did it
+     */
+    private async findActiveUsers(): Promise<Array<{ organizationId: string; userId: string; agentId: string }>> {
+        const traces = await this.prisma.memoryQueueTrace.findMany({
+            where: {
+                queuedAt: { gte: new Date(Date.now() - this.config.activeUserWindow) },
+                isDeleted: false,
+                organizationId: { not: null },
+                userId: { not: null },
+                agentId: { not: null },
+            },
+            distinct: ['organizationId', 'userId', 'agentId'],
+            select: { organizationId: true, userId: true, agentId: true },
+        });
+
+        return traces.map((trace) => ({
+            organizationId: trace.organizationId!,
+            userId: trace.userId!,
+            agentId: trace.agentId!,
+        }));
+    }
+}
+
+// Singleton instance
+export const jobScheduler = new JobScheduler();
+
+export default jobScheduler;
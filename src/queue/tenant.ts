@@ -0,0 +1,59 @@
+/**
+ * Queue Tenants
+ * Jobs are grouped by the organization they run for so the queue manager can
+ * share workers fairly and enforce per-organization limits. Within an
+ * organization's turn, its clients take turns as well, so one client cannot
+ * starve the others; caps and quotas stay per organization.
+ */
+
+import type { ClientStats, TenantStats } from './manager';
+
+/** Tenant for jobs whose payload names no organization */
+export const GLOBAL_TENANT = '_global';
+
+/** Client for jobs that do not name one, such as scheduled jobs */
+export const NO_CLIENT = '_none';
+
+/**
+ * Organization a job payload belongs to, when it names one
+ */
+export function getPayloadOrganizationId(data: unknown): string | undefined {
+    const payload = data as { organizationId?: unknown } | null;
+    return payload && typeof payload.organizationId === 'string' ? payload.organizationId : undefined;
+}
+
+/**
+ * Client a job was queued by: metadata.clientId on the job or its payload
+ */
+export function getJobClientId(data: unknown, metadata?: Record<string, unknown>): string | undefined {
+    const payload = data as { clientId?: unknown; metadata?: { clientId?: unknown } | null } | null;
+    const candidates = [metadata?.clientId, payload?.metadata?.clientId, payload?.clientId];
+    return candidates.find((candidate): candidate is string => typeof candidate === 'string');
+}
+
+/**
+ * Add a client's counters to the per-tenant stats, creating the tenant's
+ * entry on first use
+ */
+export function addClientStats(
+    tenants: Record<string, TenantStats>,
+    tenantId: string,
+    clientId: string,
+    stats: ClientStats
+): void {
+    const tenant = (tenants[tenantId] ??= {
+        pending: 0,
+        processing: 0,
+        completed: 0,
+        failed: 0,
+        cancelled: 0,
+        clients: {},
+    });
+
+    tenant.pending += stats.pending;
+    tenant.processing += stats.processing;
+    tenant.completed += stats.completed;
+    tenant.failed += stats.failed;
+    tenant.cancelled += stats.cancelled;
+    tenant.clients[clientId] = { ...stats };
+}
@@ -4,8 +4,10 @@
  */
 
 import { logger } from '../log';
-import { queueManager, QueueJob, JobResult } from './manager';
-import { memoryProcessor } from './memory-processor';
+import { queueManager, QueueJob, QueueStats, JobResult, BackoffPolicy, ProgressReporter } from './manager';
+import { memoryProcessor, ConsolidationResult } from './memory-processor';
+import { jobScheduler, ScheduleDefinition } from './scheduler';
+import type { ForgettingResult } from '../services/memory/index';
 
 // ============================================================================
 // TYPES
@@ -16,11 +18,17 @@ export interface WorkerConfig {
     enableMemoryProcessing: boolean;
     /** Enable cleanup jobs */
     enableCleanup: boolean;
+    /** Enable background agent and cache warmup jobs */
+    enableBackgroundAgents: boolean;
+    /** Enqueue recurring jobs from persisted schedules */
+    enableScheduler: boolean;
 }
 
 const DEFAULT_CONFIG: WorkerConfig = {
     enableMemoryProcessing: true,
     enableCleanup: true,
+    enableBackgroundAgents: true,
+    enableScheduler: true,
 };
 
 // ============================================================================
@@ -29,6 +37,7 @@ const DEFAULT_CONFIG: WorkerConfig = {
 
 export const JobType = {
     // Memory processing jobs
+    PROCESS_CONVERSATION: 'process_conversation',
     PROCESS_EPISODIC_MEMORY: 'process_episodic_memory',
     PROCESS_SEMANTIC_MEMORY: 'process_semantic_memory',
     PROCESS_PROCEDURAL_MEMORY: 'process_procedural_memory',
@@ -38,6 +47,7 @@ export const JobType = {
     // Background agent jobs
     RUN_BACKGROUND_AGENT: 'run_background_agent',
     RUN_REFLEXION_AGENT: 'run_reflexion_agent',
+    WARM_CACHE: 'warm_cache',
 
     // Cleanup jobs
     CLEANUP_EXPIRED_MEMORIES: 'cleanup_expired_memories',
@@ -46,6 +56,62 @@ export const JobType = {
 
 export type JobType = (typeof JobType)[keyof typeof JobType];
 
+// ============================================================================
+// BACKOFF POLICIES
+// ============================================================================
+
+/**
+ * Memory jobs call LLM providers, so give rate limits and outages time to clear
+ */
+const MEMORY_JOB_BACKOFF: Partial<BackoffPolicy> = {
+    strategy: 'exponential',
+    delay: 10000,
+    maxDelay: 600000,
+};
+
+/**
+ * Cleanup jobs are cheap and periodic; retry on a steady interval
+ */
+const CLEANUP_JOB_BACKOFF: Partial<BackoffPolicy> = {
+    strategy: 'fixed',
+    delay: 60000,
+    maxDelay: 60000,
+    maxAttempts: 2,
+};
+
+// ============================================================================
+// DEFAULT SCHEDULES
+// ============================================================================
+
+const CLEANUP_SCHEDULES: ScheduleDefinition[] = [
+    {
+        name: 'nightly-trace-cleanup',
+        cron: '0 3 * * *',
+        jobType: JobType.CLEANUP_OLD_TRACES,
+    },
+    {
+        // Applies the forgetting policies, which archive low-value memories by default
+        name: 'nightly-expired-memory-cleanup',
+        cron: '30 3 * * *',
+        jobType: JobType.CLEANUP_EXPIRED_MEMORIES,
+    },
+];
+
+const BACKGROUND_AGENT_SCHEDULES: ScheduleDefinition[] = [
+    {
+        name: 'reflexion-active-users',
+        cron: '0 */6 * * *',
+        jobType: JobType.RUN_REFLEXION_AGENT,
+        scope: 'active_users',
+    },
+    {
+        name: 'hourly-cache-warmup',
+        cron: '0 * * * *',
+        jobType: JobType.WARM_CACHE,
+        scope: 'active_users',
+    },
+];
+
 // ============================================================================
 // JOB DATA TYPES
 // ============================================================================
@@ -56,9 +122,23 @@ export interface MemoryJobData {
     organizationId: string;
     messageIds?: string[];
     content?: string;
+    /** MemoryQueueTrace recording this job */
+    traceId?: string;
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Summary returned by a finished conversation job
+ */
+export interface ConversationJobResult {
+    /** MemoryQueueTrace with the full run */
+    traceId?: string;
+    triggeredMemoryTypes: string[];
+    memoryUpdateCounts: Record<string, number>;
+    /** Memory sub-agents that failed; their memory types were not updated */
+    failedAgents: string[];
+}
+
 export interface BackgroundAgentJobData {
     agentId: string;
     userId: string;
@@ -70,6 +150,8 @@ export interface CleanupJobData {
     organizationId?: string;
     olderThan?: Date;
     limit?: number;
+    /** Report what memory cleanup would forget without changing anything */
+    dryRun?: boolean;
 }
 
 // ============================================================================
@@ -100,6 +182,11 @@ class QueueWorker {
         // Start the queue manager
         queueManager.start();
 
+        if (this.config.enableScheduler) {
+            await jobScheduler.ensureSchedules(this.getDefaultSchedules());
+            jobScheduler.start();
+        }
+
         this.started = true;
         this.logger.info('Queue worker started');
     }
@@ -112,6 +199,7 @@ class QueueWorker {
             return;
         }
 
+        await jobScheduler.stop();
         queueManager.stop();
         this.started = false;
         this.logger.info('Queue worker stopped');
@@ -122,56 +210,121 @@ class QueueWorker {
      */
     private registerHandlers(): void {
         if (this.config.enableMemoryProcessing) {
+            // Conversation turns submitted through /memory/add
+            queueManager.registerHandler<MemoryJobData, ConversationJobResult>(
+                JobType.PROCESS_CONVERSATION,
+                this.handleConversation.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
+            );
+
             // Episodic memory processing
             queueManager.registerHandler<MemoryJobData, void>(
                 JobType.PROCESS_EPISODIC_MEMORY,
-                this.handleEpisodicMemory.bind(this)
+                this.handleEpisodicMemory.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
             );
 
             // Semantic memory processing
             queueManager.registerHandler<MemoryJobData, void>(
                 JobType.PROCESS_SEMANTIC_MEMORY,
-                this.handleSemanticMemory.bind(this)
+                this.handleSemanticMemory.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
             );
 
             // Procedural memory processing
             queueManager.registerHandler<MemoryJobData, void>(
                 JobType.PROCESS_PROCEDURAL_MEMORY,
-                this.handleProceduralMemory.bind(this)
+                this.handleProceduralMemory.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
             );
 
             // Resource memory processing
             queueManager.registerHandler<MemoryJobData, void>(
                 JobType.PROCESS_RESOURCE_MEMORY,
-                this.handleResourceMemory.bind(this)
+                this.handleResourceMemory.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
             );
 
             // Knowledge processing
             queueManager.registerHandler<MemoryJobData, void>(
                 JobType.PROCESS_KNOWLEDGE,
-                this.handleKnowledge.bind(this)
+                this.handleKnowledge.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
             );
         }
 
         if (this.config.enableCleanup) {
             // Cleanup expired memories
-            queueManager.registerHandler<CleanupJobData, number>(
+            queueManager.registerHandler<CleanupJobData, ForgettingResult>(
                 JobType.CLEANUP_EXPIRED_MEMORIES,
-                this.handleCleanupExpiredMemories.bind(this)
+                this.handleCleanupExpiredMemories.bind(this),
+                { backoff: CLEANUP_JOB_BACKOFF }
             );
 
             // Cleanup old traces
             queueManager.registerHandler<CleanupJobData, number>(
                 JobType.CLEANUP_OLD_TRACES,
-                this.handleCleanupOldTraces.bind(this)
+                this.handleCleanupOldTraces.bind(this),
+                { backoff: CLEANUP_JOB_BACKOFF }
+            );
+        }
+
+        if (this.config.enableBackgroundAgents) {
+            // Periodic reflexion: consolidates episodic events into semantic and procedural memory
+            queueManager.registerHandler<BackgroundAgentJobData, ConsolidationResult>(
+                JobType.RUN_REFLEXION_AGENT,
+                this.handleReflexion.bind(this),
+                { backoff: MEMORY_JOB_BACKOFF }
+            );
+
+            // Preload cached records for active users
+            queueManager.registerHandler<BackgroundAgentJobData, number>(
+                JobType.WARM_CACHE,
+                this.handleWarmCache.bind(this),
+                { backoff: CLEANUP_JOB_BACKOFF }
             );
         }
     }
 
+    /**
+     * Schedules for the job families this worker handles
+     */
+    private getDefaultSchedules(): ScheduleDefinition[] {
+        return [
+            ...(this.config.enableCleanup ? CLEANUP_SCHEDULES : []),
+            ...(this.config.enableBackgroundAgents ? BACKGROUND_AGENT_SCHEDULES : []),
+        ];
+    }
+
     // ========================================================================
     // MEMORY JOB HANDLERS
     // ========================================================================
 
+    private async handleConversation(
+        job: QueueJob<MemoryJobData>,
+        signal: AbortSignal,
+        reportProgress: ProgressReporter
+    ): Promise<JobResult<ConversationJobResult>> {
+        const startTime = Date.now();
+
+        try {
+            const result = await memoryProcessor.processConversation(job.data, signal, reportProgress);
+
+            return {
+                success: true,
+                result,
+                executionTimeMs: Date.now() - startTime,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
+                executionTimeMs: Date.now() - startTime,
+            };
+        }
+    }
+
     private async handleEpisodicMemory(
         job: QueueJob<MemoryJobData>
     ): Promise<JobResult<void>> {
@@ -188,6 +341,7 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -209,6 +363,7 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -230,6 +385,7 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -251,6 +407,7 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -272,6 +429,7 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -283,21 +441,22 @@ class QueueWorker {
 
     private async handleCleanupExpiredMemories(
         job: QueueJob<CleanupJobData>
-    ): Promise<JobResult<number>> {
+    ): Promise<JobResult<ForgettingResult>> {
         const startTime = Date.now();
 
         try {
-            const count = await memoryProcessor.cleanupExpiredMemories(job.data);
+            const result = await memoryProcessor.cleanupExpiredMemories(job.data);
 
             return {
                 success: true,
-                result: count,
+                result,
                 executionTimeMs: Date.now() - startTime,
             };
         } catch (error) {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -320,6 +479,58 @@ class QueueWorker {
             return {
                 success: false,
                 error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
+                executionTimeMs: Date.now() - startTime,
+            };
+        }
+    }
+
+    // ========================================================================
+    // BACKGROUND AGENT JOB HANDLERS
+    // ========================================================================
+
+    private async handleReflexion(
+        job: QueueJob<BackgroundAgentJobData>,
+        signal: AbortSignal
+    ): Promise<JobResult<ConsolidationResult>> {
+        const startTime = Date.now();
+
+        try {
+            const result = await memoryProcessor.runReflexion(job.data, signal);
+
+            return {
+                success: true,
+                result,
+                executionTimeMs: Date.now() - startTime,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
+                executionTimeMs: Date.now() - startTime,
+            };
+        }
+    }
+
+    private async handleWarmCache(
+        job: QueueJob<BackgroundAgentJobData>
+    ): Promise<JobResult<number>> {
+        const startTime = Date.now();
+
+        try {
+            const count = await memoryProcessor.warmCache(job.data);
+
+            return {
+                success: true,
+                result: count,
+                executionTimeMs: Date.now() - startTime,
+            };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                stack: error instanceof Error ? error.stack : undefined,
                 executionTimeMs: Date.now() - startTime,
             };
         }
@@ -335,12 +546,7 @@ class QueueWorker {
     /**
      * Get queue statistics
      */
-    getStats(): Record<string, {
-        pending: number;
-        processing: number;
-        completed: number;
-        failed: number;
-    }> {
+    async getStats(): Promise<Record<string, QueueStats>> {
         return queueManager.getStats();
     }
 }
@@ -25,13 +25,23 @@ export { getUtcTime, getUtcTimeIso };
  * Pad an embedding array to MAX_EMBEDDING_DIM
  */
 export function padEmbedding(embedding: number[] | null | undefined): number[] | null {
+    return padEmbeddingToDim(embedding, MAX_EMBEDDING_DIM);
+}
+
+/**
+ * Pad an embedding array with zeros to the given dimension
+ */
+export function padEmbeddingToDim(
+    embedding: number[] | null | undefined,
+    dim: number
+): number[] | null {
     if (!embedding || embedding.length === 0) {
         return null;
     }
-    if (embedding.length === MAX_EMBEDDING_DIM) {
+    if (embedding.length === dim) {
         return embedding;
     }
-    const padded = new Array(MAX_EMBEDDING_DIM).fill(0);
+    const padded = new Array(dim).fill(0);
     for (let i = 0; i < embedding.length; i++) {
         padded[i] = embedding[i];
     }
@@ -33,3 +33,17 @@ export {
 export type {
     AccessScope,
 } from './permissions';
+
+// Secret encryption
+export {
+    secretVault,
+    SecretVault,
+    MASKED_SECRET,
+    LocalKeyProvider,
+    registerKeyProvider,
+} from './secret-vault';
+
+export type {
+    KeyProvider,
+    WrappedKey,
+} from './secret-vault';
@@ -0,0 +1,254 @@
+/**
+ * Secret Vault
+ * Envelope encryption for secrets stored in the database. Each secret is
+ * encrypted with its own random data key (AES-256-GCM), and the data key is
+ * wrapped by a key provider. The default provider keeps a master key in a
+ * local file; others (e.g. a cloud KMS) can be registered and selected with
+ * MIRIX_SECRET_KEY_PROVIDER.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { settings } from '../settings';
+import { ConfigurationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A data key encrypted by a key provider
+ */
+export interface WrappedKey {
+    /** Provider key the data key was wrapped with */
+    keyId: string;
+    /** Base64 encoded */
+    ciphertext: string;
+}
+
+/**
+ * Wraps and unwraps data keys. The provider name is stored with every
+ * envelope, so a provider must keep its name for as long as secrets
+ * encrypted with it exist.
+ */
+export interface KeyProvider {
+    readonly name: string;
+    wrapKey(dataKey: Buffer): Promise<WrappedKey>;
+    unwrapKey(wrapped: WrappedKey): Promise<Buffer>;
+}
+
+interface Envelope {
+    provider: string;
+    keyId: string;
+    wrappedKey: string;
+    iv: string;
+    tag: string;
+    ciphertext: string;
+}
+
+/** Shown in place of a secret everywhere except an explicit reveal */
+export const MASKED_SECRET = '********';
+
+/** Prefix of stored envelopes; values without it predate encryption */
+export const ENVELOPE_PREFIX = 'vault:v1:';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const ALGORITHM = 'aes-256-gcm';
+
+// ============================================================================
+// LOCAL KEY PROVIDER
+// ============================================================================
+
+/**
+ * Wraps data keys with a master key read from a file, which is created with a
+ * random key on first use. Losing the file makes every secret unreadable.
+ */
+export class LocalKeyProvider implements KeyProvider {
+    readonly name = 'local';
+    private masterKey: Promise<{ key: Buffer; keyId: string }> | null = null;
+
+    constructor(private readonly keyFile: string) {}
+
+    async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+        const { key, keyId } = await this.loadMasterKey();
+        const { iv, tag, ciphertext } = seal(key, dataKey);
+
+        return { keyId, ciphertext: Buffer.concat([iv, tag, ciphertext]).toString('base64') };
+    }
+
+    async unwrapKey(wrapped: WrappedKey): Promise<Buffer> {
+        const { key, keyId } = await this.loadMasterKey();
+        if (wrapped.keyId !== keyId) {
+            throw new ConfigurationError(
+                `Secret was encrypted with master key ${wrapped.keyId}, but ${this.keyFile} holds ${keyId}`
+            );
+        }
+
+        const data = Buffer.from(wrapped.ciphertext, 'base64');
+        return open(
+            key,
+            data.subarray(0, IV_BYTES),
+            data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+            data.subarray(IV_BYTES + TAG_BYTES)
+        );
+    }
+
+    private loadMasterKey(): Promise<{ key: Buffer; keyId: string }> {
+        this.masterKey ??= this.readOrCreateKeyFile().catch((error) => {
+            this.masterKey = null;
+            throw error;
+        });
+        return this.masterKey;
+    }
+
+    private async readOrCreateKeyFile(): Promise<{ key: Buffer; keyId: string }> {
+        let encoded: string;
+        try {
+            encoded = (await readFile(this.keyFile, 'utf8')).trim();
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            encoded = randomBytes(KEY_BYTES).toString('base64');
+            await mkdir(path.dirname(this.keyFile), { recursive: true });
+            try {
+                // wx: never overwrite a key another process created meanwhile
+                await writeFile(this.keyFile, `${encoded}\n`, { mode: 0o600, flag: 'wx' });
+            } catch (writeError) {
+                if ((writeError as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw writeError;
+                }
+                encoded = (await readFile(this.keyFile, 'utf8')).trim();
+            }
+        }
+
+        const key = Buffer.from(encoded, 'base64');
+        if (key.length !== KEY_BYTES) {
+            throw new ConfigurationError(`Master key in ${this.keyFile} must be ${KEY_BYTES} base64 encoded bytes`);
+        }
+
+        return { key, keyId: createHash('sha256').update(key).digest('hex').slice(0, 16) };
+    }
+}
+
+// ============================================================================
+// PROVIDER REGISTRY
+// ============================================================================
+
+const providerFactories = new Map<string, () => KeyProvider>([
+    ['local', () => new LocalKeyProvider(settings.secretMasterKeyFile)],
+]);
+
+/**
+ * Make a key provider available under its name. Register before the first
+ * secret is encrypted or decrypted.
+ */
+export function registerKeyProvider(name: string, factory: () => KeyProvider): void {
+    providerFactories.set(name, factory);
+}
+
+// ============================================================================
+// SECRET VAULT
+// ============================================================================
+
+export class SecretVault {
+    private readonly providers = new Map<string, KeyProvider>();
+
+    /**
+     * Whether a stored value is an envelope rather than a legacy plaintext
+     */
+    isEncrypted(value: string): boolean {
+        return value.startsWith(ENVELOPE_PREFIX);
+    }
+
+    /**
+     * Encrypt a secret with the configured provider. Empty values are kept
+     * as they are, since there is nothing to protect.
+     */
+    async encrypt(plaintext: string): Promise<string> {
+        if (!plaintext) {
+            return plaintext;
+        }
+
+        const provider = this.getProvider(settings.secretKeyProvider);
+        const dataKey = randomBytes(KEY_BYTES);
+        const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+        const wrapped = await provider.wrapKey(dataKey);
+
+        const envelope: Envelope = {
+            provider: provider.name,
+            keyId: wrapped.keyId,
+            wrappedKey: wrapped.ciphertext,
+            iv: iv.toString('base64'),
+            tag: tag.toString('base64'),
+            ciphertext: ciphertext.toString('base64'),
+        };
+
+        return `${ENVELOPE_PREFIX}${Buffer.from(JSON.stringify(envelope)).toString('base64url')}`;
+    }
+
+    /**
+     * Decrypt a stored value with the provider that encrypted it. Values
+     * written before encryption was enabled are returned unchanged.
+     */
+    async decrypt(stored: string): Promise<string> {
+        if (!this.isEncrypted(stored)) {
+            return stored;
+        }
+
+        const envelope = JSON.parse(
+            Buffer.from(stored.slice(ENVELOPE_PREFIX.length), 'base64url').toString('utf8')
+        ) as Envelope;
+
+        const dataKey = await this.getProvider(envelope.provider).unwrapKey({
+            keyId: envelope.keyId,
+            ciphertext: envelope.wrappedKey,
+        });
+
+        return open(
+            dataKey,
+            Buffer.from(envelope.iv, 'base64'),
+            Buffer.from(envelope.tag, 'base64'),
+            Buffer.from(envelope.ciphertext, 'base64')
+        ).toString('utf8');
+    }
+
+    private getProvider(name: string): KeyProvider {
+        let provider = this.providers.get(name);
+        if (!provider) {
+            const factory = providerFactories.get(name);
+            if (!factory) {
+                throw new ConfigurationError(`Unknown secret key provider: ${name}`);
+            }
+            provider = factory();
+            this.providers.set(name, provider);
+        }
+        return provider;
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export const secretVault = new SecretVault();
+
+export default secretVault;
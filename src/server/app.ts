@@ -17,6 +17,12 @@ import { logger } from '../log';
 import { healthRoutes } from './routes/health';
 import { agentRoutes } from './routes/agents';
 import { messageRoutes } from './routes/messages';
+import { memoryRoutes } from './routes/memory';
+import { userRoutes } from './routes/users';
+import { metaAgentRoutes } from './routes/meta-agent';
+import { traceRoutes } from './routes/traces';
+import { adminRoutes } from './routes/admin';
+import { jobRoutes } from './routes/jobs';
 
 // ============================================================================
 // APP SETUP
@@ -41,7 +47,7 @@ export function createApp(): Hono {
         cors({
             origin: '*',
             allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-            allowHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
+            allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-ID'],
             exposeHeaders: ['X-Request-ID', 'X-Response-Time'],
             maxAge: 86400,
         })
@@ -63,6 +69,14 @@ export function createApp(): Hono {
     // API v1
     app.route('/v1/agents', agentRoutes);
     app.route('/v1/messages', messageRoutes);
+    app.route('/v1/traces', traceRoutes);
+    app.route('/v1/admin', adminRoutes);
+    app.route('/v1/jobs', jobRoutes);
+
+    // Memory API (used by MirixClient)
+    app.route('/users', userRoutes);
+    app.route('/agents', metaAgentRoutes);
+    app.route('/memory', memoryRoutes);
 
     // ========================================================================
     // ERROR HANDLING
@@ -4,7 +4,14 @@
  */
 
 export { createApp, startServer } from './app';
-export { healthRoutes, agentRoutes, messageRoutes } from './routes/index';
+export {
+    healthRoutes,
+    agentRoutes,
+    messageRoutes,
+    memoryRoutes,
+    userRoutes,
+    metaAgentRoutes,
+} from './routes/index';
 export { authMiddleware, optionalAuthMiddleware, requirePermission } from './middleware/auth';
 export { errorHandler, notFoundHandler } from './middleware/error-handler';
 export type { AuthContext } from './middleware/auth';
@@ -32,22 +32,32 @@ declare module 'hono' {
 // ============================================================================
 
 /**
- * Authenticate requests using API key
+ * Extract the API key from the Authorization bearer token or X-API-Key header
  */
-export async function authMiddleware(c: Context, next: Next): Promise<Response | void> {
+function extractApiKey(c: Context): string {
     const authHeader = c.req.header('authorization');
 
-    if (!authHeader) {
-        throw new AuthenticationError('Missing authorization header');
+    if (authHeader) {
+        const match = authHeader.match(/^Bearer\s+(.+)$/i);
+        if (!match) {
+            throw new AuthenticationError('Invalid authorization header format');
+        }
+        return match[1];
     }
 
-    // Extract bearer token
-    const match = authHeader.match(/^Bearer\s+(.+)$/i);
-    if (!match) {
-        throw new AuthenticationError('Invalid authorization header format');
+    const apiKeyHeader = c.req.header('x-api-key');
+    if (apiKeyHeader) {
+        return apiKeyHeader;
     }
 
-    const apiKey = match[1];
+    throw new AuthenticationError('Missing authorization header');
+}
+
+/**
+ * Authenticate requests using API key
+ */
+export async function authMiddleware(c: Context, next: Next): Promise<Response | void> {
+    const apiKey = extractApiKey(c);
 
     try {
         // Hash the API key for lookup
@@ -114,9 +124,7 @@ export async function authMiddleware(c: Context, next: Next): Promise<Response |
  * Optional authentication - sets context if valid, continues if not
  */
 export async function optionalAuthMiddleware(c: Context, next: Next): Promise<Response | void> {
-    const authHeader = c.req.header('authorization');
-
-    if (!authHeader) {
+    if (!c.req.header('authorization') && !c.req.header('x-api-key')) {
         await next();
         return;
     }
@@ -11,6 +11,7 @@ import {
     ValidationError,
     AuthenticationError,
     AuthorizationError,
+    RateLimitError,
 } from '../../errors';
 
 // ============================================================================
@@ -72,6 +73,10 @@ export function errorHandler(error: Error, c: Context): Response {
         if (error instanceof ValidationError) {
             errorResponse.error.details = { errors: error.errors };
         }
+
+        if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+            c.header('Retry-After', String(error.retryAfter));
+        }
     } else if (error instanceof NotFoundError) {
         statusCode = 404;
         errorResponse = {
@@ -101,7 +106,7 @@ export function errorHandler(error: Error, c: Context): Response {
         };
     }
 
-    return c.json(errorResponse, statusCode as 400 | 401 | 403 | 404 | 500);
+    return c.json(errorResponse, statusCode as 400 | 401 | 403 | 404 | 429 | 500 | 503);
 }
 
 /**
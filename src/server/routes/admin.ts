@@ -0,0 +1,154 @@
+/**
+ * Admin Routes
+ * REST API endpoints for operating the background job queues
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { queueManager, getJobOrganizationId, DeadLetterJob } from '../../queue/manager';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { NotFoundError, ValidationError } from '../../errors';
+import { logger } from '../../log';
+
+// Helper to format Zod errors
+function formatZodErrors(errors: z.ZodIssue[]): string {
+    return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export const adminRoutes = new Hono();
+
+// Apply auth middleware to all routes; queue administration needs full access
+adminRoutes.use('*', authMiddleware);
+adminRoutes.use('*', requirePermission('all'));
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const ListDeadLettersSchema = z.object({
+    type: z.string().optional(),
+    limit: z.coerce.number().min(1).max(100).optional(),
+    offset: z.coerce.number().min(0).optional(),
+});
+
+const PurgeDeadLettersSchema = z.object({
+    type: z.string().optional(),
+    /** Only purge jobs that failed before this time */
+    olderThan: z.string().datetime().optional(),
+});
+
+/**
+ * Dead-lettered jobs carry their organization in the payload; jobs of other
+ * organizations, and jobs not tied to any, are reported as missing
+ */
+async function getOwnDeadLetter(id: string, organizationId: string): Promise<DeadLetterJob> {
+    const entry = await queueManager.getDeadLetter(id);
+    if (!entry || getJobOrganizationId(entry.job) !== organizationId) {
+        throw new NotFoundError('Dead-lettered job', id);
+    }
+
+    return entry;
+}
+
+// ============================================================================
+// DEAD LETTERS
+// ============================================================================
+
+/**
+ * List jobs that exhausted their attempts, most recently failed first
+ */
+adminRoutes.get('/dead-letters', async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = ListDeadLettersSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const limit = parsed.data.limit ?? 50;
+    const offset = parsed.data.offset ?? 0;
+    const result = await queueManager.listDeadLetters({
+        type: parsed.data.type,
+        organizationId: auth.organizationId,
+        limit,
+        offset,
+    });
+
+    return c.json({
+        jobs: result.items,
+        total: result.total,
+        hasMore: offset + result.items.length < result.total,
+    });
+});
+
+/**
+ * Get a dead-lettered job with its payload, final error, stack and attempt history
+ */
+adminRoutes.get('/dead-letters/:id', async (c) => {
+    const auth = c.get('auth');
+    const entry = await getOwnDeadLetter(c.req.param('id'), auth.organizationId);
+
+    return c.json({ job: entry });
+});
+
+/**
+ * Put a dead-lettered job back on its queue with a fresh set of attempts
+ */
+adminRoutes.post('/dead-letters/:id/replay', async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    await getOwnDeadLetter(id, auth.organizationId);
+
+    const job = await queueManager.replayDeadLetter(id);
+    if (!job) {
+        throw new NotFoundError('Dead-lettered job', id);
+    }
+
+    logger.info({ jobId: id, type: job.type, clientId: auth.clientId }, 'Dead-lettered job replayed');
+
+    return c.json({ job });
+});
+
+/**
+ * Permanently delete a dead-lettered job
+ */
+adminRoutes.delete('/dead-letters/:id', async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const entry = await getOwnDeadLetter(id, auth.organizationId);
+
+    const purged = await queueManager.purgeDeadLetters({
+        type: entry.job.type,
+        organizationId: auth.organizationId,
+        jobId: id,
+    });
+    if (purged === 0) {
+        throw new NotFoundError('Dead-lettered job', id);
+    }
+
+    return c.json({ success: true, purged });
+});
+
+/**
+ * Permanently delete dead-lettered jobs, optionally by type and age
+ */
+adminRoutes.delete('/dead-letters', async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = PurgeDeadLettersSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const purged = await queueManager.purgeDeadLetters({
+        type: parsed.data.type,
+        organizationId: auth.organizationId,
+        failedBefore: parsed.data.olderThan ? new Date(parsed.data.olderThan) : undefined,
+    });
+
+    return c.json({ success: true, purged });
+});
@@ -4,9 +4,13 @@
  */
 
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
 import { AgentType } from '@prisma/client';
 import { agentManager, CreateAgentInput, UpdateAgentInput } from '../../services/agent-manager';
+import { stepManager } from '../../services/step-manager';
+import { blockManager } from '../../services/block-manager';
+import { memoryRevisionService } from '../../services/memory/revision-service';
 import { createAgent } from '../../agent/index';
 import { authMiddleware, requirePermission } from '../middleware/auth';
 import { ValidationError, NotFoundError } from '../../errors';
@@ -61,6 +65,15 @@ const ChatRequestSchema = z.object({
     message: z.string().min(1),
 });
 
+const ListStepsSchema = z.object({
+    limit: z.coerce.number().min(1).max(100).optional(),
+    cursor: z.string().optional(),
+    model: z.string().optional(),
+    provider_name: z.string().optional(),
+    start_date: z.string().datetime().optional(),
+    end_date: z.string().datetime().optional(),
+});
+
 // ============================================================================
 // LIST & CREATE AGENTS
 // ============================================================================
@@ -235,6 +248,46 @@ agentRoutes.post('/:id/chat', requirePermission('all'), async (c) => {
     }
 });
 
+/**
+ * Send a message to an agent and stream events over SSE
+ */
+agentRoutes.post('/:id/chat/stream', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const body = await c.req.json();
+
+    const parsed = ChatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    // Resolve the agent before the stream opens so lookup errors stay JSON
+    await agentManager.read(id, { id: auth.clientId, organizationId: auth.organizationId });
+    const agent = await createAgent(id);
+
+    return streamSSE(c, async (stream) => {
+        const events = agent.chatStream(
+            parsed.data.message,
+            auth.userId ?? auth.clientId,
+            { clientId: auth.clientId }
+        );
+
+        let eventId = 0;
+        for await (const event of events) {
+            // Leaving the loop tells the agent to stop at the next step boundary
+            if (stream.aborted) break;
+
+            await stream.writeSSE({
+                id: String(eventId++),
+                event: event.type,
+                data: JSON.stringify(event),
+            });
+        }
+    });
+});
+
 // ============================================================================
 // TOOLS
 // ============================================================================
@@ -369,12 +422,43 @@ agentRoutes.patch('/:id/memory/:label', requirePermission('all'), async (c) => {
         id,
         label,
         parsed.data.value,
-        { id: auth.clientId, organizationId: auth.organizationId }
+        { id: auth.clientId, organizationId: auth.organizationId, apiKeyId: auth.apiKeyId }
     );
 
     return c.json({ block });
 });
 
+/**
+ * Get the revision history of a core memory block, newest first
+ */
+agentRoutes.get('/:id/memory/:label/history', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const label = c.req.param('label');
+    const actor = { id: auth.clientId, organizationId: auth.organizationId };
+
+    const block = await agentManager.getCoreMemoryBlock(id, label, actor);
+    const revisions = await memoryRevisionService.listRevisions('block', block.id, actor);
+
+    return c.json({ blockId: block.id, revisions });
+});
+
+/**
+ * Restore a core memory block to one of its revisions
+ */
+agentRoutes.post('/:id/memory/:label/revert/:revisionId', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const label = c.req.param('label');
+    const revisionId = c.req.param('revisionId');
+    const actor = { id: auth.clientId, organizationId: auth.organizationId, apiKeyId: auth.apiKeyId };
+
+    const block = await agentManager.getCoreMemoryBlock(id, label, actor);
+    const reverted = await blockManager.revert(block.id, revisionId, actor);
+
+    return c.json({ block: reverted });
+});
+
 // ============================================================================
 // MESSAGES
 // ============================================================================
@@ -401,6 +485,88 @@ agentRoutes.get('/:id/messages', requirePermission('read_only'), async (c) => {
     return c.json({ messages });
 });
 
+// ============================================================================
+// CONTEXT WINDOW
+// ============================================================================
+
+/**
+ * Get the agent's current context window overview
+ */
+agentRoutes.get('/:id/context', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    // Verify agent access
+    await agentManager.read(id, { id: auth.clientId, organizationId: auth.organizationId });
+
+    const agent = await createAgent(id);
+    const overview = await agent.getContextWindow();
+
+    return c.json(overview);
+});
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+/**
+ * List persisted execution steps for an agent
+ */
+agentRoutes.get('/:id/steps', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const actor = { id: auth.clientId, organizationId: auth.organizationId };
+
+    const parsed = ListStepsSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+    const query = parsed.data;
+
+    // Verify agent access
+    await agentManager.read(id, actor);
+
+    const result = await stepManager.listSteps(actor, {
+        agentId: id,
+        limit: query.limit ?? 50,
+        cursor: query.cursor,
+        model: query.model,
+        providerName: query.provider_name,
+        startDate: query.start_date ? new Date(query.start_date) : undefined,
+        endDate: query.end_date ? new Date(query.end_date) : undefined,
+    });
+
+    return c.json({
+        steps: result.items,
+        total: result.total,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+    });
+});
+
+/**
+ * Get a single step with the messages it produced
+ */
+agentRoutes.get('/:id/steps/:stepId', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const stepId = c.req.param('stepId');
+    const actor = { id: auth.clientId, organizationId: auth.organizationId };
+
+    await agentManager.read(id, actor);
+
+    const step = await stepManager.read(stepId, actor);
+    if (step.agentId !== id) {
+        throw new NotFoundError('Step', stepId);
+    }
+
+    const messages = await stepManager.getStepMessages(stepId, actor);
+
+    return c.json({ ...step, messages });
+});
+
 // ============================================================================
 // HIERARCHY
 // ============================================================================
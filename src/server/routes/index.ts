@@ -6,3 +6,9 @@
 export { healthRoutes } from './health';
 export { agentRoutes } from './agents';
 export { messageRoutes } from './messages';
+export { memoryRoutes } from './memory';
+export { userRoutes } from './users';
+export { metaAgentRoutes } from './meta-agent';
+export { traceRoutes } from './traces';
+export { adminRoutes } from './admin';
+export { jobRoutes } from './jobs';
@@ -0,0 +1,35 @@
+/**
+ * Job Routes
+ * REST API endpoints for following background jobs queued by the API
+ */
+
+import { Hono } from 'hono';
+import { queueManager } from '../../queue/manager';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { NotFoundError } from '../../errors';
+
+export const jobRoutes = new Hono();
+
+// Apply auth middleware to all routes
+jobRoutes.use('*', authMiddleware);
+
+// ============================================================================
+// GET JOB
+// ============================================================================
+
+/**
+ * Get a job's status: queued, running (with progress and the current
+ * sub-agent), completed (with its result summary), failed or cancelled.
+ * Jobs of other organizations are reported as missing.
+ */
+jobRoutes.get('/:id', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const job = await queueManager.getJob(id);
+    if (!job || job.tenantId !== auth.organizationId) {
+        throw new NotFoundError('Job', id);
+    }
+
+    return c.json({ job });
+});
@@ -0,0 +1,988 @@
+/**
+ * Memory Routes
+ * REST API endpoints used by MirixClient to add, retrieve and search memories
+ */
+
+import { Hono } from 'hono';
+import { User } from '@prisma/client';
+import { z } from 'zod';
+import { randomUUID } from 'crypto';
+import { agentManager, EmbeddingConfig } from '../../services/agent-manager';
+import { userManager } from '../../services/user-manager';
+import { clientManager } from '../../services/client-manager';
+import { messageManager } from '../../services/message-manager';
+import { traceManager } from '../../services/trace-manager';
+import { ActorContext } from '../../services/base-manager';
+import {
+    episodicMemoryManager,
+    knowledgeMemoryManager,
+    MEMORY_TYPES,
+    MEMORY_MANAGERS,
+    MemoryType,
+    memoryRetrievalService,
+    LLMReranker,
+    memoryDuplicateService,
+    DEDUPLICATED_MEMORY_TYPES,
+    memoryForgettingService,
+    FORGETTING_ACTIONS,
+    DECAY_FUNCTIONS,
+    memoryRevisionService,
+    memoryProvenanceService,
+} from '../../services/memory/index';
+import { META_AGENT_NAME } from '../../agent/meta-agent';
+import { LLMConfig, createDefaultLLMConfig } from '../../schemas/llm_config';
+import { parseTemporalExpression } from '../../helpers/datetime-helpers';
+import { createEmbeddingClientFromAgentConfig } from '../../embeddings';
+import { queueManager } from '../../queue/manager';
+import { memoryProcessor } from '../../queue/memory-processor';
+import { JobType, MemoryJobData } from '../../queue/worker';
+import { authMiddleware, requirePermission, AuthContext } from '../middleware/auth';
+import { ValidationError } from '../../errors';
+import { logger } from '../../log';
+
+// Helper to format Zod errors
+function formatZodErrors(errors: z.ZodIssue[]): string {
+    return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export const memoryRoutes = new Hono();
+
+// Apply auth middleware to all routes
+memoryRoutes.use('*', authMiddleware);
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const dateString = z.string().refine((value) => !isNaN(Date.parse(value)), {
+    message: 'Invalid ISO 8601 date',
+});
+
+const MessageContentSchema = z.object({
+    type: z.enum(['text', 'image']),
+    text: z.string().optional(),
+    imageUrl: z.string().optional(),
+});
+
+const ConversationMessageSchema = z.object({
+    role: z.enum(['user', 'assistant', 'system']),
+    content: z.union([z.string(), z.array(MessageContentSchema)]),
+});
+
+const AddMemorySchema = z.object({
+    user_id: z.string().optional(),
+    meta_agent_id: z.string(),
+    messages: z.array(ConversationMessageSchema).min(1),
+    chaining: z.boolean().optional(),
+    verbose: z.boolean().optional(),
+    filter_tags: z.record(z.unknown()).optional(),
+    use_cache: z.boolean().optional(),
+    occurred_at: dateString.optional(),
+});
+
+const RetrieveConversationSchema = z.object({
+    user_id: z.string().optional(),
+    messages: z.array(ConversationMessageSchema).min(1),
+    limit: z.number().int().min(1).max(100).optional(),
+    local_model_for_retrieval: z.string().optional(),
+    filter_tags: z.record(z.unknown()).optional(),
+    use_cache: z.boolean().optional(),
+    start_date: dateString.optional(),
+    end_date: dateString.optional(),
+    rerank: z.boolean().optional(),
+});
+
+const RetrieveTopicSchema = z.object({
+    user_id: z.string().optional(),
+    topic: z.string().min(1),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    use_cache: z.enum(['true', 'false']).optional(),
+    filter_tags: z.string().optional(),
+});
+
+const SearchSchema = z.object({
+    user_id: z.string().optional(),
+    query: z.string(),
+    memory_type: z.enum([...MEMORY_TYPES, 'all']).optional(),
+    search_field: z.string().optional(),
+    search_method: z.enum(['bm25', 'embedding', 'string_match']).optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    filter_tags: z.string().optional(),
+    similarity_threshold: z.coerce.number().min(0).max(2).optional(),
+    language: z.string().regex(/^[a-z_]+$/).optional(),
+    start_date: dateString.optional(),
+    end_date: dateString.optional(),
+});
+
+const DuplicatesSchema = z.object({
+    user_id: z.string().optional(),
+    memory_type: z.enum([...DEDUPLICATED_MEMORY_TYPES, 'all']).optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+    threshold: z.coerce.number().min(0).max(1).optional(),
+});
+
+const MergeDuplicatesSchema = z.object({
+    memory_type: z.enum(DEDUPLICATED_MEMORY_TYPES),
+    target_id: z.string(),
+    source_ids: z.array(z.string()).min(1),
+});
+
+const ForgettingPolicyScopeSchema = z.object({
+    agent_id: z.string().optional(),
+});
+
+const ForgettingPolicySchema = ForgettingPolicyScopeSchema.extend({
+    action: z.enum(FORGETTING_ACTIONS).optional(),
+    decay_function: z.enum(DECAY_FUNCTIONS).optional(),
+    half_life_days: z.number().positive().optional(),
+    threshold: z.number().min(0).max(1).optional(),
+    min_age_days: z.number().int().min(0).optional(),
+    memory_types: z.array(z.enum(MEMORY_TYPES)).optional(),
+    enabled: z.boolean().optional(),
+});
+
+const MemoryItemParamsSchema = z.object({
+    type: z.enum(MEMORY_TYPES),
+});
+
+const HistorySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const STOP_WORDS = new Set([
+    'about', 'after', 'again', 'also', 'been', 'before', 'could', 'does', 'doing',
+    'from', 'have', 'having', 'here', 'into', 'just', 'like', 'more', 'much',
+    'only', 'other', 'should', 'some', 'than', 'that', 'their', 'them', 'then',
+    'there', 'these', 'they', 'this', 'those', 'very', 'want', 'were', 'what',
+    'when', 'where', 'which', 'while', 'with', 'would', 'your',
+]);
+
+function toActor(auth: AuthContext): ActorContext {
+    return { id: auth.clientId, organizationId: auth.organizationId, apiKeyId: auth.apiKeyId };
+}
+
+/**
+ * Resolve the target user, defaulting to the API key's user
+ */
+async function resolveUser(
+    userId: string | undefined,
+    auth: AuthContext
+): Promise<User> {
+    const id = userId ?? auth.userId;
+    if (!id) {
+        throw new ValidationError('user_id is required', { field: 'user_id' });
+    }
+
+    return userManager.read(id, toActor(auth));
+}
+
+async function resolveUserId(
+    userId: string | undefined,
+    auth: AuthContext
+): Promise<string> {
+    const user = await resolveUser(userId, auth);
+    return user.id;
+}
+
+function parseFilterTags(raw: string | undefined): Record<string, unknown> | undefined {
+    if (!raw) return undefined;
+
+    try {
+        const parsed = JSON.parse(raw);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+            return parsed as Record<string, unknown>;
+        }
+    } catch {
+        // Fall through to validation error
+    }
+
+    throw new ValidationError('filter_tags must be a JSON object', { field: 'filter_tags' });
+}
+
+function parseDateRange(
+    startDate?: string,
+    endDate?: string
+): { startDate?: Date; endDate?: Date } | undefined {
+    if (!startDate && !endDate) return undefined;
+
+    return {
+        startDate: startDate ? new Date(startDate) : undefined,
+        endDate: endDate ? new Date(endDate) : undefined,
+    };
+}
+
+function serializeDateRange(
+    range?: { startDate?: Date; endDate?: Date }
+): { startDate?: string; endDate?: string } | undefined {
+    if (!range) return undefined;
+
+    return {
+        startDate: range.startDate?.toISOString(),
+        endDate: range.endDate?.toISOString(),
+    };
+}
+
+/**
+ * Count the memories returned to the caller as accessed, for ranking and forgetting
+ */
+async function recordAccess(memories: Record<string, unknown[]>, actor: ActorContext): Promise<void> {
+    await memoryRetrievalService.recordAccess(
+        Object.entries(memories).flatMap(([memoryType, items]) =>
+            items.map((item) => ({ memoryType: memoryType as MemoryType, id: (item as { id: string }).id }))
+        ),
+        actor
+    );
+}
+
+function messageText(message: z.infer<typeof ConversationMessageSchema>): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+
+    return message.content
+        .filter((part) => part.type === 'text' && part.text)
+        .map((part) => part.text)
+        .join('\n');
+}
+
+function lastUserMessage(
+    messages: z.infer<typeof ConversationMessageSchema>[]
+): z.infer<typeof ConversationMessageSchema> {
+    return [...messages].reverse().find((m) => m.role === 'user') ?? messages[messages.length - 1];
+}
+
+/**
+ * Pick simple keywords from a user turn
+ */
+function extractKeywords(text: string, maxKeywords: number = 8): string[] {
+    const words = text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length >= 4 && !STOP_WORDS.has(word));
+
+    return [...new Set(words)].slice(0, maxKeywords);
+}
+
+function resolveMemoryTypes(memoryType: MemoryType | 'all' | undefined): MemoryType[] {
+    return !memoryType || memoryType === 'all' ? [...MEMORY_TYPES] : [memoryType];
+}
+
+/**
+ * Embed a search query with the embedding config of the client's meta agent
+ */
+async function embedSearchQuery(query: string, actor: ActorContext): Promise<number[]> {
+    const metaAgent = await agentManager.findByName(META_AGENT_NAME, actor);
+    const config = metaAgent?.embeddingConfig as EmbeddingConfig | null | undefined;
+
+    if (!config?.model || !config.modelEndpointType) {
+        throw new ValidationError('Embedding search requires a meta agent with an embedding config', {
+            field: 'search_method',
+        });
+    }
+
+    const { embedding } = await createEmbeddingClientFromAgentConfig(config).embed(query);
+    return embedding;
+}
+
+/**
+ * LLM config used to rerank retrieval results, preferring the topic extraction model
+ */
+function resolveRerankLlmConfig(agent: { llmConfig: unknown; topicExtractionLlmConfig: unknown }): LLMConfig {
+    const config = (agent.topicExtractionLlmConfig ?? agent.llmConfig) as Partial<LLMConfig> | null;
+
+    if (!config?.model || !config.modelEndpointType) {
+        throw new ValidationError('Reranking requires a meta agent with an LLM config', { field: 'rerank' });
+    }
+
+    return { ...createDefaultLLMConfig(config.model), ...config } as LLMConfig;
+}
+
+/**
+ * Run a full-text, embedding or substring search over the requested memory types
+ */
+async function searchMemories(
+    query: string,
+    options: {
+        memoryType?: MemoryType | 'all';
+        searchField?: string;
+        searchMethod?: 'bm25' | 'embedding' | 'string_match';
+        limit: number;
+        userId?: string;
+        filterTags?: Record<string, unknown>;
+        dateRange?: { startDate?: Date; endDate?: Date };
+        similarityThreshold?: number;
+        language?: string;
+    },
+    actor: ActorContext
+): Promise<Array<Record<string, unknown>>> {
+    const types = resolveMemoryTypes(options.memoryType);
+    const field = options.searchField && options.searchField !== 'null'
+        ? options.searchField
+        : undefined;
+    const method = options.searchMethod ?? 'bm25';
+    const queryEmbedding = method === 'embedding' ? await embedSearchQuery(query, actor) : undefined;
+
+    const perType = await Promise.all(
+        types.map(async (type) => {
+            const manager = MEMORY_MANAGERS[type];
+            const fields = method === 'embedding'
+                ? manager.getEmbeddingFields()
+                : method === 'bm25'
+                    ? manager.getFullTextFields()
+                    : manager.getSearchFields();
+
+            // When searching every type, skip the ones without the requested field
+            if (field && types.length > 1 && !fields.includes(field)) {
+                return [];
+            }
+
+            const searchOptions = {
+                limit: options.limit,
+                userId: options.userId,
+                filterTags: options.filterTags,
+                dateRange: type === 'episodic' ? options.dateRange : undefined,
+            };
+
+            if (queryEmbedding) {
+                const scored = await manager.embeddingSearch(queryEmbedding, field, {
+                    ...searchOptions,
+                    similarityThreshold: options.similarityThreshold,
+                }, actor);
+
+                return scored.map(({ item, score }) => ({
+                    memoryType: type,
+                    ...(item as Record<string, unknown>),
+                    score,
+                }));
+            }
+
+            if (method === 'bm25') {
+                const ranked = await manager.bm25Search(query, field, {
+                    ...searchOptions,
+                    language: options.language,
+                }, actor);
+
+                return ranked.map(({ item, score, snippet, highlights }) => ({
+                    memoryType: type,
+                    ...(item as Record<string, unknown>),
+                    score,
+                    snippet,
+                    highlights,
+                }));
+            }
+
+            const items = await manager.textSearch(query, field, searchOptions, actor);
+
+            return items.map((item) => ({ memoryType: type, ...(item as Record<string, unknown>) }));
+        })
+    );
+
+    const results = perType.flat();
+    await memoryRetrievalService.recordAccess(
+        results.map((result) => ({
+            id: String((result as Record<string, unknown>).id),
+            memoryType: result.memoryType,
+        })),
+        actor
+    );
+
+    return results;
+}
+
+// ============================================================================
+// ADD MEMORY
+// ============================================================================
+
+/**
+ * Queue conversation turns for memory processing
+ */
+memoryRoutes.post('/add', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = AddMemorySchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = toActor(auth);
+    const userId = await resolveUserId(parsed.data.user_id, auth);
+    const metaAgent = await agentManager.read(parsed.data.meta_agent_id, actor);
+
+    // Reject with 429 before storing anything when the organization's queue is full
+    await queueManager.assertCapacity(JobType.PROCESS_CONVERSATION, auth.organizationId);
+
+    const messageIds: string[] = [];
+    for (const message of parsed.data.messages) {
+        const created = await messageManager.create(
+            {
+                id: randomUUID(),
+                organizationId: auth.organizationId,
+                userId,
+                agentId: metaAgent.id,
+                role: message.role,
+                text: messageText(message),
+                content: message.content,
+                filterTags: parsed.data.filter_tags,
+                clientId: auth.clientId,
+            },
+            actor
+        );
+        messageIds.push(created.id);
+    }
+
+    const trace = await traceManager.create(
+        {
+            organizationId: auth.organizationId,
+            clientId: auth.clientId,
+            userId,
+            agentId: metaAgent.id,
+            messageCount: messageIds.length,
+        },
+        actor
+    );
+
+    const jobData: MemoryJobData = {
+        agentId: metaAgent.id,
+        userId,
+        organizationId: auth.organizationId,
+        messageIds,
+        traceId: trace.id,
+        metadata: {
+            clientId: auth.clientId,
+            chaining: parsed.data.chaining ?? false,
+            verbose: parsed.data.verbose ?? false,
+            filterTags: parsed.data.filter_tags,
+            useCache: parsed.data.use_cache ?? true,
+            occurredAt: parsed.data.occurred_at,
+        },
+    };
+
+    const jobId = await queueManager.addJob(JobType.PROCESS_CONVERSATION, jobData);
+    await traceManager.update(trace.id, { jobId }, actor);
+
+    logger.info(
+        { jobId, traceId: trace.id, agentId: metaAgent.id, userId, messageCount: messageIds.length },
+        'Memory add queued'
+    );
+
+    return c.json({
+        success: true,
+        message: 'Memory queued for processing',
+        status: 'queued',
+        jobId,
+        traceId: trace.id,
+        agentId: metaAgent.id,
+        messageCount: messageIds.length,
+    });
+});
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+/**
+ * Retrieve memories relevant to a conversation
+ */
+memoryRoutes.post('/retrieve/conversation', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = RetrieveConversationSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = toActor(auth);
+    const user = await resolveUser(parsed.data.user_id, auth);
+    const userId = user.id;
+    const limit = parsed.data.limit ?? 10;
+    const queryText = messageText(lastUserMessage(parsed.data.messages));
+
+    // Explicit dates win; otherwise infer a range from phrases like "yesterday" in the user's timezone
+    let dateRange = parseDateRange(parsed.data.start_date, parsed.data.end_date);
+    let temporalExpression: string | undefined;
+    if (!dateRange) {
+        const temporal = parseTemporalExpression(queryText, { timezone: user.timezone });
+        if (temporal) {
+            temporalExpression = temporal.expression;
+            dateRange = { startDate: temporal.startDate, endDate: temporal.endDate };
+        }
+    }
+
+    const topics = extractKeywords(
+        temporalExpression ? queryText.replace(temporalExpression, ' ') : queryText
+    );
+    const metaAgent = await agentManager.findByName(META_AGENT_NAME, actor);
+
+    if (parsed.data.rerank && !metaAgent) {
+        throw new ValidationError('Reranking requires an initialized meta agent', { field: 'rerank' });
+    }
+
+    // Fuse across all types, then regroup so each type still honors `limit`
+    const retrieved = await memoryRetrievalService.retrieve(queryText, {
+        limit: limit * MEMORY_TYPES.length,
+        candidateLimit: limit,
+        keywords: topics,
+        userId,
+        filterTags: parsed.data.filter_tags,
+        dateRange,
+        embeddingConfig: metaAgent?.embeddingConfig as EmbeddingConfig | null | undefined,
+        reranker: parsed.data.rerank && metaAgent
+            ? new LLMReranker(resolveRerankLlmConfig(metaAgent))
+            : undefined,
+        // Only the items kept per type below are returned
+        recordAccess: false,
+    }, actor);
+
+    const results = retrieved.map(({ memoryType, item, score, factors, snippet }) => ({
+        memoryType,
+        ...item,
+        score,
+        factors,
+        snippet,
+    }));
+
+    const memories: Record<string, unknown[]> = Object.fromEntries(MEMORY_TYPES.map((type) => [type, []]));
+    for (const result of results) {
+        if (memories[result.memoryType].length < limit) {
+            memories[result.memoryType].push(result);
+        }
+    }
+
+    // Time-scoped questions ("what happened today?") often share no keywords with
+    // the events, so top up episodic memory with everything in the range
+    if (dateRange && memories.episodic.length < limit) {
+        const seen = new Set(memories.episodic.map((item) => (item as { id: string }).id));
+        const events = await episodicMemoryManager.getEventsInRange(
+            undefined,
+            dateRange.startDate,
+            dateRange.endDate,
+            actor,
+            { userId, filterTags: parsed.data.filter_tags, limit }
+        );
+
+        for (const event of events) {
+            if (memories.episodic.length >= limit) break;
+            if (!seen.has(event.id)) {
+                memories.episodic.push({ memoryType: 'episodic', ...event });
+            }
+        }
+    }
+
+    await recordAccess(memories, actor);
+
+    return c.json({
+        success: true,
+        topics,
+        temporalExpression,
+        dateRange: serializeDateRange(dateRange),
+        memories,
+        results,
+    });
+});
+
+/**
+ * Retrieve memories for a topic
+ */
+memoryRoutes.get('/retrieve/topic', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = RetrieveTopicSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = toActor(auth);
+    const userId = await resolveUserId(parsed.data.user_id, auth);
+    const filterTags = parseFilterTags(parsed.data.filter_tags);
+    const limit = parsed.data.limit ?? 10;
+
+    const memories: Record<string, unknown[]> = {};
+    await Promise.all(
+        MEMORY_TYPES.map(async (type) => {
+            memories[type] = await MEMORY_MANAGERS[type].textSearch(parsed.data.topic, undefined, {
+                limit,
+                userId,
+                filterTags,
+            }, actor);
+        })
+    );
+
+    await recordAccess(memories, actor);
+
+    return c.json({
+        success: true,
+        topics: [parsed.data.topic],
+        memories,
+    });
+});
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Search a user's memories
+ */
+memoryRoutes.get('/search', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = SearchSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const userId = await resolveUserId(parsed.data.user_id, auth);
+    const dateRange = parseDateRange(parsed.data.start_date, parsed.data.end_date);
+
+    const results = await searchMemories(
+        parsed.data.query,
+        {
+            memoryType: parsed.data.memory_type,
+            searchField: parsed.data.search_field,
+            searchMethod: parsed.data.search_method,
+            limit: parsed.data.limit ?? 10,
+            userId,
+            filterTags: parseFilterTags(parsed.data.filter_tags),
+            dateRange,
+            similarityThreshold: parsed.data.similarity_threshold,
+            language: parsed.data.language,
+        },
+        toActor(auth)
+    );
+
+    return c.json({
+        success: true,
+        query: parsed.data.query,
+        memoryType: parsed.data.memory_type ?? 'all',
+        searchField: parsed.data.search_field ?? 'null',
+        searchMethod: parsed.data.search_method ?? 'bm25',
+        dateRange: serializeDateRange(dateRange),
+        results,
+        count: results.length,
+    });
+});
+
+/**
+ * Search memories across all users in the organization
+ */
+memoryRoutes.get('/search_all_users', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = SearchSchema.omit({ user_id: true }).safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = toActor(auth);
+    const client = await clientManager.read(auth.clientId, actor);
+    const dateRange = parseDateRange(parsed.data.start_date, parsed.data.end_date);
+
+    const results = await searchMemories(
+        parsed.data.query,
+        {
+            memoryType: parsed.data.memory_type,
+            searchField: parsed.data.search_field,
+            searchMethod: parsed.data.search_method,
+            limit: parsed.data.limit ?? 10,
+            filterTags: parseFilterTags(parsed.data.filter_tags),
+            dateRange,
+            similarityThreshold: parsed.data.similarity_threshold,
+            language: parsed.data.language,
+        },
+        actor
+    );
+
+    return c.json({
+        success: true,
+        query: parsed.data.query,
+        memoryType: parsed.data.memory_type ?? 'all',
+        searchField: parsed.data.search_field ?? 'null',
+        searchMethod: parsed.data.search_method ?? 'bm25',
+        dateRange: serializeDateRange(dateRange),
+        results,
+        count: results.length,
+        clientId: auth.clientId,
+        organizationId: auth.organizationId,
+        clientScope: client.scope,
+    });
+});
+
+// ============================================================================
+// DUPLICATES
+// ============================================================================
+
+/**
+ * Report pairs of a user's semantic and resource memories that look like
+ * duplicates, by summary similarity or equal normalized names
+ */
+memoryRoutes.get('/duplicates', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = DuplicatesSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const userId = await resolveUserId(parsed.data.user_id, auth);
+    const memoryType = parsed.data.memory_type ?? 'all';
+    const limit = parsed.data.limit ?? 50;
+    const memoryTypes = memoryType === 'all' ? DEDUPLICATED_MEMORY_TYPES : [memoryType];
+
+    const pairs = (
+        await Promise.all(
+            memoryTypes.map((type) =>
+                memoryDuplicateService.findDuplicates(
+                    type,
+                    { userId, limit, threshold: parsed.data.threshold },
+                    toActor(auth)
+                )
+            )
+        )
+    )
+        .flat()
+        .sort((a, b) => (b.similarity ?? 1) - (a.similarity ?? 1))
+        .slice(0, limit);
+
+    return c.json({
+        success: true,
+        userId,
+        memoryType,
+        duplicates: pairs,
+        count: pairs.length,
+    });
+});
+
+/**
+ * Merge duplicate items into a target item. The sources are soft-deleted and
+ * their lastModify history is carried over to the target.
+ */
+memoryRoutes.post('/duplicates/merge', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = MergeDuplicatesSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const { memory_type: memoryType, target_id: targetId, source_ids: sourceIds } = parsed.data;
+    const item = await memoryDuplicateService.merge(memoryType, targetId, sourceIds, toActor(auth));
+
+    // Resource items only embed their summary, which a merge keeps
+    if (memoryType === 'semantic' && item.agentId) {
+        const embedding = await memoryProcessor.resolveEmbedding(item.agentId);
+        await memoryProcessor.writeEmbeddings(embedding?.client, 'semantic', item.id, {
+            details: item.body,
+        });
+    }
+
+    const { label: _label, body: _body, ...record } = item;
+
+    return c.json({
+        success: true,
+        memoryType,
+        item: record,
+        mergedFrom: sourceIds.filter((id) => id !== targetId),
+    });
+});
+
+// ============================================================================
+// FORGETTING POLICIES
+// ============================================================================
+
+/**
+ * List the organization's forgetting policies and the defaults used where
+ * none applies
+ */
+memoryRoutes.get('/forgetting-policies', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const policies = await memoryForgettingService.listPolicies(toActor(auth));
+
+    return c.json({
+        success: true,
+        policies,
+        defaults: memoryForgettingService.getDefaultPolicy(),
+    });
+});
+
+/**
+ * Create or replace the forgetting policy of the organization, or of one of
+ * its agents when agent_id is given
+ */
+memoryRoutes.put('/forgetting-policies', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = ForgettingPolicySchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = toActor(auth);
+    const agentId = parsed.data.agent_id ?? null;
+    if (agentId) {
+        await agentManager.read(agentId, actor);
+    }
+
+    const policy = await memoryForgettingService.upsertPolicy(agentId, {
+        action: parsed.data.action,
+        decayFunction: parsed.data.decay_function,
+        halfLifeDays: parsed.data.half_life_days,
+        threshold: parsed.data.threshold,
+        minAgeDays: parsed.data.min_age_days,
+        memoryTypes: parsed.data.memory_types,
+        enabled: parsed.data.enabled,
+    }, actor);
+
+    return c.json({ success: true, policy });
+});
+
+/**
+ * Remove a forgetting policy; its items fall back to the organization policy
+ * or the defaults
+ */
+memoryRoutes.delete('/forgetting-policies', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+
+    const parsed = ForgettingPolicyScopeSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const policy = await memoryForgettingService.deletePolicy(parsed.data.agent_id ?? null, toActor(auth));
+
+    return c.json({ success: true, policy });
+});
+
+// ============================================================================
+// REVISION HISTORY
+// ============================================================================
+
+/**
+ * List the revisions of a memory item, newest first. Deleted items keep
+ * their history so they can be restored.
+ */
+memoryRoutes.get('/:type/:id/history', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const params = MemoryItemParamsSchema.safeParse({ type: c.req.param('type') });
+    if (!params.success) {
+        throw new ValidationError('Invalid memory type', {
+            details: formatZodErrors(params.error.errors),
+        });
+    }
+
+    const parsed = HistorySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const memoryType = params.data.type;
+    const actor = toActor(auth);
+
+    // Checks that the item exists in the caller's organization
+    await MEMORY_MANAGERS[memoryType].read(id, actor, { includeDeleted: true });
+    const revisions = await memoryRevisionService.listRevisions(memoryType, id, actor, {
+        limit: parsed.data.limit,
+    });
+
+    return c.json({ success: true, memoryType, itemId: id, revisions });
+});
+
+/**
+ * Restore a memory item to one of its revisions and re-embed its content
+ */
+memoryRoutes.post('/:type/:id/revert/:revisionId', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    const revisionId = c.req.param('revisionId');
+
+    const params = MemoryItemParamsSchema.safeParse({ type: c.req.param('type') });
+    if (!params.success) {
+        throw new ValidationError('Invalid memory type', {
+            details: formatZodErrors(params.error.errors),
+        });
+    }
+
+    const memoryType = params.data.type;
+    const item = await MEMORY_MANAGERS[memoryType].revert(id, revisionId, toActor(auth));
+
+    await memoryProcessor.refreshEmbeddings(memoryType, item as { id: string; agentId: string | null });
+
+    return c.json({ success: true, memoryType, item, revertedTo: revisionId });
+});
+
+// ============================================================================
+// PROVENANCE
+// ============================================================================
+
+/**
+ * Show where a memory item came from: the conversation messages, queue and
+ * agent traces, and the sub-agent behind each write to it
+ */
+memoryRoutes.get('/:type/:id/provenance', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const params = MemoryItemParamsSchema.safeParse({ type: c.req.param('type') });
+    if (!params.success) {
+        throw new ValidationError('Invalid memory type', {
+            details: formatZodErrors(params.error.errors),
+        });
+    }
+
+    const memoryType = params.data.type;
+    const actor = toActor(auth);
+
+    // Checks that the item exists in the caller's organization
+    await MEMORY_MANAGERS[memoryType].read(id, actor, { includeDeleted: true });
+    const provenance = await memoryProvenanceService.listProvenance(memoryType, id, actor);
+
+    return c.json({ success: true, memoryType, itemId: id, provenance });
+});
+
+// ============================================================================
+// KNOWLEDGE SECRETS
+// ============================================================================
+
+/**
+ * Decrypt the secret value of a knowledge item. Secrets are masked in every
+ * other response; each reveal is recorded in the secret access log.
+ */
+memoryRoutes.post('/knowledge/:id/reveal', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const secretValue = await knowledgeMemoryManager.revealSecret(id, toActor(auth));
+
+    return c.json({ success: true, id, secretValue });
+});
+
+export default memoryRoutes;
@@ -0,0 +1,114 @@
+/**
+ * Meta Agent Routes
+ * REST API endpoints for setting up the meta agent and its memory sub-agents
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { initializeMetaAgent } from '../../agent/meta-agent';
+import { LLMConfigSchema } from '../../schemas/llm_config';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { ValidationError } from '../../errors';
+import { logger } from '../../log';
+
+// Helper to format Zod errors
+function formatZodErrors(errors: z.ZodIssue[]): string {
+    return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export const metaAgentRoutes = new Hono();
+
+// Apply auth middleware to all routes
+metaAgentRoutes.use('*', authMiddleware);
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const EmbeddingConfigSchema = z.object({
+    embeddingModel: z.string(),
+    embeddingEndpoint: z.string().optional(),
+    embeddingEndpointType: z.string(),
+    embeddingDim: z.number().int().positive(),
+    apiKey: z.string().optional(),
+});
+
+const MetaAgentConfigSchema = z.object({
+    systemPromptsFolder: z.string().optional(),
+    systemPrompts: z.record(z.string()).optional(),
+    agents: z.array(z.string()).optional(),
+    memory: z.object({
+        core: z.array(z.object({ label: z.string(), value: z.string() })).optional(),
+        decay: z.object({
+            fadeAfterDays: z.number().optional(),
+            expireAfterDays: z.number().optional(),
+        }).optional(),
+    }).optional(),
+});
+
+const InitializeMetaAgentSchema = z.object({
+    config: z.object({
+        llmConfig: LLMConfigSchema.optional(),
+        topicExtractionLlmConfig: LLMConfigSchema.optional(),
+        buildEmbeddingsForMemory: z.boolean().optional(),
+        embeddingConfig: EmbeddingConfigSchema.optional(),
+        metaAgentConfig: MetaAgentConfigSchema.optional(),
+    }),
+    update_agents: z.boolean().optional(),
+});
+
+// ============================================================================
+// META AGENT OPERATIONS
+// ============================================================================
+
+/**
+ * Initialize the meta agent for the authenticated client
+ */
+metaAgentRoutes.post('/meta/initialize', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = InitializeMetaAgentSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const { config } = parsed.data;
+    const metaConfig = config.metaAgentConfig;
+    const embedding = config.buildEmbeddingsForMemory !== false ? config.embeddingConfig : undefined;
+
+    const metaAgent = await initializeMetaAgent({
+        actor: { id: auth.clientId, organizationId: auth.organizationId },
+        userId: auth.userId ?? auth.clientId,
+        llmConfig: config.llmConfig,
+        topicExtractionLlmConfig: config.topicExtractionLlmConfig,
+        embeddingConfig: embedding
+            ? {
+                model: embedding.embeddingModel,
+                modelEndpointType: embedding.embeddingEndpointType,
+                modelEndpoint: embedding.embeddingEndpoint,
+                embeddingDim: embedding.embeddingDim,
+                apiKey: embedding.apiKey,
+            }
+            : undefined,
+        memoryConfig: metaConfig?.memory?.decay,
+        coreMemory: metaConfig?.memory?.core,
+        // Client-level keys have no user; blocks are created per user later
+        coreMemoryUserId: auth.userId,
+        agents: metaConfig?.agents,
+        systemPrompts: metaConfig?.systemPrompts,
+        systemPromptFolder: metaConfig?.systemPromptsFolder,
+        updateAgents: parsed.data.update_agents ?? true,
+    });
+
+    logger.info(
+        { agentId: metaAgent.agentId, subAgents: metaAgent.agents.size },
+        'Meta agent initialized'
+    );
+
+    return c.json(metaAgent.currentState.agent);
+});
+
+export default metaAgentRoutes;
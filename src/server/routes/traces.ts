@@ -0,0 +1,165 @@
+/**
+ * Trace Routes
+ * REST API endpoints for inspecting and interrupting memory processing traces
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { TraceStatus } from '@prisma/client';
+import { traceManager } from '../../services/trace-manager';
+import { queueManager } from '../../queue/manager';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { ValidationError } from '../../errors';
+import { logger } from '../../log';
+
+// Helper to format Zod errors
+function formatZodErrors(errors: z.ZodIssue[]): string {
+    return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export const traceRoutes = new Hono();
+
+// Apply auth middleware to all routes
+traceRoutes.use('*', authMiddleware);
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const TRACE_STATUSES = Object.values(TraceStatus) as [TraceStatus, ...TraceStatus[]];
+
+const ListTracesSchema = z.object({
+    userId: z.string().optional(),
+    agentId: z.string().optional(),
+    /** Comma-separated statuses, e.g. "queued,processing" */
+    status: z
+        .string()
+        .transform((value) => value.split(',').map((s) => s.trim()).filter(Boolean))
+        .pipe(z.array(z.enum(TRACE_STATUSES)))
+        .optional(),
+    limit: z.coerce.number().min(1).max(100).optional(),
+    cursor: z.string().optional(),
+    startDate: z.string().datetime().optional(),
+    endDate: z.string().datetime().optional(),
+    includeUsage: z.enum(['true', 'false']).optional(),
+});
+
+const InterruptTraceSchema = z.object({
+    reason: z.string().min(1).max(1000).optional(),
+});
+
+// ============================================================================
+// LIST TRACES
+// ============================================================================
+
+/**
+ * List memory queue traces for the organization, filtered by user, agent or status
+ */
+traceRoutes.get('/', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const query = c.req.query();
+
+    const parsed = ListTracesSchema.safeParse(query);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid query parameters', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const result = await traceManager.listTraces(
+        { id: auth.clientId, organizationId: auth.organizationId },
+        {
+            limit: parsed.data.limit ?? 50,
+            cursor: parsed.data.cursor,
+            userId: parsed.data.userId,
+            agentId: parsed.data.agentId,
+            status: parsed.data.status,
+            startDate: parsed.data.startDate ? new Date(parsed.data.startDate) : undefined,
+            endDate: parsed.data.endDate ? new Date(parsed.data.endDate) : undefined,
+            includeUsage: parsed.data.includeUsage === 'true',
+        }
+    );
+
+    return c.json({
+        traces: result.items,
+        total: result.total,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+    });
+});
+
+// ============================================================================
+// TRACE DETAILS
+// ============================================================================
+
+/**
+ * Get a trace with its agent runs nested by parent and their tool calls,
+ * ordered by start time for timeline views
+ */
+traceRoutes.get('/:id', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const trace = await traceManager.getTraceTree(
+        id,
+        { id: auth.clientId, organizationId: auth.organizationId }
+    );
+
+    return c.json({ trace });
+});
+
+/**
+ * Get token and cost totals for a trace, in total and per agent
+ */
+traceRoutes.get('/:id/usage', requirePermission('read_only'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+
+    const usage = await traceManager.getTraceUsage(
+        id,
+        { id: auth.clientId, organizationId: auth.organizationId }
+    );
+
+    return c.json(usage);
+});
+
+// ============================================================================
+// INTERRUPT
+// ============================================================================
+
+/**
+ * Interrupt a queued or running trace. A queued job is dropped and its trace
+ * failed right away; a running one stops at its next agent step boundary and
+ * the worker fails the trace with the reason.
+ */
+traceRoutes.post('/:id/interrupt', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const id = c.req.param('id');
+    // The body is optional
+    const body = await c.req.json().catch(() => ({}));
+
+    const parsed = InterruptTraceSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = { id: auth.clientId, organizationId: auth.organizationId };
+    const reason = parsed.data.reason ?? 'Interrupted by client';
+
+    let trace = await traceManager.requestInterrupt(id, reason, actor);
+    const job = trace.jobId ? await queueManager.cancel(trace.jobId, reason) : 'not_found';
+
+    // A job removed before it started never reports back, so close its trace here
+    if (job === 'cancelled') {
+        trace = await traceManager.completeQueueTrace(trace.id, {
+            success: false,
+            errorMessage: `Interrupted: ${reason}`,
+        });
+    }
+
+    logger.info({ traceId: id, jobId: trace.jobId, job, reason }, 'Trace interrupt requested');
+
+    return c.json({ trace, job });
+});
@@ -0,0 +1,74 @@
+/**
+ * User Routes
+ * REST API endpoints for user bootstrap operations
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { userManager } from '../../services/user-manager';
+import { ensureUserCoreMemory } from '../../agent/meta-agent';
+import { authMiddleware, requirePermission } from '../middleware/auth';
+import { ValidationError } from '../../errors';
+import { logger } from '../../log';
+
+// Helper to format Zod errors
+function formatZodErrors(errors: z.ZodIssue[]): string {
+    return errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
+
+export const userRoutes = new Hono();
+
+// Apply auth middleware to all routes
+userRoutes.use('*', authMiddleware);
+
+// ============================================================================
+// VALIDATION SCHEMAS
+// ============================================================================
+
+const CreateOrGetUserSchema = z.object({
+    user_id: z.string().min(1).optional(),
+    name: z.string().min(1).optional(),
+}).refine((data) => data.user_id || data.name, {
+    message: 'Either user_id or name is required',
+});
+
+// ============================================================================
+// USER OPERATIONS
+// ============================================================================
+
+/**
+ * Create a user under the client's organization, or return the existing one
+ */
+userRoutes.post('/create_or_get', requirePermission('all'), async (c) => {
+    const auth = c.get('auth');
+    const body = await c.req.json();
+
+    const parsed = CreateOrGetUserSchema.safeParse(body);
+    if (!parsed.success) {
+        throw new ValidationError('Invalid request body', {
+            details: formatZodErrors(parsed.error.errors),
+        });
+    }
+
+    const actor = { id: auth.clientId, organizationId: auth.organizationId };
+    const { user, created } = await userManager.createOrGet(
+        {
+            id: parsed.data.user_id,
+            name: parsed.data.name ?? parsed.data.user_id!,
+            organizationId: auth.organizationId,
+            clientId: auth.clientId,
+        },
+        actor
+    );
+
+    if (created) {
+        logger.info({ userId: user.id }, 'User created');
+    }
+
+    // Give the user the meta agent's core memory blocks, if it has any yet
+    await ensureUserCoreMemory(user.id, actor);
+
+    return c.json(user, created ? 201 : 200);
+});
+
+export default userRoutes;
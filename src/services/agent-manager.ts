@@ -8,6 +8,7 @@ import { Prisma } from '@prisma/client';
 import type { Agent, AgentType, Tool, Block } from '@prisma/client';
 import { BaseManager, CacheConfig, ActorContext, ListOptions, ListResult } from './base-manager';
 import { RedisMemoryClient } from '../database/redis-client';
+import { blockManager } from './block-manager';
 import { ValidationError, NotFoundError } from '../errors';
 import { LLMConfigSchema } from '../schemas/llm_config';
 import type { LLMConfig } from '../schemas/llm_config';
@@ -50,14 +51,25 @@ export interface EmbeddingConfig {
     modelEndpointType: string;
     modelEndpoint?: string;
     embeddingDim: number;
+    apiKey?: string;
 }
 
 /**
  * Memory configuration
  */
+/**
+ * Core memory block created for each user of a meta agent
+ */
+export interface CoreBlockTemplate {
+    label: string;
+    value: string;
+}
+
 export interface MemoryConfig {
     fadeAfterDays?: number;
     expireAfterDays?: number;
+    /** Set on meta agents only */
+    coreBlocks?: CoreBlockTemplate[];
 }
 
 export interface CreateAgentInput {
@@ -227,6 +239,31 @@ class AgentManager extends BaseManager<
         } as AgentWithRelations;
     }
 
+    /**
+     * Find an agent by name, scoped to the actor's client
+     */
+    async findByName(
+        name: string,
+        actor: ActorContext,
+        options: { parentId?: string } = {}
+    ): Promise<Agent | null> {
+        const where: Prisma.AgentWhereInput = {
+            name,
+            organizationId: actor.organizationId,
+            createdById: actor.id, // Client-level isolation
+            isDeleted: false,
+        };
+
+        if (options.parentId !== undefined) {
+            where.parentId = options.parentId;
+        }
+
+        return this.getDelegate().findFirst({
+            where,
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
     /**
      * List agents with additional filters
      */
@@ -519,12 +556,11 @@ class AgentManager extends BaseManager<
     }
 
     /**
-     * Update a core memory block
+     * Get a core memory block by label
      */
-    async updateCoreMemoryBlock(
+    async getCoreMemoryBlock(
         agentId: string,
         label: string,
-        value: string,
         actor?: ActorContext
     ): Promise<Block> {
         // Verify agent access
@@ -542,6 +578,20 @@ class AgentManager extends BaseManager<
             throw new NotFoundError('Block', `${agentId}/${label}`);
         }
 
+        return block;
+    }
+
+    /**
+     * Update a core memory block
+     */
+    async updateCoreMemoryBlock(
+        agentId: string,
+        label: string,
+        value: string,
+        actor?: ActorContext
+    ): Promise<Block> {
+        const block = await this.getCoreMemoryBlock(agentId, label, actor);
+
         // Validate value length
         if (value.length > block.limit) {
             throw new ValidationError('Block value exceeds limit', {
@@ -549,14 +599,8 @@ class AgentManager extends BaseManager<
             });
         }
 
-        return this.prisma.block.update({
-            where: { id: block.id },
-            data: {
-                value,
-                updatedAt: new Date(),
-                lastUpdatedById: actor?.id,
-            },
-        });
+        // Through the block manager so the change is cached and revisioned
+        return blockManager.update(block.id, { value }, actor);
     }
 
     // ========================================================================
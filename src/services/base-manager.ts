@@ -39,6 +39,12 @@ export interface ActorContext {
     organizationId: string;
     userId?: string;
     permissions?: AccessPermission[];
+    /** Agent making the change through a memory tool */
+    agentId?: string;
+    /** API key the request was authenticated with */
+    apiKeyId?: string;
+    /** Memory agent trace the change belongs to */
+    traceId?: string;
 }
 
 /**
@@ -1,12 +1,14 @@
 /**
  * Block Manager
- * Provides CRUD operations for blocks (core memory blocks)
+ * Provides CRUD operations for blocks (core memory blocks). Every change is
+ * recorded as a revision so a block can be reverted.
  */
 
 import { Block, Prisma } from '@prisma/client';
 import { BaseManager, CacheConfig, ActorContext, ListOptions, ListResult } from './base-manager';
 import { RedisMemoryClient } from '../database/redis-client';
 import { ValidationError } from '../errors';
+import { memoryRevisionService } from './memory/revision-service';
 
 // ============================================================================
 // TYPES
@@ -77,7 +79,73 @@ class BlockManager extends BaseManager<
             });
         }
 
-        return super.create(data, actor);
+        const block = await super.create(data, actor);
+        await memoryRevisionService.record('block', null, block, 'created', actor);
+
+        return block;
+    }
+
+    async update(
+        id: string,
+        data: UpdateBlockInput,
+        actor?: ActorContext
+    ): Promise<Block> {
+        const existing = await this.read(id, actor);
+        const block = await super.update(id, data, actor);
+        await memoryRevisionService.record('block', existing, block, 'updated', actor);
+
+        return block;
+    }
+
+    async delete(
+        id: string,
+        actor?: ActorContext
+    ): Promise<Block> {
+        const existing = await this.read(id, actor);
+        const block = await super.delete(id, actor);
+        await memoryRevisionService.record('block', existing, block, 'deleted', actor);
+
+        return block;
+    }
+
+    /**
+     * Restore the label, value and limit a block had at one of its revisions.
+     * A deleted block is restored when the revision predates the deletion.
+     */
+    async revert(
+        id: string,
+        revisionId: string,
+        actor: ActorContext
+    ): Promise<Block> {
+        const existing = await this.read(id, actor, { includeDeleted: true });
+        const revision = await memoryRevisionService.getRevision(revisionId, 'block', id, actor);
+        const snapshot = revision.snapshot as Partial<Record<keyof Block, unknown>>;
+
+        const block: Block = await this.getDelegate().update({
+            where: { id },
+            data: {
+                label: snapshot.label as string,
+                value: snapshot.value as string,
+                limit: snapshot.limit as number,
+                isDeleted: snapshot.isDeleted === true,
+                updatedAt: new Date(),
+                lastUpdatedById: actor.id,
+            },
+        });
+
+        if (block.isDeleted) {
+            await this.removeFromCache(id);
+        } else {
+            await this.updateCache(id, block, 'update');
+        }
+
+        this.logger.info({ id, revisionId, actor: actor.id }, 'Reverted Block');
+
+        await memoryRevisionService.record('block', existing, block, 'reverted', actor, {
+            revertedToId: revision.id,
+        });
+
+        return block;
     }
 
     async findByLabel(
@@ -93,15 +161,23 @@ class BlockManager extends BaseManager<
         });
     }
 
+    /**
+     * Blocks of an agent, optionally only those of one user
+     */
     async getAgentBlocks(
         agentId: string,
-        actor?: ActorContext
+        actor?: ActorContext,
+        userId?: string
     ): Promise<Block[]> {
         const where: Prisma.BlockWhereInput = {
             agentId,
             isDeleted: false,
         };
 
+        if (userId) {
+            where.userId = userId;
+        }
+
         if (actor) {
             where.organizationId = actor.organizationId;
         }
@@ -38,6 +38,7 @@ export {
     type ToolRule,
     type EmbeddingConfig,
     type MemoryConfig,
+    type CoreBlockTemplate,
     type CreateAgentInput,
     type UpdateAgentInput,
     type AgentListOptions,
@@ -83,6 +84,7 @@ export {
     type CreateStepInput,
     type UpdateStepInput,
     type StepListOptions,
+    type StepMessage,
 } from './step-manager';
 
 // Provider manager
@@ -103,11 +105,32 @@ export {
     type UpdateCloudMappingInput,
 } from './file-manager';
 
+// Trace manager
+export {
+    traceManager,
+    type CreateQueueTraceInput,
+    type UpdateQueueTraceInput,
+    type StartAgentTraceInput,
+    type CompleteAgentTraceInput,
+    type StartToolCallInput,
+    type CompleteToolCallInput,
+    type TraceListOptions,
+    type TraceUsage,
+    type AgentTraceNode,
+    type QueueTraceTree,
+    type QueueTraceUsage,
+} from './trace-manager';
+
 // Memory managers
 export {
     // Base memory manager
     BaseMemoryManager,
     type MemoryListOptions,
+    type MemorySearchOptions,
+    type EmbeddingSearchOptions,
+    type ScoredMemory,
+    type FullTextSearchOptions,
+    type RankedMemory,
     type CacheConfig as MemoryCacheConfig,
     // Episodic memory
     episodicMemoryManager,
@@ -130,4 +153,13 @@ export {
     knowledgeMemoryManager,
     type CreateKnowledgeItemInput,
     type UpdateKnowledgeItemInput,
+    // Hybrid retrieval
+    memoryRetrievalService,
+    MemoryRetrievalService,
+    type HybridRetrievalOptions,
+    type RetrievedMemory,
+    NoopReranker,
+    LLMReranker,
+    type Reranker,
+    type RerankCandidate,
 } from './memory/index';
@@ -6,8 +6,20 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { prismaRaw } from '../../database/prisma-client';
 import { logger } from '../../log';
-import { NotFoundError, ValidationError } from '../../errors';
+import { ConfigurationError, NotFoundError, ValidationError } from '../../errors';
 import { ActorContext, ListResult } from '../base-manager';
+import { MEMORY_EMBEDDING_DIM } from '../../constants';
+import { padEmbeddingToDim } from '../../schemas/memory';
+import { memoryRevisionService } from './revision-service';
+import { memoryProvenanceService, MemoryProvenanceSource } from './provenance-service';
+import type { MemoryType } from './retrieval-service';
+import {
+    FULL_TEXT_COLUMNS,
+    getFullTextLanguage,
+    isFullTextSearchReady,
+    isValidFullTextLanguage,
+    tsvectorExpression,
+} from '../../database/full-text-search';
 
 // ============================================================================
 // TYPES
@@ -20,9 +32,49 @@ export interface MemoryListOptions {
     startDate?: Date;
     endDate?: Date;
     includeDeleted?: boolean;
+    /** Include items archived by a forgetting policy */
+    includeArchived?: boolean;
     agentId?: string;
 }
 
+export interface MemorySearchOptions {
+    limit?: number;
+    userId?: string;
+    filterTags?: Record<string, unknown>;
+    dateRange?: { startDate?: Date; endDate?: Date };
+    /** Include items archived by a forgetting policy */
+    includeArchived?: boolean;
+}
+
+export interface EmbeddingSearchOptions extends MemorySearchOptions {
+    /** Maximum cosine distance (0-2) for a result to be returned */
+    similarityThreshold?: number;
+}
+
+export interface ScoredMemory<TModel> {
+    item: TModel;
+    /** Cosine similarity, 1 - cosine distance */
+    score: number;
+    distance: number;
+}
+
+export interface FullTextSearchOptions extends MemorySearchOptions {
+    /** Postgres text search configuration, e.g. 'english' or 'simple' */
+    language?: string;
+}
+
+export interface RankedMemory<TModel> {
+    item: TModel;
+    /** ts_rank_cd score normalized to 0-1 */
+    score: number;
+    /** Best matching fragments with matches wrapped in <mark></mark> */
+    snippet: string;
+    /** Distinct matched terms as they appear in the snippet */
+    highlights: string[];
+}
+
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" ... "';
+
 export interface CacheConfig {
     enabled: boolean;
     prefix: string;
@@ -36,12 +88,42 @@ export interface CacheConfig {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyDelegate = any;
 
+/**
+ * Columns a revert leaves as they are: identity and ownership, audit and
+ * usage bookkeeping, and the embedding model the vectors were built with
+ */
+const REVERT_KEPT_FIELDS = new Set([
+    'id',
+    'organizationId',
+    'userId',
+    'agentId',
+    'clientId',
+    'createdAt',
+    'updatedAt',
+    'createdById',
+    'lastUpdatedById',
+    'lastModify',
+    'accessCount',
+    'lastAccessedAt',
+    'embeddingConfig',
+]);
+
 export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
     protected readonly prisma: PrismaClient;
     protected readonly logger = logger;
 
     protected abstract readonly modelName: string;
+    /** Item type revisions of this memory are recorded under */
+    protected abstract readonly memoryType: MemoryType;
     protected abstract readonly cacheConfig: CacheConfig;
+    protected abstract readonly searchFields: readonly string[];
+    /** Database table backing this memory type */
+    protected abstract readonly tableName: string;
+    /** Embeddable text fields mapped to their pgvector columns */
+    protected abstract readonly embeddingColumns: Readonly<Record<string, string>>;
+
+    /** Timestamp column used for date range filtering */
+    protected readonly dateField: string = 'createdAt';
 
     protected abstract getDelegate(): AnyDelegate;
 
@@ -65,7 +147,19 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
                 `Created ${this.modelName}`
             );
 
-            return result;
+            await memoryRevisionService.record(this.memoryType, null, result, 'created', actor);
+
+            const { provenance } = data as { provenance?: MemoryProvenanceSource };
+            if (provenance) {
+                await memoryProvenanceService.record(
+                    this.memoryType,
+                    this.getRecordId(result),
+                    provenance,
+                    (result as { organizationId?: string | null }).organizationId ?? null
+                );
+            }
+
+            return this.presentRecord(result);
         } catch (error) {
             this.handleDatabaseError(error, 'create');
             throw error;
@@ -76,6 +170,17 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
         id: string,
         actor?: ActorContext,
         options?: { includeDeleted?: boolean }
+    ): Promise<TModel> {
+        return this.presentRecord(await this.readRecord(id, actor, options));
+    }
+
+    /**
+     * Read a record as stored, before presentRecord
+     */
+    protected async readRecord(
+        id: string,
+        actor?: ActorContext,
+        options?: { includeDeleted?: boolean }
     ): Promise<TModel> {
         this.logger.debug({ id, actor: actor?.id }, `Reading ${this.modelName}`);
 
@@ -99,9 +204,10 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
     ): Promise<TModel> {
         this.logger.debug({ id, data, actor: actor?.id }, `Updating ${this.modelName}`);
 
-        await this.read(id, actor);
+        const existing = await this.readRecord(id, actor);
 
-        const updateData = this.prepareUpdateData(data, actor);
+        const updateData = this.prepareUpdateData(data, actor) as Record<string, unknown>;
+        this.carryLastModifyHistory(existing, updateData);
 
         try {
             const result = await this.getDelegate().update({
@@ -111,7 +217,9 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
 
             this.logger.info({ id, actor: actor?.id }, `Updated ${this.modelName}`);
 
-            return result;
+            await memoryRevisionService.record(this.memoryType, existing, result, 'updated', actor);
+
+            return this.presentRecord(result);
         } catch (error) {
             this.handleDatabaseError(error, 'update', id);
             throw error;
@@ -124,7 +232,7 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
     ): Promise<TModel> {
         this.logger.debug({ id, actor: actor?.id }, `Deleting ${this.modelName}`);
 
-        await this.read(id, actor);
+        const existing = await this.readRecord(id, actor);
 
         try {
             const result = await this.getDelegate().update({
@@ -138,13 +246,80 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
 
             this.logger.info({ id, actor: actor?.id }, `Deleted ${this.modelName}`);
 
-            return result;
+            await memoryRevisionService.record(this.memoryType, existing, result, 'deleted', actor);
+
+            return this.presentRecord(result);
         } catch (error) {
             this.handleDatabaseError(error, 'delete', id);
             throw error;
         }
     }
 
+    /**
+     * Restore an item to the snapshot stored in one of its revisions. Deleted
+     * and archived items are restored too when the snapshot predates that.
+     * Ownership, audit and usage columns are kept; embeddings are left to the
+     * caller, which knows the agent's embedding model.
+     */
+    async revert(
+        id: string,
+        revisionId: string,
+        actor: ActorContext
+    ): Promise<TModel> {
+        this.logger.debug({ id, revisionId, actor: actor.id }, `Reverting ${this.modelName}`);
+
+        const existing = await this.readRecord(id, actor, { includeDeleted: true });
+        const revision = await memoryRevisionService.getRevision(revisionId, this.memoryType, id, actor);
+
+        const revertData = this.snapshotToUpdateData(revision.snapshot as Record<string, unknown>);
+        revertData.updatedAt = new Date();
+        revertData.lastUpdatedById = actor.id;
+        revertData.lastModify = { timestamp: new Date().toISOString(), operation: 'reverted' };
+        this.carryLastModifyHistory(existing, revertData);
+
+        try {
+            const result = await this.getDelegate().update({
+                where: { id },
+                data: revertData,
+            });
+
+            this.logger.info({ id, revisionId, actor: actor.id }, `Reverted ${this.modelName}`);
+
+            await memoryRevisionService.record(this.memoryType, existing, result, 'reverted', actor, {
+                revertedToId: revision.id,
+            });
+
+            return this.presentRecord(result);
+        } catch (error) {
+            this.handleDatabaseError(error, 'revert', id);
+            throw error;
+        }
+    }
+
+    /**
+     * Count a retrieval of the given items. Written with raw SQL so that
+     * updatedAt keeps tracking content changes only. Failures only cost
+     * ranking accuracy, so they are logged rather than thrown.
+     */
+    async recordAccess(ids: string[], actor?: ActorContext): Promise<void> {
+        if (ids.length === 0) {
+            return;
+        }
+
+        const orgFilter = actor ? Prisma.sql`AND organization_id = ${actor.organizationId}` : Prisma.empty;
+
+        try {
+            await this.prisma.$executeRaw`
+                UPDATE ${Prisma.raw(this.tableName)}
+                SET access_count = access_count + 1, last_accessed_at = NOW()
+                WHERE id = ANY(${ids}::text[])
+                  ${orgFilter}
+            `;
+        } catch (error) {
+            this.logger.warn({ error, count: ids.length }, `Failed to record ${this.modelName} access`);
+        }
+    }
+
     async list(
         actor?: ActorContext,
         options: MemoryListOptions = {}
@@ -158,11 +333,13 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
         } = options;
 
         const where = this.buildListWhereClause(actor, {
             includeDeleted,
+            includeArchived,
             startDate,
             endDate,
             agentId,
@@ -191,16 +368,289 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
             ? this.getRecordId(items[items.length - 1])
             : undefined;
 
-        return { items, total, hasMore, nextCursor };
+        return { items: items.map((item: TModel) => this.presentRecord(item)), total, hasMore, nextCursor };
+    }
+
+    /**
+     * Get the text fields that can be searched
+     */
+    getSearchFields(): readonly string[] {
+        return this.searchFields;
+    }
+
+    /**
+     * Case-insensitive text search across one or all searchable fields.
+     * Multiple terms are OR-ed together.
+     */
+    async textSearch(
+        terms: string | string[],
+        field: string | undefined,
+        options: MemorySearchOptions = {},
+        actor?: ActorContext
+    ): Promise<TModel[]> {
+        const { limit = 10 } = options;
+        const termList = (Array.isArray(terms) ? terms : [terms])
+            .map((term) => term.trim())
+            .filter(Boolean);
+
+        if (field && !this.searchFields.includes(field)) {
+            throw new ValidationError(
+                `Cannot search ${this.modelName} by field '${field}'`,
+                { field: 'searchField', allowed: this.searchFields.join(', ') }
+            );
+        }
+
+        const fields = field ? [field] : [...this.searchFields];
+        const where = this.buildSearchWhereClause(options, actor);
+
+        if (termList.length > 0) {
+            where.OR = termList.flatMap((term) =>
+                fields.map((f) => ({ [f]: { contains: term, mode: 'insensitive' } }))
+            );
+        }
+
+        const items: TModel[] = await this.getDelegate().findMany({
+            where,
+            orderBy: { [this.dateField]: 'desc' },
+            take: limit,
+        });
+
+        return items.map((item) => this.presentRecord(item));
+    }
+
+    /**
+     * Get the text fields that have embedding columns
+     */
+    getEmbeddingFields(): string[] {
+        return Object.keys(this.embeddingColumns);
+    }
+
+    /**
+     * Cosine-distance search against a pgvector column.
+     * Defaults to the first embeddable field when none is given.
+     */
+    async embeddingSearch(
+        queryEmbedding: number[],
+        field: string | undefined,
+        options: EmbeddingSearchOptions = {},
+        actor?: ActorContext
+    ): Promise<ScoredMemory<TModel>[]> {
+        const { limit = 10, similarityThreshold } = options;
+
+        const searchField = field ?? this.getEmbeddingFields()[0];
+        const column = this.embeddingColumns[searchField];
+        if (!column) {
+            throw new ValidationError(
+                `Cannot run embedding search on ${this.modelName} field '${searchField}'`,
+                { field: 'searchField', allowed: this.getEmbeddingFields().join(', ') }
+            );
+        }
+
+        if (queryEmbedding.length === 0 || queryEmbedding.length > MEMORY_EMBEDDING_DIM) {
+            throw new ValidationError(
+                `Query embedding must have between 1 and ${MEMORY_EMBEDDING_DIM} dimensions`,
+                { field: 'queryEmbedding' }
+            );
+        }
+
+        const vector = `[${padEmbeddingToDim(queryEmbedding, MEMORY_EMBEDDING_DIM)!.join(',')}]`;
+        const columnSql = Prisma.raw(column);
+        const distanceSql = Prisma.sql`${columnSql} <=> ${vector}::vector`;
+
+        const conditions = this.buildRawSearchConditions(options, actor);
+        conditions.push(Prisma.sql`${columnSql} IS NOT NULL`);
+
+        if (similarityThreshold !== undefined) {
+            conditions.push(Prisma.sql`${distanceSql} <= ${similarityThreshold}`);
+        }
+
+        const rows = await this.prisma.$queryRaw<{ id: string; distance: number }[]>`
+            SELECT id, ${distanceSql} AS distance
+            FROM ${Prisma.raw(this.tableName)}
+            WHERE ${Prisma.join(conditions, ' AND ')}
+            ORDER BY distance ASC
+            LIMIT ${limit}
+        `;
+
+        const byId = await this.loadByIds(rows.map((r) => r.id));
+
+        return rows
+            .filter((row) => byId.has(row.id))
+            .map((row) => ({
+                item: byId.get(row.id)!,
+                score: 1 - Number(row.distance),
+                distance: Number(row.distance),
+            }));
+    }
+
+    /**
+     * Get the text fields backed by generated tsvector columns
+     */
+    getFullTextFields(): string[] {
+        return (FULL_TEXT_COLUMNS[this.tableName] ?? []).map((def) => def.field);
+    }
+
+    /**
+     * Whether bm25 search works for a language: always for a language computed
+     * on the fly, and for the configured one once `db:fulltext` has built the columns
+     */
+    async canBm25Search(language: string = getFullTextLanguage()): Promise<boolean> {
+        return language !== getFullTextLanguage() || isFullTextSearchReady(this.tableName);
+    }
+
+    /**
+     * BM25-style ranked full-text search over the generated tsvector columns.
+     * Searches every full-text field when none is given. A language other than the
+     * one the columns were built with is computed on the fly (unindexed).
+     */
+    async bm25Search(
+        query: string,
+        field: string | undefined,
+        options: FullTextSearchOptions = {},
+        actor?: ActorContext
+    ): Promise<RankedMemory<TModel>[]> {
+        const { limit = 10 } = options;
+        const language = options.language ?? getFullTextLanguage();
+
+        if (!isValidFullTextLanguage(language)) {
+            throw new ValidationError(`Invalid search language '${language}'`, { field: 'language' });
+        }
+
+        const allDefs = FULL_TEXT_COLUMNS[this.tableName] ?? [];
+        const defs = field ? allDefs.filter((def) => def.field === field) : allDefs;
+        if (defs.length === 0) {
+            throw new ValidationError(
+                `Cannot run full-text search on ${this.modelName} field '${field}'`,
+                { field: 'searchField', allowed: this.getFullTextFields().join(', ') }
+            );
+        }
+
+        if (!query.trim()) {
+            return [];
+        }
+
+        const useStored = language === getFullTextLanguage();
+        if (useStored && !(await isFullTextSearchReady(this.tableName))) {
+            throw new ConfigurationError(
+                `Full-text search columns on ${this.tableName} are missing or outdated; run \`npm run db:fulltext\``,
+                503
+            );
+        }
+
+        const vectorSql = Prisma.raw(
+            defs.map((def) => (useStored ? def.column : tsvectorExpression(def, language))).join(' || ')
+        );
+        const textSql = Prisma.raw(
+            defs.length === 1
+                ? `coalesce(${defs[0].source}, '')`
+                : `concat_ws(' ', ${defs.map((def) => def.source).join(', ')})`
+        );
+
+        const conditions = this.buildRawSearchConditions(options, actor);
+        conditions.push(Prisma.sql`${vectorSql} @@ q.query`);
+
+        const rows = await this.prisma.$queryRaw<{ id: string; score: number; snippet: string }[]>`
+            SELECT id,
+                   ts_rank_cd(${vectorSql}, q.query, 32) AS score,
+                   ts_headline(${language}::regconfig, ${textSql}, q.query, ${HEADLINE_OPTIONS}) AS snippet
+            FROM ${Prisma.raw(this.tableName)},
+                 websearch_to_tsquery(${language}::regconfig, ${query}) AS q(query)
+            WHERE ${Prisma.join(conditions, ' AND ')}
+            ORDER BY score DESC
+            LIMIT ${limit}
+        `;
+
+        const byId = await this.loadByIds(rows.map((r) => r.id));
+
+        return rows
+            .filter((row) => byId.has(row.id))
+            .map((row) => ({
+                item: byId.get(row.id)!,
+                score: Number(row.score),
+                snippet: row.snippet,
+                highlights: [
+                    ...new Set(
+                        [...row.snippet.matchAll(/<mark>(.*?)<\/mark>/g)].map((m) => m[1].toLowerCase())
+                    ),
+                ],
+            }));
+    }
+
+    /**
+     * Load records by ID, keyed for re-ordering raw query results
+     */
+    protected async loadByIds(ids: string[]): Promise<Map<string, TModel>> {
+        if (ids.length === 0) {
+            return new Map();
+        }
+
+        const items: TModel[] = await this.getDelegate().findMany({
+            where: { id: { in: ids } },
+        });
+
+        return new Map(items.map((item) => [this.getRecordId(item), this.presentRecord(item)]));
     }
 
     protected abstract prepareCreateData(data: TCreateInput, actor?: ActorContext): unknown;
     protected abstract prepareUpdateData(data: TUpdateInput, actor?: ActorContext): unknown;
 
+    /**
+     * Shape of a record handed out to callers; lets a memory type hide
+     * columns that must only be read through a dedicated method
+     */
+    protected presentRecord(record: TModel): TModel {
+        return record;
+    }
+
     protected getRecordId(record: TModel): string {
         return (record as { id: string }).id;
     }
 
+    /**
+     * Items that went through a merge keep the history of every item involved
+     * in lastModify.history; later updates append the replaced entry to it
+     * instead of dropping it.
+     */
+    private carryLastModifyHistory(existing: TModel, updateData: Record<string, unknown>): void {
+        const previous = (existing as { lastModify?: Record<string, unknown> | null }).lastModify;
+        const next = updateData.lastModify as Record<string, unknown> | undefined;
+
+        if (!next || !previous || !Array.isArray(previous.history)) {
+            return;
+        }
+
+        updateData.lastModify = {
+            ...next,
+            history: [
+                ...previous.history,
+                {
+                    timestamp: previous.timestamp,
+                    operation: previous.operation,
+                    itemId: this.getRecordId(existing),
+                },
+            ],
+        };
+    }
+
+    /**
+     * Update data restoring the content columns of a revision snapshot
+     */
+    private snapshotToUpdateData(snapshot: Record<string, unknown>): Record<string, unknown> {
+        const model = Prisma.dmmf.datamodel.models.find((m) => m.name === this.modelName);
+        const data: Record<string, unknown> = {};
+
+        for (const field of model?.fields ?? []) {
+            if (field.kind !== 'scalar' || REVERT_KEPT_FIELDS.has(field.name) || !(field.name in snapshot)) {
+                continue;
+            }
+
+            const value = snapshot[field.name];
+            data[field.name] = value === null && field.type === 'Json' ? Prisma.JsonNull : value;
+        }
+
+        return data;
+    }
+
     protected buildWhereClause(
         id: string,
         actor?: ActorContext,
@@ -223,6 +673,7 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
         actor?: ActorContext,
         options: {
             includeDeleted?: boolean;
+            includeArchived?: boolean;
             startDate?: Date;
             endDate?: Date;
             agentId?: string;
@@ -234,6 +685,10 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
             where.isDeleted = false;
         }
 
+        if (!options.includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (actor) {
             where.organizationId = actor.organizationId;
         }
@@ -255,6 +710,75 @@ export abstract class BaseMemoryManager<TModel, TCreateInput, TUpdateInput> {
         return where;
     }
 
+    protected buildSearchWhereClause(
+        options: MemorySearchOptions,
+        actor?: ActorContext
+    ): Record<string, unknown> {
+        const where: Record<string, unknown> = { isDeleted: false };
+
+        if (!options.includeArchived) {
+            where.archivedAt = null;
+        }
+
+        if (actor) {
+            where.organizationId = actor.organizationId;
+        }
+
+        if (options.userId) {
+            where.userId = options.userId;
+        }
+
+        if (options.filterTags && Object.keys(options.filterTags).length > 0) {
+            where.AND = Object.entries(options.filterTags).map(([key, value]) => ({
+                filterTags: { path: [key], equals: value },
+            }));
+        }
+
+        const { startDate, endDate } = options.dateRange ?? {};
+        if (startDate || endDate) {
+            const range: Record<string, Date> = {};
+            if (startDate) range.gte = startDate;
+            if (endDate) range.lte = endDate;
+            where[this.dateField] = range;
+        }
+
+        return where;
+    }
+
+    /**
+     * Raw SQL equivalent of buildSearchWhereClause for pgvector and tsvector queries
+     */
+    protected buildRawSearchConditions(
+        options: MemorySearchOptions,
+        actor?: ActorContext
+    ): Prisma.Sql[] {
+        const conditions: Prisma.Sql[] = [Prisma.sql`is_deleted = false`];
+
+        if (!options.includeArchived) {
+            conditions.push(Prisma.sql`archived_at IS NULL`);
+        }
+        if (actor) {
+            conditions.push(Prisma.sql`organization_id = ${actor.organizationId}`);
+        }
+        if (options.userId) {
+            conditions.push(Prisma.sql`user_id = ${options.userId}`);
+        }
+        if (options.filterTags && Object.keys(options.filterTags).length > 0) {
+            conditions.push(Prisma.sql`filter_tags @> ${JSON.stringify(options.filterTags)}::jsonb`);
+        }
+
+        const { startDate, endDate } = options.dateRange ?? {};
+        const dateColumn = Prisma.raw(this.dateField.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`));
+        if (startDate) {
+            conditions.push(Prisma.sql`${dateColumn} >= ${startDate}`);
+        }
+        if (endDate) {
+            conditions.push(Prisma.sql`${dateColumn} <= ${endDate}`);
+        }
+
+        return conditions;
+    }
+
     protected handleDatabaseError(
         error: unknown,
         operation: string,
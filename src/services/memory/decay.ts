@@ -0,0 +1,161 @@
+/**
+ * Memory Decay
+ * Scores how valuable a memory item still is from its importance, how often it
+ * has been retrieved and how long ago it was last used. Forgetting policies
+ * compare the value against their threshold; hybrid retrieval blends the same
+ * signals into its ranking.
+ */
+
+import { settings } from '../../settings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DECAY_FUNCTIONS = ['exponential', 'linear', 'none'] as const;
+
+export type DecayFunction = (typeof DECAY_FUNCTIONS)[number];
+
+export interface DecayConfig {
+    decayFunction: DecayFunction;
+    /** Days after which an unused item keeps half of its value */
+    halfLifeDays: number;
+}
+
+/**
+ * Usage columns every memory table carries
+ */
+export interface MemoryUsage {
+    importance: number;
+    accessCount: number;
+    lastAccessedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface MemoryRankingWeights {
+    relevance: number;
+    recency: number;
+    importance: number;
+    frequency: number;
+}
+
+/** Signals behind a ranked item's score, each 0-1 */
+export type MemoryRankingFactors = MemoryRankingWeights;
+
+/** Retrievals at which the frequency signal reaches 0.5 */
+const FREQUENCY_HALF_POINT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export function getDefaultDecayConfig(): DecayConfig {
+    const decayFunction = settings.memoryDecayFunction.toLowerCase() as DecayFunction;
+    return {
+        decayFunction: DECAY_FUNCTIONS.includes(decayFunction) ? decayFunction : 'exponential',
+        halfLifeDays: settings.memoryDecayHalfLifeDays,
+    };
+}
+
+export function getDefaultRankingWeights(): MemoryRankingWeights {
+    return {
+        relevance: 1,
+        recency: settings.memoryRankingRecencyWeight,
+        importance: settings.memoryRankingImportanceWeight,
+        frequency: settings.memoryRankingFrequencyWeight,
+    };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Fraction of value left after an item has gone unused for ageDays. Linear
+ * decay loses half at the half-life and reaches zero at twice that.
+ */
+export function decayFactor(ageDays: number, config: DecayConfig): number {
+    const age = Math.max(0, ageDays);
+    const halfLife = Math.max(config.halfLifeDays, Number.EPSILON);
+
+    switch (config.decayFunction) {
+        case 'exponential':
+            return Math.pow(0.5, age / halfLife);
+        case 'linear':
+            return Math.max(0, 1 - age / (2 * halfLife));
+        case 'none':
+            return 1;
+    }
+}
+
+/**
+ * 0 for never-retrieved items, approaching 1 as retrievals accumulate
+ */
+export function frequencyScore(accessCount: number): number {
+    const count = Math.max(0, accessCount);
+    return count / (count + FREQUENCY_HALF_POINT);
+}
+
+/**
+ * When the item was last written or retrieved
+ */
+export function lastUsedAt(item: Pick<MemoryUsage, 'lastAccessedAt' | 'updatedAt'>): Date {
+    return item.lastAccessedAt && item.lastAccessedAt > item.updatedAt ? item.lastAccessedAt : item.updatedAt;
+}
+
+/**
+ * Value of an item, 0-1: its importance, raised towards 1 by frequent
+ * retrieval, decayed by the time since it was last used
+ */
+export function memoryValue(
+    item: MemoryUsage,
+    config: DecayConfig = getDefaultDecayConfig(),
+    now: Date = new Date()
+): number {
+    const importance = clamp(item.importance);
+    const base = importance + (1 - importance) * frequencyScore(item.accessCount);
+    const ageDays = (now.getTime() - lastUsedAt(item).getTime()) / DAY_MS;
+
+    return base * decayFactor(ageDays, config);
+}
+
+/**
+ * Ranking signals of a retrieved item; relevance is its retrieval score
+ * normalized against the best candidate
+ */
+export function rankingFactors(
+    item: Partial<MemoryUsage>,
+    relevance: number,
+    config: DecayConfig = getDefaultDecayConfig(),
+    now: Date = new Date()
+): MemoryRankingFactors {
+    const usedAt = item.updatedAt
+        ? lastUsedAt({ lastAccessedAt: item.lastAccessedAt ?? null, updatedAt: item.updatedAt })
+        : now;
+
+    return {
+        relevance: clamp(relevance),
+        recency: decayFactor((now.getTime() - usedAt.getTime()) / DAY_MS, config),
+        importance: clamp(item.importance ?? 0.5),
+        frequency: frequencyScore(item.accessCount ?? 0),
+    };
+}
+
+/**
+ * Weighted sum of the ranking signals
+ */
+export function rankingScore(factors: MemoryRankingFactors, weights: MemoryRankingWeights): number {
+    return (
+        weights.relevance * factors.relevance +
+        weights.recency * factors.recency +
+        weights.importance * factors.importance +
+        weights.frequency * factors.frequency
+    );
+}
+
+function clamp(value: number): number {
+    return Math.min(1, Math.max(0, value));
+}
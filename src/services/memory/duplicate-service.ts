@@ -0,0 +1,492 @@
+/**
+ * Memory Duplicate Service
+ * Finds near-duplicate semantic and resource memories by normalized name and
+ * summary embedding similarity, and merges them while keeping the lastModify
+ * history of every item involved
+ */
+
+import { Prisma } from '@prisma/client';
+import { prismaRaw } from '../../database/prisma-client';
+import { logger } from '../../log';
+import { settings } from '../../settings';
+import { ValidationError } from '../../errors';
+import { MEMORY_EMBEDDING_DIM } from '../../constants';
+import { padEmbeddingToDim } from '../../schemas/memory';
+import { ActorContext } from '../base-manager';
+import { BaseMemoryManager } from './base-memory-manager';
+import { semanticMemoryManager } from './semantic-memory-manager';
+import { resourceMemoryManager } from './resource-memory-manager';
+import { memoryRevisionService } from './revision-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const DEDUPLICATED_MEMORY_TYPES = ['semantic', 'resource'] as const;
+
+export type DeduplicatedMemoryType = (typeof DEDUPLICATED_MEMORY_TYPES)[number];
+
+/**
+ * What memory tools do when an insert matches an existing item: fold it into
+ * that item, insert it anyway and report the match, or skip detection
+ */
+export type DuplicatePolicy = 'merge' | 'flag' | 'off';
+
+export interface DuplicateMatch {
+    id: string;
+    /** Name (semantic) or title (resource) of the existing item */
+    label: string;
+    /** Cosine similarity of the summaries; null when only the names matched */
+    similarity: number | null;
+    /** The normalized names are equal */
+    nameMatch: boolean;
+}
+
+export interface DuplicatePair {
+    memoryType: DeduplicatedMemoryType;
+    /** The more recently updated item, suggested as the merge target */
+    item: { id: string; label: string; updatedAt: Date };
+    duplicate: { id: string; label: string; updatedAt: Date };
+    similarity: number | null;
+    nameMatch: boolean;
+}
+
+export interface DuplicateReportOptions {
+    userId: string;
+    /** Minimum summary similarity (default: settings.memoryDuplicateThreshold) */
+    threshold?: number;
+    limit?: number;
+}
+
+/**
+ * Text folded into an existing item: its summary and details (semantic) or
+ * content (resource)
+ */
+export interface IncomingMemory {
+    summary: string;
+    body?: string;
+}
+
+export interface LastModifyEntry {
+    timestamp: string;
+    operation: string;
+    /** Item the entry was recorded on, for entries inherited through a merge */
+    itemId?: string;
+}
+
+export interface MergedLastModify extends LastModifyEntry {
+    /** Items merged into this one */
+    mergedFrom?: string[];
+    /** Item this one was merged into */
+    mergedInto?: string;
+    /** Earlier entries of this item and the items merged into it, oldest first */
+    history?: LastModifyEntry[];
+}
+
+/**
+ * Fields shared by semantic and resource items, with the type-specific
+ * label and body columns resolved
+ */
+export interface DedupItem {
+    id: string;
+    userId: string;
+    agentId: string | null;
+    label: string;
+    summary: string;
+    body: string;
+    filterTags: Prisma.JsonValue;
+    lastModify: Prisma.JsonValue;
+    updatedAt: Date;
+    sourceEventIds?: string[];
+}
+
+const TYPE_CONFIG = {
+    semantic: { table: 'semantic_memory', labelField: 'name', labelColumn: 'name', bodyField: 'details' },
+    resource: { table: 'resource_memory', labelField: 'title', labelColumn: 'title', bodyField: 'content' },
+} as const;
+
+/** Words that do not change what a name refers to */
+const NAME_STOPWORDS = new Set(['a', 'an', 'the', 'of', 'for', 'my', 'about']);
+
+/** Items compared by name per report */
+const MAX_REPORT_ITEMS = 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize a memory name for comparison: case, punctuation, possessives and
+ * word order are ignored, so "Alice's birthday" equals "Birthday of Alice"
+ */
+export function normalizeMemoryName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/['’]s\b/g, '')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .split(' ')
+        .filter((token) => token && !NAME_STOPWORDS.has(token))
+        .sort()
+        .join(' ');
+}
+
+/**
+ * The policy configured for memory tools, defaulting to merge
+ */
+export function getDuplicatePolicy(): DuplicatePolicy {
+    const policy = settings.memoryDuplicatePolicy.toLowerCase();
+    return policy === 'flag' || policy === 'off' ? policy : 'merge';
+}
+
+/**
+ * An item's lastModify history including its current entry, tagged with its ID
+ */
+function historyOf(item: DedupItem): LastModifyEntry[] {
+    const lastModify = (item.lastModify ?? {}) as Partial<MergedLastModify>;
+    const history = lastModify.history ?? [];
+
+    if (!lastModify.timestamp) {
+        return history;
+    }
+    return [
+        ...history,
+        { timestamp: lastModify.timestamp, operation: lastModify.operation ?? 'updated', itemId: item.id },
+    ];
+}
+
+/**
+ * The stored record behind an item, without the label and body aliases
+ */
+function toRecord(item: DedupItem): Record<string, unknown> {
+    const { label: _label, body: _body, ...record } = item;
+    return record;
+}
+
+/**
+ * Append paragraphs not already present in the text
+ */
+function appendNew(text: string, additions: string[]): string {
+    let merged = text;
+    for (const addition of additions.map((a) => a.trim()).filter(Boolean)) {
+        if (!merged.toLowerCase().includes(addition.toLowerCase())) {
+            merged = merged ? `${merged}\n\n${addition}` : addition;
+        }
+    }
+    return merged;
+}
+
+// ============================================================================
+// DUPLICATE SERVICE
+// ============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyDelegate = any;
+
+export class MemoryDuplicateService {
+    private readonly prisma = prismaRaw;
+    private readonly logger = logger;
+
+    /**
+     * Find an existing item of the user's that the new one duplicates: one
+     * with the same normalized name, or failing that the item whose summary
+     * embedding is closest, if within the threshold
+     */
+    async findDuplicate(
+        memoryType: DeduplicatedMemoryType,
+        candidate: { userId: string; label: string; embedding?: number[] | null },
+        actor: ActorContext,
+        threshold: number = settings.memoryDuplicateThreshold
+    ): Promise<DuplicateMatch | null> {
+        const { table, labelField, labelColumn } = TYPE_CONFIG[memoryType];
+        const key = normalizeMemoryName(candidate.label);
+
+        let nameMatch: { id: string; label: string } | undefined;
+        if (key) {
+            const rows: Array<{ id: string } & Record<string, string>> = await this.getDelegate(memoryType).findMany({
+                where: {
+                    userId: candidate.userId,
+                    organizationId: actor.organizationId,
+                    isDeleted: false,
+                    OR: key.split(' ').map((token) => ({ [labelField]: { contains: token, mode: 'insensitive' } })),
+                },
+                select: { id: true, [labelField]: true },
+                orderBy: { updatedAt: 'desc' },
+                take: 50,
+            });
+            const row = rows.find((r) => normalizeMemoryName(r[labelField]) === key);
+            nameMatch = row ? { id: row.id, label: row[labelField] } : undefined;
+        }
+
+        let closest: { id: string; label: string; similarity: number } | undefined;
+        if (candidate.embedding && candidate.embedding.length > 0) {
+            const vector = `[${padEmbeddingToDim(candidate.embedding, MEMORY_EMBEDDING_DIM)!.join(',')}]`;
+            const [row] = await this.prisma.$queryRaw<{ id: string; label: string; similarity: number }[]>`
+                SELECT id, ${Prisma.raw(labelColumn)} AS label,
+                       1 - (summary_embedding <=> ${vector}::vector) AS similarity
+                FROM ${Prisma.raw(table)}
+                WHERE organization_id = ${actor.organizationId}
+                  AND user_id = ${candidate.userId}
+                  AND is_deleted = false
+                  AND summary_embedding IS NOT NULL
+                ORDER BY summary_embedding <=> ${vector}::vector
+                LIMIT 1
+            `;
+            closest = row ? { ...row, similarity: Number(row.similarity) } : undefined;
+        }
+
+        if (nameMatch) {
+            return {
+                ...nameMatch,
+                similarity: closest?.id === nameMatch.id ? closest.similarity : null,
+                nameMatch: true,
+            };
+        }
+        if (closest && closest.similarity >= threshold) {
+            return { ...closest, nameMatch: false };
+        }
+        return null;
+    }
+
+    /**
+     * Pairs of a user's items that look like duplicates, by summary embedding
+     * similarity or equal normalized names, most similar first
+     */
+    async findDuplicates(
+        memoryType: DeduplicatedMemoryType,
+        options: DuplicateReportOptions,
+        actor: ActorContext
+    ): Promise<DuplicatePair[]> {
+        const { table, labelField, labelColumn } = TYPE_CONFIG[memoryType];
+        const threshold = options.threshold ?? settings.memoryDuplicateThreshold;
+        const limit = options.limit ?? 50;
+        const label = Prisma.raw(labelColumn);
+
+        const similar = await this.prisma.$queryRaw<Array<{
+            a_id: string; a_label: string; a_updated: Date;
+            b_id: string; b_label: string; b_updated: Date;
+            similarity: number;
+        }>>`
+            SELECT a.id AS a_id, a.${label} AS a_label, a.updated_at AS a_updated,
+                   b.id AS b_id, b.${label} AS b_label, b.updated_at AS b_updated,
+                   1 - (a.summary_embedding <=> b.summary_embedding) AS similarity
+            FROM ${Prisma.raw(table)} a
+            JOIN ${Prisma.raw(table)} b ON b.user_id = a.user_id AND b.id > a.id
+            WHERE a.organization_id = ${actor.organizationId}
+              AND b.organization_id = ${actor.organizationId}
+              AND a.user_id = ${options.userId}
+              AND a.is_deleted = false AND b.is_deleted = false
+              AND a.summary_embedding IS NOT NULL AND b.summary_embedding IS NOT NULL
+              AND a.summary_embedding <=> b.summary_embedding <= ${1 - threshold}
+            ORDER BY similarity DESC
+            LIMIT ${limit}
+        `;
+
+        const pairs = new Map<string, DuplicatePair>();
+        const addPair = (
+            a: DuplicatePair['item'],
+            b: DuplicatePair['item'],
+            similarity: number | null,
+            nameMatch: boolean
+        ): void => {
+            const key = [a.id, b.id].sort().join(':');
+            const existing = pairs.get(key);
+            if (existing) {
+                existing.nameMatch ||= nameMatch;
+                existing.similarity ??= similarity;
+                return;
+            }
+            const [item, duplicate] = a.updatedAt >= b.updatedAt ? [a, b] : [b, a];
+            pairs.set(key, { memoryType, item, duplicate, similarity, nameMatch });
+        };
+
+        for (const row of similar) {
+            addPair(
+                { id: row.a_id, label: row.a_label, updatedAt: row.a_updated },
+                { id: row.b_id, label: row.b_label, updatedAt: row.b_updated },
+                Number(row.similarity),
+                normalizeMemoryName(row.a_label) === normalizeMemoryName(row.b_label)
+            );
+        }
+
+        const items: Array<{ id: string; updatedAt: Date } & Record<string, string>> =
+            await this.getDelegate(memoryType).findMany({
+                where: { userId: options.userId, organizationId: actor.organizationId, isDeleted: false },
+                select: { id: true, [labelField]: true, updatedAt: true },
+                orderBy: { updatedAt: 'desc' },
+                take: MAX_REPORT_ITEMS,
+            });
+
+        // Items are newest first, so each group's first item is the newest
+        const byName = new Map<string, DuplicatePair['item']>();
+        for (const row of items) {
+            const key = normalizeMemoryName(row[labelField]);
+            if (!key) continue;
+            const current = { id: row.id, label: row[labelField], updatedAt: row.updatedAt };
+            const newest = byName.get(key);
+            if (newest) {
+                addPair(newest, current, null, true);
+            } else {
+                byName.set(key, current);
+            }
+        }
+
+        return Array.from(pairs.values())
+            .sort((a, b) => (b.similarity ?? 1) - (a.similarity ?? 1) || Number(b.nameMatch) - Number(a.nameMatch))
+            .slice(0, limit);
+    }
+
+    /**
+     * Fold a new memory into an existing item: text it does not contain yet
+     * is appended to the item's details or content
+     */
+    async mergeIncoming(
+        memoryType: DeduplicatedMemoryType,
+        targetId: string,
+        incoming: IncomingMemory,
+        actor: ActorContext
+    ): Promise<DedupItem> {
+        const { bodyField } = TYPE_CONFIG[memoryType];
+        const target = await this.load(memoryType, targetId, actor);
+
+        const lastModify: MergedLastModify = {
+            timestamp: new Date().toISOString(),
+            operation: 'merged',
+            history: historyOf(target),
+        };
+
+        const updated = await this.getDelegate(memoryType).update({
+            where: { id: target.id },
+            data: {
+                [bodyField]: appendNew(target.body, [incoming.summary, incoming.body ?? '']),
+                lastModify: lastModify as unknown as Prisma.InputJsonValue,
+                lastUpdatedById: actor.id,
+                updatedAt: new Date(),
+            },
+        });
+
+        this.logger.info({ memoryType, id: target.id }, 'New memory merged into existing item');
+
+        await memoryRevisionService.record(memoryType, toRecord(target), updated, 'merged', actor);
+        return this.toDedupItem(memoryType, updated);
+    }
+
+    /**
+     * Merge items into a target of the same user. The target keeps its name
+     * and summary, gains the sources' summaries and details it lacks, and
+     * inherits their lastModify history; the sources are soft-deleted with a
+     * pointer to the target.
+     */
+    async merge(
+        memoryType: DeduplicatedMemoryType,
+        targetId: string,
+        sourceIds: string[],
+        actor: ActorContext
+    ): Promise<DedupItem> {
+        const { bodyField } = TYPE_CONFIG[memoryType];
+        const ids = [...new Set(sourceIds)].filter((id) => id !== targetId);
+        if (ids.length === 0) {
+            throw new ValidationError('At least one source item other than the target is required', {
+                field: 'source_ids',
+            });
+        }
+
+        const target = await this.load(memoryType, targetId, actor);
+        const sources = await Promise.all(ids.map((id) => this.load(memoryType, id, actor)));
+
+        if (sources.some((source) => source.userId !== target.userId)) {
+            throw new ValidationError('Only items of the same user can be merged', { field: 'source_ids' });
+        }
+
+        const now = new Date().toISOString();
+        const history = [target, ...sources]
+            .flatMap(historyOf)
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+        const data: Record<string, unknown> = {
+            [bodyField]: appendNew(
+                target.body,
+                sources.flatMap((source) => [source.summary, source.body])
+            ),
+            filterTags: mergeFilterTags(target, sources),
+            lastModify: { timestamp: now, operation: 'merged', mergedFrom: ids, history },
+            lastUpdatedById: actor.id,
+            updatedAt: new Date(),
+        };
+        if (memoryType === 'semantic') {
+            data.sourceEventIds = [
+                ...new Set([target, ...sources].flatMap((item) => item.sourceEventIds ?? [])),
+            ];
+        }
+
+        const delegate = this.getDelegate(memoryType);
+        const [updated, ...deleted] = await this.prisma.$transaction([
+            delegate.update({ where: { id: target.id }, data }),
+            ...sources.map((source) =>
+                delegate.update({
+                    where: { id: source.id },
+                    data: {
+                        isDeleted: true,
+                        lastModify: {
+                            timestamp: now,
+                            operation: 'deleted',
+                            mergedInto: target.id,
+                            history: historyOf(source),
+                        },
+                        lastUpdatedById: actor.id,
+                        updatedAt: new Date(),
+                    },
+                })
+            ),
+        ]);
+
+        this.logger.info({ memoryType, targetId, sourceIds: ids, actor: actor.id }, 'Memory items merged');
+
+        await memoryRevisionService.record(memoryType, toRecord(target), updated, 'merged', actor);
+        for (const [i, source] of sources.entries()) {
+            await memoryRevisionService.record(memoryType, toRecord(source), deleted[i], 'deleted', actor);
+        }
+
+        return this.toDedupItem(memoryType, updated);
+    }
+
+    private async load(memoryType: DeduplicatedMemoryType, id: string, actor: ActorContext): Promise<DedupItem> {
+        const item = await this.getManager(memoryType).read(id, actor);
+        return this.toDedupItem(memoryType, item);
+    }
+
+    private toDedupItem(memoryType: DeduplicatedMemoryType, item: unknown): DedupItem {
+        const { labelField, bodyField } = TYPE_CONFIG[memoryType];
+        const record = item as Record<string, unknown> & Omit<DedupItem, 'label' | 'body'>;
+        return {
+            ...record,
+            label: record[labelField] as string,
+            body: record[bodyField] as string,
+        };
+    }
+
+    private getManager(memoryType: DeduplicatedMemoryType): BaseMemoryManager<unknown, unknown, unknown> {
+        return memoryType === 'semantic' ? semanticMemoryManager : resourceMemoryManager;
+    }
+
+    private getDelegate(memoryType: DeduplicatedMemoryType): AnyDelegate {
+        return memoryType === 'semantic' ? this.prisma.semanticMemoryItem : this.prisma.resourceMemoryItem;
+    }
+}
+
+/**
+ * Union of the items' filter tags; the target's values win
+ */
+function mergeFilterTags(target: DedupItem, sources: DedupItem[]): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    const merged: Record<string, unknown> = {};
+    for (const item of [...sources, target]) {
+        if (item.filterTags && typeof item.filterTags === 'object' && !Array.isArray(item.filterTags)) {
+            Object.assign(merged, item.filterTags);
+        }
+    }
+    return Object.keys(merged).length > 0 ? (merged as Prisma.InputJsonValue) : Prisma.JsonNull;
+}
+
+// Singleton instance
+export const memoryDuplicateService = new MemoryDuplicateService();
+
+export default memoryDuplicateService;
@@ -4,7 +4,8 @@
  */
 
 import { EpisodicEvent, Prisma } from '@prisma/client';
-import { BaseMemoryManager, CacheConfig, MemoryListOptions } from './base-memory-manager';
+import { BaseMemoryManager, CacheConfig, MemoryListOptions, MemorySearchOptions } from './base-memory-manager';
+import type { MemoryProvenanceSource } from './provenance-service';
 import { RedisMemoryClient } from '../../database/redis-client';
 import { ActorContext, ListResult } from '../base-manager';
 import { ValidationError } from '../../errors';
@@ -15,7 +16,7 @@ import { ValidationError } from '../../errors';
 
 export interface LastModify {
     timestamp: string;
-    operation: 'created' | 'updated' | 'deleted';
+    operation: 'created' | 'updated' | 'deleted' | 'reverted';
 }
 
 export interface CreateEpisodicEventInput {
@@ -31,6 +32,10 @@ export interface CreateEpisodicEventInput {
     filterTags?: unknown;
     embeddingConfig?: unknown;
     clientId?: string;
+    /** How much the item matters, 0-1 (default: 0.5) */
+    importance?: number;
+    /** Messages and traces the item was written from */
+    provenance?: MemoryProvenanceSource;
 }
 
 export interface UpdateEpisodicEventInput {
@@ -41,6 +46,7 @@ export interface UpdateEpisodicEventInput {
     details?: string;
     filterTags?: unknown;
     embeddingConfig?: unknown;
+    importance?: number;
 }
 
 // ============================================================================
@@ -56,6 +62,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
     UpdateEpisodicEventInput
 > {
     protected readonly modelName = 'EpisodicEvent';
+    protected readonly memoryType = 'episodic' as const;
 
     protected readonly cacheConfig: CacheConfig = {
         enabled: true,
@@ -63,6 +70,14 @@ class EpisodicMemoryManager extends BaseMemoryManager<
         ttl: 3600,
     };
 
+    protected readonly searchFields = ['summary', 'details'] as const;
+
+    protected readonly dateField = 'occurredAt';
+
+    protected readonly tableName = 'episodic_memory';
+
+    protected readonly embeddingColumns = { summary: 'summary_embedding', details: 'details_embedding' };
+
     protected getDelegate(): AnyDelegate {
         return this.prisma.episodicEvent;
     }
@@ -96,6 +111,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
         const where: Prisma.EpisodicEventWhereInput = {
             agentId,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -110,30 +126,30 @@ class EpisodicMemoryManager extends BaseMemoryManager<
     }
 
     /**
-     * Get events in a time range
+     * Get events in a time range. Either bound may be omitted, and the agent
+     * filter may be dropped to query by user instead.
      */
     async getEventsInRange(
-        agentId: string,
-        startTime: Date,
-        endTime: Date,
-        actor?: ActorContext
+        agentId: string | undefined,
+        startTime: Date | undefined,
+        endTime: Date | undefined,
+        actor?: ActorContext,
+        options: Pick<MemorySearchOptions, 'userId' | 'filterTags' | 'limit'> = {}
     ): Promise<EpisodicEvent[]> {
-        const where: Prisma.EpisodicEventWhereInput = {
-            agentId,
-            isDeleted: false,
-            occurredAt: {
-                gte: startTime,
-                lte: endTime,
-            },
-        };
+        const where = this.buildSearchWhereClause({
+            userId: options.userId,
+            filterTags: options.filterTags,
+            dateRange: { startDate: startTime, endDate: endTime },
+        }, actor) as Prisma.EpisodicEventWhereInput;
 
-        if (actor) {
-            where.organizationId = actor.organizationId;
+        if (agentId) {
+            where.agentId = agentId;
         }
 
         return this.getDelegate().findMany({
             where,
             orderBy: { occurredAt: 'asc' },
+            take: options.limit,
         });
     }
 
@@ -150,6 +166,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
             agentId,
             eventType,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -176,6 +193,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
             agentId,
             actor: actorName,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -203,6 +221,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
             eventType,
         } = options;
@@ -215,6 +234,10 @@ class EpisodicMemoryManager extends BaseMemoryManager<
             where.isDeleted = false;
         }
 
+        if (!includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (agentId) {
             where.agentId = agentId;
         }
@@ -304,6 +327,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
             filterTags: data.filterTags ?? Prisma.JsonNull,
             embeddingConfig: data.embeddingConfig ?? Prisma.JsonNull,
             lastModify: lastModify as Prisma.InputJsonValue,
+            importance: data.importance,
             organization: data.organizationId
                 ? { connect: { id: data.organizationId } }
                 : undefined,
@@ -341,6 +365,7 @@ class EpisodicMemoryManager extends BaseMemoryManager<
         if (data.details !== undefined) updateData.details = data.details;
         if (data.filterTags !== undefined) updateData.filterTags = data.filterTags as Prisma.InputJsonValue;
         if (data.embeddingConfig !== undefined) updateData.embeddingConfig = data.embeddingConfig as Prisma.InputJsonValue;
+        if (data.importance !== undefined) updateData.importance = data.importance;
 
         return updateData;
     }
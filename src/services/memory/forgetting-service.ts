@@ -0,0 +1,467 @@
+/**
+ * Memory Forgetting Service
+ * Forgetting policies decide what happens to memories whose decayed value has
+ * fallen below a threshold: they are archived (kept but no longer retrieved),
+ * summarized into an episodic digest, or soft-deleted. A policy applies to an
+ * organization or to one of its agents; items without one fall back to the
+ * defaults from settings.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryForgettingPolicy } from '@prisma/client';
+import { prismaRaw } from '../../database/prisma-client';
+import { logger } from '../../log';
+import { settings } from '../../settings';
+import { NotFoundError } from '../../errors';
+import { ActorContext } from '../base-manager';
+import {
+    DecayConfig,
+    DecayFunction,
+    DECAY_FUNCTIONS,
+    getDefaultDecayConfig,
+    memoryValue,
+    MemoryUsage,
+} from './decay';
+import { episodicMemoryManager } from './episodic-memory-manager';
+import { memoryRevisionService } from './revision-service';
+import { MEMORY_TYPES, MemoryType } from './retrieval-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const FORGETTING_ACTIONS = ['archive', 'summarize', 'soft_delete'] as const;
+
+export type ForgettingAction = (typeof FORGETTING_ACTIONS)[number];
+
+export interface ForgettingPolicyInput {
+    action?: ForgettingAction;
+    decayFunction?: DecayFunction;
+    halfLifeDays?: number;
+    threshold?: number;
+    minAgeDays?: number;
+    /** Memory types the policy applies to; empty for all */
+    memoryTypes?: MemoryType[];
+    enabled?: boolean;
+}
+
+/**
+ * A stored policy, or the settings defaults when id is undefined
+ */
+export interface ResolvedForgettingPolicy {
+    id?: string;
+    action: ForgettingAction;
+    decay: DecayConfig;
+    threshold: number;
+    minAgeDays: number;
+    memoryTypes: MemoryType[];
+    enabled: boolean;
+}
+
+export interface ForgettingOptions {
+    organizationId?: string;
+    /** Only consider items created before this; overrides each policy's minimum age */
+    olderThan?: Date;
+    /** Maximum number of items to forget in this run */
+    limit?: number;
+    /** Report what would be forgotten without changing anything */
+    dryRun?: boolean;
+}
+
+export interface ForgettingResult {
+    scanned: number;
+    archived: number;
+    summarized: number;
+    deleted: number;
+    byType: Partial<Record<MemoryType, number>>;
+    dryRun: boolean;
+}
+
+interface ForgettingCandidate extends MemoryUsage {
+    id: string;
+    organizationId: string | null;
+    userId: string;
+    agentId: string | null;
+}
+
+/** Text each memory type contributes to a digest */
+const DIGEST_FIELDS: Record<MemoryType, string> = {
+    episodic: 'summary',
+    semantic: 'summary',
+    procedural: 'summary',
+    resource: 'summary',
+    knowledge: 'caption',
+};
+
+/** Items loaded per query while scanning */
+const SCAN_BATCH_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// FORGETTING SERVICE
+// ============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyDelegate = any;
+
+export class MemoryForgettingService {
+    private readonly prisma = prismaRaw;
+    private readonly logger = logger;
+
+    /**
+     * The policy used when neither the agent nor its organization has one
+     */
+    getDefaultPolicy(): ResolvedForgettingPolicy {
+        const action = settings.memoryForgetAction.toLowerCase() as ForgettingAction;
+        return {
+            action: FORGETTING_ACTIONS.includes(action) ? action : 'archive',
+            decay: getDefaultDecayConfig(),
+            threshold: settings.memoryForgetThreshold,
+            minAgeDays: settings.memoryForgetMinAgeDays,
+            memoryTypes: [],
+            enabled: true,
+        };
+    }
+
+    async listPolicies(actor: ActorContext): Promise<MemoryForgettingPolicy[]> {
+        return this.prisma.memoryForgettingPolicy.findMany({
+            where: { organizationId: actor.organizationId },
+            orderBy: { createdAt: 'asc' },
+        });
+    }
+
+    /**
+     * The organization's policy, or an agent's when agentId is given
+     */
+    async getPolicy(agentId: string | null, actor: ActorContext): Promise<MemoryForgettingPolicy | null> {
+        return this.prisma.memoryForgettingPolicy.findFirst({
+            where: { organizationId: actor.organizationId, agentId },
+        });
+    }
+
+    /**
+     * Create or replace the policy of the organization or one of its agents.
+     * Unset fields take the settings defaults.
+     */
+    async upsertPolicy(
+        agentId: string | null,
+        input: ForgettingPolicyInput,
+        actor: ActorContext
+    ): Promise<MemoryForgettingPolicy> {
+        const defaults = this.getDefaultPolicy();
+        const data = {
+            action: input.action ?? defaults.action,
+            decayFunction: input.decayFunction ?? defaults.decay.decayFunction,
+            halfLifeDays: input.halfLifeDays ?? defaults.decay.halfLifeDays,
+            threshold: input.threshold ?? defaults.threshold,
+            minAgeDays: input.minAgeDays ?? defaults.minAgeDays,
+            memoryTypes: input.memoryTypes ?? [],
+            enabled: input.enabled ?? true,
+            lastUpdatedById: actor.id,
+        };
+
+        const existing = await this.getPolicy(agentId, actor);
+        const policy = existing
+            ? await this.prisma.memoryForgettingPolicy.update({ where: { id: existing.id }, data })
+            : await this.prisma.memoryForgettingPolicy.create({
+                data: {
+                    id: `forget-policy-${uuidv4()}`,
+                    organizationId: actor.organizationId,
+                    agentId,
+                    createdById: actor.id,
+                    ...data,
+                },
+            });
+
+        this.logger.info(
+            { policyId: policy.id, agentId, organizationId: actor.organizationId },
+            'Forgetting policy saved'
+        );
+
+        return policy;
+    }
+
+    async deletePolicy(agentId: string | null, actor: ActorContext): Promise<MemoryForgettingPolicy> {
+        const existing = await this.getPolicy(agentId, actor);
+        if (!existing) {
+            throw new NotFoundError('MemoryForgettingPolicy', agentId ?? actor.organizationId);
+        }
+
+        return this.prisma.memoryForgettingPolicy.delete({ where: { id: existing.id } });
+    }
+
+    /**
+     * Forget low-value memories according to the applicable policies
+     */
+    async applyPolicies(options: ForgettingOptions = {}): Promise<ForgettingResult> {
+        const now = new Date();
+        const policies = await this.loadPolicies(options.organizationId);
+        const defaults = this.getDefaultPolicy();
+
+        const minAgeDays = Math.min(defaults.minAgeDays, ...[...policies.values()].map((p) => p.minAgeDays));
+        const cutoff = options.olderThan ?? new Date(now.getTime() - minAgeDays * DAY_MS);
+
+        const result: ForgettingResult = {
+            scanned: 0,
+            archived: 0,
+            summarized: 0,
+            deleted: 0,
+            byType: {},
+            dryRun: options.dryRun ?? false,
+        };
+        let remaining = options.limit ?? Infinity;
+
+        for (const memoryType of MEMORY_TYPES) {
+            let afterId: string | undefined;
+
+            while (remaining > 0) {
+                const batch: ForgettingCandidate[] = await this.getDelegate(memoryType).findMany({
+                    where: {
+                        isDeleted: false,
+                        archivedAt: null,
+                        createdAt: { lte: cutoff },
+                        ...(options.organizationId && { organizationId: options.organizationId }),
+                        ...(afterId && { id: { gt: afterId } }),
+                    },
+                    select: {
+                        id: true,
+                        organizationId: true,
+                        userId: true,
+                        agentId: true,
+                        importance: true,
+                        accessCount: true,
+                        lastAccessedAt: true,
+                        createdAt: true,
+                        updatedAt: true,
+                    },
+                    orderBy: { id: 'asc' },
+                    take: SCAN_BATCH_SIZE,
+                });
+                if (batch.length === 0) {
+                    break;
+                }
+                afterId = batch[batch.length - 1].id;
+                result.scanned += batch.length;
+
+                const forgotten = new Map<ForgettingAction, ForgettingCandidate[]>();
+                for (const item of batch) {
+                    if (remaining <= 0) break;
+
+                    const policy = this.resolvePolicy(item, policies, defaults);
+                    if (!this.shouldForget(item, memoryType, policy, now, options.olderThan)) {
+                        continue;
+                    }
+
+                    forgotten.set(policy.action, [...(forgotten.get(policy.action) ?? []), item]);
+                    remaining--;
+                }
+
+                for (const [action, items] of forgotten) {
+                    if (!result.dryRun) {
+                        await this.forget(memoryType, action, items, now);
+                    }
+
+                    result.byType[memoryType] = (result.byType[memoryType] ?? 0) + items.length;
+                    if (action === 'archive') result.archived += items.length;
+                    if (action === 'summarize') result.summarized += items.length;
+                    if (action === 'soft_delete') result.deleted += items.length;
+                }
+            }
+        }
+
+        this.logger.info({ ...result, organizationId: options.organizationId }, 'Forgetting policies applied');
+
+        return result;
+    }
+
+    private shouldForget(
+        item: ForgettingCandidate,
+        memoryType: MemoryType,
+        policy: ResolvedForgettingPolicy,
+        now: Date,
+        olderThan: Date | undefined
+    ): boolean {
+        if (!policy.enabled) {
+            return false;
+        }
+        if (policy.memoryTypes.length > 0 && !policy.memoryTypes.includes(memoryType)) {
+            return false;
+        }
+        if (!olderThan && item.createdAt.getTime() > now.getTime() - policy.minAgeDays * DAY_MS) {
+            return false;
+        }
+
+        return memoryValue(item, policy.decay, now) < policy.threshold;
+    }
+
+    private async forget(
+        memoryType: MemoryType,
+        action: ForgettingAction,
+        items: ForgettingCandidate[],
+        now: Date
+    ): Promise<void> {
+        const delegate = this.getDelegate(memoryType);
+        const records: Array<Record<string, unknown> & { id: string }> = await delegate.findMany({
+            where: { id: { in: items.map((item) => item.id) } },
+        });
+
+        if (action === 'summarize') {
+            await this.writeDigests(memoryType, items, now);
+        }
+
+        const operation = action === 'archive' ? 'updated' : 'deleted';
+        const updated: unknown[] = await this.prisma.$transaction(
+            records.map((record) =>
+                delegate.update({
+                    where: { id: record.id },
+                    data: {
+                        ...(action === 'archive' ? { archivedAt: now } : { isDeleted: true }),
+                        lastModify: nextLastModify(record, now, operation),
+                        // Forgetting is not done on anyone's behalf
+                        lastUpdatedById: null,
+                        updatedAt: now,
+                    },
+                })
+            )
+        );
+
+        for (const [i, record] of records.entries()) {
+            await memoryRevisionService.record(memoryType, record, updated[i], operation);
+        }
+    }
+
+    /**
+     * Replace forgotten items with one episodic event per user and agent that
+     * lists what they were about
+     */
+    private async writeDigests(memoryType: MemoryType, items: ForgettingCandidate[], now: Date): Promise<void> {
+        const field = DIGEST_FIELDS[memoryType];
+        const records: Array<Record<string, string>> = await this.getDelegate(memoryType).findMany({
+            where: { id: { in: items.map((item) => item.id) } },
+            select: { id: true, [field]: true },
+        });
+        const textById = new Map(records.map((record) => [record.id, record[field]]));
+
+        const groups = new Map<string, ForgettingCandidate[]>();
+        for (const item of items) {
+            // Digests are written for a user in an organization
+            if (!item.organizationId) continue;
+
+            const key = `${item.organizationId}:${item.userId}:${item.agentId ?? ''}`;
+            groups.set(key, [...(groups.get(key) ?? []), item]);
+        }
+
+        for (const group of groups.values()) {
+            const [{ organizationId, userId, agentId }] = group;
+            const lines = group
+                .map((item) => textById.get(item.id)?.trim())
+                .filter((text): text is string => Boolean(text))
+                .map((text) => `- ${text}`);
+
+            await episodicMemoryManager.create({
+                id: `ep-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+                organizationId: organizationId!,
+                userId,
+                agentId: agentId ?? undefined,
+                occurredAt: now,
+                actor: 'system',
+                eventType: 'memory_digest',
+                summary: `Digest of ${group.length} forgotten ${memoryType} memories`,
+                details: lines.join('\n'),
+                importance: Math.max(...group.map((item) => item.importance)),
+            });
+        }
+    }
+
+    /**
+     * Stored policies keyed by organization and agent
+     */
+    private async loadPolicies(organizationId?: string): Promise<Map<string, ResolvedForgettingPolicy>> {
+        const rows = await this.prisma.memoryForgettingPolicy.findMany({
+            where: organizationId ? { organizationId } : {},
+        });
+
+        return new Map(
+            rows.map((row) => [`${row.organizationId}:${row.agentId ?? ''}`, this.toResolvedPolicy(row)])
+        );
+    }
+
+    private resolvePolicy(
+        item: ForgettingCandidate,
+        policies: Map<string, ResolvedForgettingPolicy>,
+        defaults: ResolvedForgettingPolicy
+    ): ResolvedForgettingPolicy {
+        return (
+            (item.agentId ? policies.get(`${item.organizationId}:${item.agentId}`) : undefined) ??
+            policies.get(`${item.organizationId}:`) ??
+            defaults
+        );
+    }
+
+    private toResolvedPolicy(row: MemoryForgettingPolicy): ResolvedForgettingPolicy {
+        const decayFunction = row.decayFunction as DecayFunction;
+        return {
+            id: row.id,
+            action: FORGETTING_ACTIONS.includes(row.action as ForgettingAction)
+                ? (row.action as ForgettingAction)
+                : 'archive',
+            decay: {
+                decayFunction: DECAY_FUNCTIONS.includes(decayFunction) ? decayFunction : 'exponential',
+                halfLifeDays: row.halfLifeDays,
+            },
+            threshold: row.threshold,
+            minAgeDays: row.minAgeDays,
+            memoryTypes: row.memoryTypes.filter((type): type is MemoryType =>
+                (MEMORY_TYPES as readonly string[]).includes(type)
+            ),
+            enabled: row.enabled,
+        };
+    }
+
+    private getDelegate(memoryType: MemoryType): AnyDelegate {
+        switch (memoryType) {
+            case 'episodic':
+                return this.prisma.episodicEvent;
+            case 'semantic':
+                return this.prisma.semanticMemoryItem;
+            case 'procedural':
+                return this.prisma.proceduralMemoryItem;
+            case 'resource':
+                return this.prisma.resourceMemoryItem;
+            case 'knowledge':
+                return this.prisma.knowledgeItem;
+        }
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * lastModify entry for a forgotten item; items that went through a merge keep
+ * their history with the replaced entry appended
+ */
+function nextLastModify(
+    record: Record<string, unknown>,
+    now: Date,
+    operation: 'updated' | 'deleted'
+): Record<string, unknown> {
+    const next: Record<string, unknown> = { timestamp: now.toISOString(), operation };
+    const previous = record.lastModify as Record<string, unknown> | null;
+
+    if (previous && Array.isArray(previous.history)) {
+        next.history = [
+            ...previous.history,
+            { timestamp: previous.timestamp, operation: previous.operation, itemId: record.id },
+        ];
+    }
+
+    return next;
+}
+
+// Singleton instance
+export const memoryForgettingService = new MemoryForgettingService();
+
+export default memoryForgettingService;
@@ -7,6 +7,11 @@
 export {
     BaseMemoryManager,
     type MemoryListOptions,
+    type MemorySearchOptions,
+    type EmbeddingSearchOptions,
+    type ScoredMemory,
+    type FullTextSearchOptions,
+    type RankedMemory,
     type CacheConfig,
 } from './base-memory-manager';
 
@@ -45,3 +50,88 @@ export {
     type CreateKnowledgeItemInput,
     type UpdateKnowledgeItemInput,
 } from './knowledge-memory-manager';
+
+// Hybrid retrieval
+export {
+    memoryRetrievalService,
+    MemoryRetrievalService,
+    MEMORY_TYPES,
+    MEMORY_MANAGERS,
+    type MemoryType,
+    type HybridRetrievalOptions,
+    type RetrievedMemory,
+} from './retrieval-service';
+
+// Duplicate detection
+export {
+    memoryDuplicateService,
+    MemoryDuplicateService,
+    DEDUPLICATED_MEMORY_TYPES,
+    normalizeMemoryName,
+    getDuplicatePolicy,
+    type DeduplicatedMemoryType,
+    type DuplicatePolicy,
+    type DuplicateMatch,
+    type DuplicatePair,
+    type DuplicateReportOptions,
+    type DedupItem,
+    type IncomingMemory,
+    type LastModifyEntry,
+    type MergedLastModify,
+} from './duplicate-service';
+
+// Decay, ranking and forgetting
+export {
+    DECAY_FUNCTIONS,
+    decayFactor,
+    frequencyScore,
+    memoryValue,
+    rankingFactors,
+    rankingScore,
+    getDefaultDecayConfig,
+    getDefaultRankingWeights,
+    type DecayFunction,
+    type DecayConfig,
+    type MemoryUsage,
+    type MemoryRankingWeights,
+    type MemoryRankingFactors,
+} from './decay';
+
+export {
+    memoryForgettingService,
+    MemoryForgettingService,
+    FORGETTING_ACTIONS,
+    type ForgettingAction,
+    type ForgettingPolicyInput,
+    type ResolvedForgettingPolicy,
+    type ForgettingOptions,
+    type ForgettingResult,
+} from './forgetting-service';
+
+// Revision history
+export {
+    memoryRevisionService,
+    MemoryRevisionService,
+    type RevisionItemType,
+    type RevisionOperation,
+    type RevisionActorType,
+    type RevisionDiff,
+    type RecordRevisionOptions,
+} from './revision-service';
+
+// Provenance
+export {
+    memoryProvenanceService,
+    MemoryProvenanceService,
+    type MemoryProvenanceSource,
+    type MemoryProvenanceEntry,
+    type ProvenanceMessage,
+} from './provenance-service';
+
+// Rerankers
+export {
+    NoopReranker,
+    LLMReranker,
+    type Reranker,
+    type RerankCandidate,
+} from './reranker';
@@ -1,13 +1,18 @@
 /**
  * Knowledge Memory Manager
- * Manages knowledge items - credentials and bookmarks
+ * Manages knowledge items - credentials and bookmarks. Secret values are
+ * stored envelope-encrypted and masked in every record the manager returns;
+ * revealSecret decrypts one and writes an audit record.
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { KnowledgeItem, Prisma } from '@prisma/client';
 import { BaseMemoryManager, CacheConfig, MemoryListOptions } from './base-memory-manager';
+import type { MemoryProvenanceSource } from './provenance-service';
 import { RedisMemoryClient } from '../../database/redis-client';
 import { ActorContext, ListResult } from '../base-manager';
 import { ValidationError } from '../../errors';
+import { secretVault, MASKED_SECRET } from '../../security/secret-vault';
 
 // ============================================================================
 // TYPES
@@ -15,7 +20,7 @@ import { ValidationError } from '../../errors';
 
 export interface LastModify {
     timestamp: string;
-    operation: 'created' | 'updated' | 'deleted';
+    operation: 'created' | 'updated' | 'deleted' | 'reverted';
 }
 
 export interface CreateKnowledgeItemInput {
@@ -31,6 +36,10 @@ export interface CreateKnowledgeItemInput {
     filterTags?: unknown;
     embeddingConfig?: unknown;
     clientId?: string;
+    /** How much the item matters, 0-1 (default: 0.5) */
+    importance?: number;
+    /** Messages and traces the item was written from */
+    provenance?: MemoryProvenanceSource;
 }
 
 export interface UpdateKnowledgeItemInput {
@@ -41,6 +50,7 @@ export interface UpdateKnowledgeItemInput {
     caption?: string;
     filterTags?: unknown;
     embeddingConfig?: unknown;
+    importance?: number;
 }
 
 // ============================================================================
@@ -56,6 +66,7 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
     UpdateKnowledgeItemInput
 > {
     protected readonly modelName = 'KnowledgeItem';
+    protected readonly memoryType = 'knowledge' as const;
 
     protected readonly cacheConfig: CacheConfig = {
         enabled: true,
@@ -63,6 +74,12 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
         ttl: 14400, // 4 hours
     };
 
+    protected readonly searchFields = ['caption', 'source'] as const;
+
+    protected readonly tableName = 'knowledge';
+
+    protected readonly embeddingColumns = { caption: 'caption_embedding' };
+
     protected getDelegate(): AnyDelegate {
         return this.prisma.knowledgeItem;
     }
@@ -82,7 +99,48 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             throw new ValidationError('User not found', { field: 'userId' });
         }
 
-        return super.create(data, actor);
+        return super.create({ ...data, secretValue: await secretVault.encrypt(data.secretValue) }, actor);
+    }
+
+    /**
+     * Update a knowledge item, encrypting a new secret value
+     */
+    async update(
+        id: string,
+        data: UpdateKnowledgeItemInput,
+        actor?: ActorContext
+    ): Promise<KnowledgeItem> {
+        if (data.secretValue === undefined) {
+            return super.update(id, data, actor);
+        }
+
+        return super.update(id, { ...data, secretValue: await secretVault.encrypt(data.secretValue) }, actor);
+    }
+
+    /**
+     * Decrypt the secret value of an item. The reveal is written to the
+     * secret access log before the value is decrypted.
+     */
+    async revealSecret(
+        id: string,
+        actor: ActorContext
+    ): Promise<string> {
+        const item = await this.readRecord(id, actor);
+
+        await this.prisma.secretAccessLog.create({
+            data: {
+                id: `secret-access-${uuidv4()}`,
+                itemId: item.id,
+                action: 'reveal',
+                clientId: actor.id,
+                apiKeyId: actor.apiKeyId,
+                organizationId: item.organizationId ?? actor.organizationId,
+            },
+        });
+
+        this.logger.info({ id, actor: actor.id, apiKeyId: actor.apiKeyId }, 'Knowledge item secret revealed');
+
+        return secretVault.decrypt(item.secretValue);
     }
 
     /**
@@ -98,13 +156,14 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             agentId,
             entryType,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
             where.organizationId = actor.organizationId;
         }
 
-        return this.getDelegate().findMany({
+        return this.findPresented({
             where,
             orderBy: { updatedAt: 'desc' },
             take: limit,
@@ -124,13 +183,14 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             agentId,
             source,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
             where.organizationId = actor.organizationId;
         }
 
-        return this.getDelegate().findMany({
+        return this.findPresented({
             where,
             orderBy: { updatedAt: 'desc' },
             take: limit,
@@ -150,13 +210,14 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             agentId,
             sensitivity,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
             where.organizationId = actor.organizationId;
         }
 
-        return this.getDelegate().findMany({
+        return this.findPresented({
             where,
             orderBy: { updatedAt: 'desc' },
             take: limit,
@@ -176,13 +237,14 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             agentId,
             caption: { contains: pattern, mode: 'insensitive' },
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
             where.organizationId = actor.organizationId;
         }
 
-        return this.getDelegate().findMany({
+        return this.findPresented({
             where,
             orderBy: { updatedAt: 'desc' },
             take: limit,
@@ -200,13 +262,14 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
         const where: Prisma.KnowledgeItemWhereInput = {
             agentId,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
             where.organizationId = actor.organizationId;
         }
 
-        return this.getDelegate().findMany({
+        return this.findPresented({
             where,
             orderBy: { updatedAt: 'desc' },
             take: limit,
@@ -227,6 +290,7 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
             entryType,
             sensitivity,
@@ -240,6 +304,10 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             where.isDeleted = false;
         }
 
+        if (!includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (agentId) {
             where.agentId = agentId;
         }
@@ -281,7 +349,7 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             ? items[items.length - 1].id
             : undefined;
 
-        return { items, total, hasMore, nextCursor };
+        return { items: items.map((item: KnowledgeItem) => this.presentRecord(item)), total, hasMore, nextCursor };
     }
 
     /**
@@ -336,6 +404,19 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
         return counts;
     }
 
+    /**
+     * Secrets never leave the manager unmasked; empty values stay empty so
+     * callers can tell bookmarks from credentials
+     */
+    protected presentRecord(record: KnowledgeItem): KnowledgeItem {
+        return { ...record, secretValue: record.secretValue ? MASKED_SECRET : '' };
+    }
+
+    private async findPresented(args: Prisma.KnowledgeItemFindManyArgs): Promise<KnowledgeItem[]> {
+        const items: KnowledgeItem[] = await this.getDelegate().findMany(args);
+        return items.map((item) => this.presentRecord(item));
+    }
+
     // ========================================================================
     // DATA PREPARATION
     // ========================================================================
@@ -359,6 +440,7 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
             filterTags: data.filterTags ?? Prisma.JsonNull,
             embeddingConfig: data.embeddingConfig ?? Prisma.JsonNull,
             lastModify: lastModify as Prisma.InputJsonValue,
+            importance: data.importance,
             organization: data.organizationId
                 ? { connect: { id: data.organizationId } }
                 : undefined,
@@ -396,6 +478,7 @@ class KnowledgeMemoryManager extends BaseMemoryManager<
         if (data.caption !== undefined) updateData.caption = data.caption;
         if (data.filterTags !== undefined) updateData.filterTags = data.filterTags as Prisma.InputJsonValue;
         if (data.embeddingConfig !== undefined) updateData.embeddingConfig = data.embeddingConfig as Prisma.InputJsonValue;
+        if (data.importance !== undefined) updateData.importance = data.importance;
 
         return updateData;
     }
@@ -5,6 +5,7 @@
 
 import { ProceduralMemoryItem, Prisma } from '@prisma/client';
 import { BaseMemoryManager, CacheConfig, MemoryListOptions } from './base-memory-manager';
+import type { MemoryProvenanceSource } from './provenance-service';
 import { RedisMemoryClient } from '../../database/redis-client';
 import { ActorContext, ListResult } from '../base-manager';
 import { ValidationError } from '../../errors';
@@ -15,7 +16,7 @@ import { ValidationError } from '../../errors';
 
 export interface LastModify {
     timestamp: string;
-    operation: 'created' | 'updated' | 'deleted';
+    operation: 'created' | 'updated' | 'deleted' | 'reverted';
 }
 
 export interface CreateProceduralMemoryInput {
@@ -29,6 +30,12 @@ export interface CreateProceduralMemoryInput {
     filterTags?: unknown;
     embeddingConfig?: unknown;
     clientId?: string;
+    /** Episodic events the item was consolidated from */
+    sourceEventIds?: string[];
+    /** How much the item matters, 0-1 (default: 0.5) */
+    importance?: number;
+    /** Messages and traces the item was written from */
+    provenance?: MemoryProvenanceSource;
 }
 
 export interface UpdateProceduralMemoryInput {
@@ -37,6 +44,8 @@ export interface UpdateProceduralMemoryInput {
     steps?: unknown;
     filterTags?: unknown;
     embeddingConfig?: unknown;
+    sourceEventIds?: string[];
+    importance?: number;
 }
 
 // ============================================================================
@@ -52,6 +61,7 @@ class ProceduralMemoryManager extends BaseMemoryManager<
     UpdateProceduralMemoryInput
 > {
     protected readonly modelName = 'ProceduralMemoryItem';
+    protected readonly memoryType = 'procedural' as const;
 
     protected readonly cacheConfig: CacheConfig = {
         enabled: true,
@@ -59,6 +69,12 @@ class ProceduralMemoryManager extends BaseMemoryManager<
         ttl: 7200, // 2 hours
     };
 
+    protected readonly searchFields = ['summary', 'entryType'] as const;
+
+    protected readonly tableName = 'procedural_memory';
+
+    protected readonly embeddingColumns = { summary: 'summary_embedding', steps: 'steps_embedding' };
+
     protected getDelegate(): AnyDelegate {
         return this.prisma.proceduralMemoryItem;
     }
@@ -94,6 +110,7 @@ class ProceduralMemoryManager extends BaseMemoryManager<
             agentId,
             entryType,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -120,6 +137,7 @@ class ProceduralMemoryManager extends BaseMemoryManager<
             agentId,
             summary: { contains: pattern, mode: 'insensitive' },
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -144,6 +162,7 @@ class ProceduralMemoryManager extends BaseMemoryManager<
         const where: Prisma.ProceduralMemoryItemWhereInput = {
             agentId,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -171,6 +190,7 @@ class ProceduralMemoryManager extends BaseMemoryManager<
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
             entryType,
         } = options;
@@ -183,6 +203,10 @@ class ProceduralMemoryManager extends BaseMemoryManager<
             where.isDeleted = false;
         }
 
+        if (!includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (agentId) {
             where.agentId = agentId;
         }
@@ -269,7 +293,9 @@ class ProceduralMemoryManager extends BaseMemoryManager<
             steps: (data.steps ?? []) as Prisma.InputJsonValue,
             filterTags: data.filterTags ?? Prisma.JsonNull,
             embeddingConfig: data.embeddingConfig ?? Prisma.JsonNull,
+            sourceEventIds: data.sourceEventIds ?? [],
             lastModify: lastModify as Prisma.InputJsonValue,
+            importance: data.importance,
             organization: data.organizationId
                 ? { connect: { id: data.organizationId } }
                 : undefined,
@@ -305,6 +331,8 @@ class ProceduralMemoryManager extends BaseMemoryManager<
         if (data.steps !== undefined) updateData.steps = data.steps as Prisma.InputJsonValue;
         if (data.filterTags !== undefined) updateData.filterTags = data.filterTags as Prisma.InputJsonValue;
         if (data.embeddingConfig !== undefined) updateData.embeddingConfig = data.embeddingConfig as Prisma.InputJsonValue;
+        if (data.sourceEventIds !== undefined) updateData.sourceEventIds = data.sourceEventIds;
+        if (data.importance !== undefined) updateData.importance = data.importance;
 
         return updateData;
     }
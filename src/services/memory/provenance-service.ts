@@ -0,0 +1,123 @@
+/**
+ * Memory Provenance Service
+ * Links memory items back to what produced them: the conversation messages a
+ * memory agent read, the queue and agent traces of the memory update, and the
+ * sub-agent that wrote the item. An item collects one entry when it is created
+ * and one for every later write from another conversation, such as a merge.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryProvenance } from '@prisma/client';
+import { prismaRaw } from '../../database/prisma-client';
+import { logger } from '../../log';
+import { ActorContext } from '../base-manager';
+import type { MemoryType } from './retrieval-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Source references of a memory write, taken from the memory tool's context
+ */
+export interface MemoryProvenanceSource {
+    messageIds?: string[];
+    queueTraceId?: string;
+    agentTraceId?: string;
+    agentId?: string;
+    /** Sub-agent that wrote the item, e.g. semantic_memory_agent */
+    agentType?: string;
+}
+
+export interface ProvenanceMessage {
+    id: string;
+    role: string;
+    text: string | null;
+    createdAt: Date;
+}
+
+/**
+ * A provenance entry with the conversation excerpt it points to. Messages
+ * deleted since are left out.
+ */
+export interface MemoryProvenanceEntry extends MemoryProvenance {
+    messages: ProvenanceMessage[];
+}
+
+// ============================================================================
+// PROVENANCE SERVICE
+// ============================================================================
+
+export class MemoryProvenanceService {
+    private readonly prisma = prismaRaw;
+    private readonly logger = logger;
+
+    /**
+     * Store the sources of a write to an item. Writes made outside a memory
+     * update and without source messages carry nothing worth recording.
+     * Failures are logged so the memory write itself is kept.
+     */
+    async record(
+        itemType: MemoryType,
+        itemId: string,
+        source: MemoryProvenanceSource,
+        organizationId: string | null
+    ): Promise<MemoryProvenance | null> {
+        const messageIds = [...new Set(source.messageIds ?? [])];
+        if (messageIds.length === 0 && !source.queueTraceId && !source.agentTraceId) {
+            return null;
+        }
+
+        try {
+            return await this.prisma.memoryProvenance.create({
+                data: {
+                    id: `prov-${uuidv4()}`,
+                    itemType,
+                    itemId,
+                    messageIds,
+                    queueTraceId: source.queueTraceId,
+                    agentTraceId: source.agentTraceId,
+                    agentId: source.agentId,
+                    agentType: source.agentType,
+                    organizationId,
+                },
+            });
+        } catch (error) {
+            this.logger.warn({ error, itemType, itemId }, 'Failed to record memory provenance');
+            return null;
+        }
+    }
+
+    /**
+     * Provenance entries of an item, newest first, each with its source
+     * messages in conversation order
+     */
+    async listProvenance(
+        itemType: MemoryType,
+        itemId: string,
+        actor: ActorContext
+    ): Promise<MemoryProvenanceEntry[]> {
+        const entries = await this.prisma.memoryProvenance.findMany({
+            where: { itemType, itemId, organizationId: actor.organizationId },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        const messageIds = [...new Set(entries.flatMap((entry) => entry.messageIds))];
+        const messages = messageIds.length > 0
+            ? await this.prisma.message.findMany({
+                where: { id: { in: messageIds }, organizationId: actor.organizationId, isDeleted: false },
+                select: { id: true, role: true, text: true, createdAt: true },
+                orderBy: { createdAt: 'asc' },
+            })
+            : [];
+
+        return entries.map((entry) => {
+            const ids = new Set(entry.messageIds);
+            return { ...entry, messages: messages.filter((message) => ids.has(message.id)) };
+        });
+    }
+}
+
+export const memoryProvenanceService = new MemoryProvenanceService();
+
+export default memoryProvenanceService;
@@ -0,0 +1,112 @@
+/**
+ * Rerankers
+ * Pluggable second-stage ordering for fused memory retrieval results
+ */
+
+import { z } from 'zod';
+import { LLMClient } from '../../llm_api/client';
+import { LLMConfig } from '../../schemas/llm_config';
+import { logger } from '../../log';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RerankCandidate {
+    id: string;
+    memoryType: string;
+    /** Text the reranker judges relevance on */
+    text: string;
+}
+
+export interface Reranker {
+    readonly name: string;
+
+    /**
+     * Reorder candidates by relevance to the query and keep the top `limit`
+     */
+    rerank<T extends RerankCandidate>(query: string, candidates: T[], limit: number): Promise<T[]>;
+}
+
+// ============================================================================
+// NO-OP RERANKER
+// ============================================================================
+
+/**
+ * Keeps the fused order as-is
+ */
+export class NoopReranker implements Reranker {
+    readonly name = 'none';
+
+    async rerank<T extends RerankCandidate>(_query: string, candidates: T[], limit: number): Promise<T[]> {
+        return candidates.slice(0, limit);
+    }
+}
+
+// ============================================================================
+// LLM RERANKER
+// ============================================================================
+
+const RERANK_SYSTEM_PROMPT = `You rank memory items by how relevant they are to a user's query.
+Score every item from 0 (unrelated) to 1 (directly answers the query).
+Only use the item indices you are given.`;
+
+const RerankResponseSchema = z.object({
+    ranking: z.array(
+        z.object({
+            index: z.number().int(),
+            relevance: z.number().min(0).max(1),
+        })
+    ),
+});
+
+/** Maximum characters of each candidate shown to the model */
+const MAX_CANDIDATE_CHARS = 500;
+
+/**
+ * Scores candidates with a structured LLM call. Falls back to the fused order
+ * when the call fails, and appends any candidate the model left out.
+ */
+export class LLMReranker implements Reranker {
+    readonly name = 'llm';
+    private client: LLMClient;
+
+    constructor(llmConfig: LLMConfig) {
+        this.client = new LLMClient(llmConfig);
+    }
+
+    async rerank<T extends RerankCandidate>(query: string, candidates: T[], limit: number): Promise<T[]> {
+        if (candidates.length <= 1) {
+            return candidates.slice(0, limit);
+        }
+
+        const listing = candidates
+            .map((c, i) => `[${i}] (${c.memoryType}) ${c.text.slice(0, MAX_CANDIDATE_CHARS)}`)
+            .join('\n');
+
+        try {
+            const { object } = await this.client.generateStructured(
+                `Query: ${query}\n\nMemory items:\n${listing}`,
+                RerankResponseSchema,
+                { system: RERANK_SYSTEM_PROMPT, temperature: 0 }
+            );
+
+            const relevance = new Map<number, number>();
+            for (const { index, relevance: score } of object.ranking) {
+                if (index >= 0 && index < candidates.length && !relevance.has(index)) {
+                    relevance.set(index, score);
+                }
+            }
+
+            // Stable sort: ties and unscored candidates keep their fused order
+            return candidates
+                .map((candidate, index) => ({ candidate, index, score: relevance.get(index) ?? -1 }))
+                .sort((a, b) => b.score - a.score || a.index - b.index)
+                .slice(0, limit)
+                .map(({ candidate }) => candidate);
+        } catch (error) {
+            logger.warn({ error, candidates: candidates.length }, 'LLM rerank failed, keeping fused order');
+            return candidates.slice(0, limit);
+        }
+    }
+}
@@ -5,6 +5,7 @@
 
 import { ResourceMemoryItem, Prisma } from '@prisma/client';
 import { BaseMemoryManager, CacheConfig, MemoryListOptions } from './base-memory-manager';
+import type { MemoryProvenanceSource } from './provenance-service';
 import { RedisMemoryClient } from '../../database/redis-client';
 import { ActorContext, ListResult } from '../base-manager';
 import { ValidationError } from '../../errors';
@@ -15,7 +16,7 @@ import { ValidationError } from '../../errors';
 
 export interface LastModify {
     timestamp: string;
-    operation: 'created' | 'updated' | 'deleted';
+    operation: 'created' | 'updated' | 'deleted' | 'merged' | 'reverted';
 }
 
 export interface CreateResourceMemoryInput {
@@ -30,6 +31,10 @@ export interface CreateResourceMemoryInput {
     filterTags?: unknown;
     embeddingConfig?: unknown;
     clientId?: string;
+    /** How much the item matters, 0-1 (default: 0.5) */
+    importance?: number;
+    /** Messages and traces the item was written from */
+    provenance?: MemoryProvenanceSource;
 }
 
 export interface UpdateResourceMemoryInput {
@@ -39,6 +44,7 @@ export interface UpdateResourceMemoryInput {
     content?: string;
     filterTags?: unknown;
     embeddingConfig?: unknown;
+    importance?: number;
 }
 
 // ============================================================================
@@ -54,6 +60,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
     UpdateResourceMemoryInput
 > {
     protected readonly modelName = 'ResourceMemoryItem';
+    protected readonly memoryType = 'resource' as const;
 
     protected readonly cacheConfig: CacheConfig = {
         enabled: true,
@@ -61,6 +68,12 @@ class ResourceMemoryManager extends BaseMemoryManager<
         ttl: 7200, // 2 hours
     };
 
+    protected readonly searchFields = ['title', 'summary', 'content'] as const;
+
+    protected readonly tableName = 'resource_memory';
+
+    protected readonly embeddingColumns = { summary: 'summary_embedding' };
+
     protected getDelegate(): AnyDelegate {
         return this.prisma.resourceMemoryItem;
     }
@@ -96,6 +109,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
             agentId,
             resourceType,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -121,6 +135,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
             agentId,
             title,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -143,6 +158,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
             agentId,
             title: { contains: pattern, mode: 'insensitive' },
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -167,6 +183,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
         const where: Prisma.ResourceMemoryItemWhereInput = {
             agentId,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -194,6 +211,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
             resourceType,
         } = options;
@@ -206,6 +224,10 @@ class ResourceMemoryManager extends BaseMemoryManager<
             where.isDeleted = false;
         }
 
+        if (!includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (agentId) {
             where.agentId = agentId;
         }
@@ -294,6 +316,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
             filterTags: data.filterTags ?? Prisma.JsonNull,
             embeddingConfig: data.embeddingConfig ?? Prisma.JsonNull,
             lastModify: lastModify as Prisma.InputJsonValue,
+            importance: data.importance,
             organization: data.organizationId
                 ? { connect: { id: data.organizationId } }
                 : undefined,
@@ -330,6 +353,7 @@ class ResourceMemoryManager extends BaseMemoryManager<
         if (data.content !== undefined) updateData.content = data.content;
         if (data.filterTags !== undefined) updateData.filterTags = data.filterTags as Prisma.InputJsonValue;
         if (data.embeddingConfig !== undefined) updateData.embeddingConfig = data.embeddingConfig as Prisma.InputJsonValue;
+        if (data.importance !== undefined) updateData.importance = data.importance;
 
         return updateData;
     }
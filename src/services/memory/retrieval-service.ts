@@ -0,0 +1,258 @@
+/**
+ * Memory Retrieval Service
+ * Hybrid retrieval over every memory type: embedding and BM25 legs fused with
+ * reciprocal rank fusion, blended with recency, importance and access
+ * frequency, then handed to a pluggable reranker
+ */
+
+import { logger } from '../../log';
+import { ActorContext } from '../base-manager';
+import { EmbeddingConfig } from '../agent-manager';
+import { createEmbeddingClientFromAgentConfig } from '../../embeddings';
+import { BaseMemoryManager, MemorySearchOptions } from './base-memory-manager';
+import { episodicMemoryManager } from './episodic-memory-manager';
+import { semanticMemoryManager } from './semantic-memory-manager';
+import { proceduralMemoryManager } from './procedural-memory-manager';
+import { resourceMemoryManager } from './resource-memory-manager';
+import { knowledgeMemoryManager } from './knowledge-memory-manager';
+import { NoopReranker, Reranker } from './reranker';
+import {
+    DecayConfig,
+    MemoryRankingFactors,
+    MemoryRankingWeights,
+    getDefaultDecayConfig,
+    getDefaultRankingWeights,
+    rankingFactors,
+    rankingScore,
+} from './decay';
+
+// ============================================================================
+// MEMORY TYPES
+// ============================================================================
+
+export const MEMORY_TYPES = ['episodic', 'semantic', 'procedural', 'resource', 'knowledge'] as const;
+
+export type MemoryType = (typeof MEMORY_TYPES)[number];
+
+export const MEMORY_MANAGERS: Record<MemoryType, BaseMemoryManager<unknown, unknown, unknown>> = {
+    episodic: episodicMemoryManager,
+    semantic: semanticMemoryManager,
+    procedural: proceduralMemoryManager,
+    resource: resourceMemoryManager,
+    knowledge: knowledgeMemoryManager,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HybridRetrievalOptions extends Omit<MemorySearchOptions, 'limit'> {
+    /** Total number of fused results to return (default: 10) */
+    limit?: number;
+    /** Candidates fetched per memory type and retrieval leg (default: limit) */
+    candidateLimit?: number;
+    memoryTypes?: MemoryType[];
+    /** Keywords for the BM25 leg, OR-ed together. Defaults to the query text. */
+    keywords?: string[];
+    /** Embedding config for the query. The embedding leg is skipped without one. */
+    embeddingConfig?: EmbeddingConfig | null;
+    /** Text search language for the BM25 leg */
+    language?: string;
+    /** RRF damping constant (default: 60) */
+    rrfK?: number;
+    /** Weights of the ranking signals (default: from settings) */
+    rankingWeights?: Partial<MemoryRankingWeights>;
+    /** Decay applied to the recency signal (default: from settings) */
+    decayConfig?: DecayConfig;
+    /** Count the returned items as accessed (default: true) */
+    recordAccess?: boolean;
+    reranker?: Reranker;
+}
+
+export interface RetrievedMemory {
+    id: string;
+    memoryType: MemoryType;
+    item: Record<string, unknown>;
+    /** Weighted sum of the ranking factors */
+    score: number;
+    /** Relevance is the reciprocal rank fusion score relative to the best candidate */
+    factors?: MemoryRankingFactors;
+    /** 1-based rank within each leg's per-type list */
+    ranks: { bm25?: number; embedding?: number };
+    snippet?: string;
+    /** Text used for reranking */
+    text: string;
+}
+
+type RetrievalLeg = keyof RetrievedMemory['ranks'];
+
+/** Standard RRF constant from Cormack et al. */
+const DEFAULT_RRF_K = 60;
+
+// ============================================================================
+// RETRIEVAL SERVICE
+// ============================================================================
+
+export class MemoryRetrievalService {
+    private defaultReranker: Reranker = new NoopReranker();
+
+    /**
+     * Fan out embedding and BM25 searches across memory types, fuse them with
+     * reciprocal rank fusion and rerank the fused list
+     */
+    async retrieve(
+        query: string,
+        options: HybridRetrievalOptions = {},
+        actor?: ActorContext
+    ): Promise<RetrievedMemory[]> {
+        const limit = options.limit ?? 10;
+        const candidateLimit = options.candidateLimit ?? limit;
+        const rrfK = options.rrfK ?? DEFAULT_RRF_K;
+        const types = options.memoryTypes ?? [...MEMORY_TYPES];
+        const reranker = options.reranker ?? this.defaultReranker;
+
+        const bm25Query = options.keywords?.length ? options.keywords.join(' or ') : query;
+        const queryEmbedding = await this.embedQuery(query, options.embeddingConfig);
+
+        const fused = new Map<string, RetrievedMemory>();
+        const addRanked = (
+            type: MemoryType,
+            leg: RetrievalLeg,
+            items: Array<{ item: unknown; snippet?: string }>
+        ): void => {
+            items.forEach(({ item, snippet }, index) => {
+                const record = item as Record<string, unknown>;
+                const id = String(record.id);
+                const key = `${type}:${id}`;
+                const rank = index + 1;
+
+                const entry = fused.get(key) ?? {
+                    id,
+                    memoryType: type,
+                    item: record,
+                    score: 0,
+                    ranks: {},
+                    text: this.candidateText(MEMORY_MANAGERS[type], record),
+                };
+                entry.score += 1 / (rrfK + rank);
+                entry.ranks[leg] = rank;
+                entry.snippet ??= snippet;
+                fused.set(key, entry);
+            });
+        };
+
+        await Promise.all(
+            types.map(async (type) => {
+                const manager = MEMORY_MANAGERS[type];
+                const searchOptions = {
+                    limit: candidateLimit,
+                    userId: options.userId,
+                    filterTags: options.filterTags,
+                    // Date ranges refer to when events occurred, so only episodic memory is filtered
+                    dateRange: type === 'episodic' ? options.dateRange : undefined,
+                };
+
+                // Without `db:fulltext` the table has no usable tsvector columns; rank by embedding only
+                const bm25Ready = await manager.canBm25Search(options.language);
+                if (!bm25Ready) {
+                    logger.warn({ memoryType: type }, 'Full-text search columns are stale, using embeddings only');
+                }
+
+                const [bm25, embedding] = await Promise.all([
+                    bm25Ready
+                        ? manager.bm25Search(bm25Query, undefined, {
+                            ...searchOptions,
+                            language: options.language,
+                        }, actor)
+                        : Promise.resolve([]),
+                    queryEmbedding
+                        ? manager.embeddingSearch(queryEmbedding, undefined, searchOptions, actor)
+                        : Promise.resolve([]),
+                ]);
+
+                addRanked(type, 'bm25', bm25);
+                addRanked(type, 'embedding', embedding);
+            })
+        );
+
+        const weights = { ...getDefaultRankingWeights(), ...options.rankingWeights };
+        const decayConfig = options.decayConfig ?? getDefaultDecayConfig();
+        const bestScore = Math.max(0, ...[...fused.values()].map((entry) => entry.score));
+        const now = new Date();
+
+        for (const entry of fused.values()) {
+            entry.factors = rankingFactors(entry.item, bestScore > 0 ? entry.score / bestScore : 0, decayConfig, now);
+            entry.score = rankingScore(entry.factors, weights);
+        }
+
+        const ranked = [...fused.values()].sort((a, b) => b.score - a.score);
+
+        logger.debug(
+            { candidates: ranked.length, reranker: reranker.name, embedding: !!queryEmbedding },
+            'Fused memory retrieval candidates'
+        );
+
+        const results = await reranker.rerank(query, ranked, limit);
+
+        if (options.recordAccess ?? true) {
+            await this.recordAccess(results, actor);
+        }
+
+        return results;
+    }
+
+    /**
+     * Count a retrieval of each returned item
+     */
+    async recordAccess(
+        results: Array<Pick<RetrievedMemory, 'id' | 'memoryType'>>,
+        actor?: ActorContext
+    ): Promise<void> {
+        const idsByType = new Map<MemoryType, string[]>();
+        for (const { id, memoryType } of results) {
+            idsByType.set(memoryType, [...(idsByType.get(memoryType) ?? []), id]);
+        }
+
+        await Promise.all(
+            [...idsByType].map(([type, ids]) => MEMORY_MANAGERS[type].recordAccess(ids, actor))
+        );
+    }
+
+    /**
+     * Embed the query, or skip the embedding leg when it cannot be embedded
+     */
+    private async embedQuery(
+        query: string,
+        config: EmbeddingConfig | null | undefined
+    ): Promise<number[] | undefined> {
+        if (!query.trim() || !config?.model || !config.modelEndpointType) {
+            return undefined;
+        }
+
+        try {
+            const { embedding } = await createEmbeddingClientFromAgentConfig(config).embed(query);
+            return embedding;
+        } catch (error) {
+            logger.warn({ error, model: config.model }, 'Query embedding failed, using BM25 only');
+            return undefined;
+        }
+    }
+
+    /**
+     * Join a record's full-text fields into the text shown to the reranker
+     */
+    private candidateText(
+        manager: BaseMemoryManager<unknown, unknown, unknown>,
+        record: Record<string, unknown>
+    ): string {
+        return manager
+            .getFullTextFields()
+            .map((field) => record[field])
+            .filter((value) => value !== null && value !== undefined && value !== '')
+            .map((value) => (typeof value === 'string' ? value : JSON.stringify(value)))
+            .join(' | ');
+    }
+}
+
+// Export singleton instance
+export const memoryRetrievalService = new MemoryRetrievalService();
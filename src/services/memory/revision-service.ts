@@ -0,0 +1,216 @@
+/**
+ * Memory Revision Service
+ * Append-only history of core memory blocks and memory items. Every write
+ * stores a snapshot of the record after the change, the fields that changed,
+ * who made it (an agent through a memory tool, a user, an API key or the
+ * system) and the memory agent trace it belongs to. Reverting restores a
+ * snapshot and is itself recorded as a revision.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryRevision, Prisma } from '@prisma/client';
+import { prismaRaw } from '../../database/prisma-client';
+import { logger } from '../../log';
+import { NotFoundError } from '../../errors';
+import { MASKED_SECRET } from '../../security/secret-vault';
+import { ActorContext } from '../base-manager';
+import type { MemoryType } from './retrieval-service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RevisionItemType = 'block' | MemoryType;
+
+export type RevisionOperation = 'created' | 'updated' | 'deleted' | 'merged' | 'reverted';
+
+export type RevisionActorType = 'agent' | 'api_key' | 'user' | 'client' | 'system';
+
+/** Changed fields with their value before and after the revision */
+export type RevisionDiff = Record<string, { from: unknown; to: unknown }>;
+
+export interface RecordRevisionOptions {
+    /** Revision whose snapshot a revert restored */
+    revertedToId?: string;
+}
+
+/**
+ * Bookkeeping columns that change on every write; left out of diffs so a
+ * revision shows what was actually edited
+ */
+const UNTRACKED_FIELDS = new Set([
+    'updatedAt',
+    'lastModify',
+    'lastUpdatedById',
+    'accessCount',
+    'lastAccessedAt',
+]);
+
+/**
+ * Fields kept encrypted in snapshots so reverts can restore them, but masked
+ * whenever revisions are listed
+ */
+const SECRET_FIELDS = ['secretValue'];
+
+// ============================================================================
+// REVISION SERVICE
+// ============================================================================
+
+export class MemoryRevisionService {
+    private readonly prisma = prismaRaw;
+    private readonly logger = logger;
+
+    /**
+     * Store a revision of an item. before is null for newly created items.
+     * Revisions are an audit trail, so a failure to write one is logged
+     * rather than failing the change itself.
+     */
+    async record(
+        itemType: RevisionItemType,
+        before: unknown,
+        after: unknown,
+        operation: RevisionOperation,
+        actor?: ActorContext,
+        options: RecordRevisionOptions = {}
+    ): Promise<MemoryRevision | null> {
+        const snapshot = toJson(after) as Record<string, unknown>;
+        const previous = before ? (toJson(before) as Record<string, unknown>) : {};
+        const itemId = snapshot.id as string;
+        const actorRef = describeActor(actor);
+
+        try {
+            return await this.prisma.memoryRevision.create({
+                data: {
+                    id: `rev-${uuidv4()}`,
+                    itemType,
+                    itemId,
+                    operation,
+                    snapshot: snapshot as Prisma.InputJsonObject,
+                    diff: diffSnapshots(previous, snapshot) as Prisma.InputJsonObject,
+                    actorType: actorRef.type,
+                    actorId: actorRef.id,
+                    traceId: actor?.traceId,
+                    revertedToId: options.revertedToId,
+                    organizationId: (snapshot.organizationId as string | null | undefined) ?? actor?.organizationId,
+                },
+            });
+        } catch (error) {
+            this.logger.warn({ error, itemType, itemId, operation }, 'Failed to record memory revision');
+            return null;
+        }
+    }
+
+    /**
+     * Revisions of an item, newest first, with secret values masked
+     */
+    async listRevisions(
+        itemType: RevisionItemType,
+        itemId: string,
+        actor: ActorContext,
+        options: { limit?: number } = {}
+    ): Promise<MemoryRevision[]> {
+        const revisions = await this.prisma.memoryRevision.findMany({
+            where: { itemType, itemId, organizationId: actor.organizationId },
+            orderBy: { createdAt: 'desc' },
+            take: options.limit,
+        });
+
+        return revisions.map(maskSecrets);
+    }
+
+    /**
+     * A revision of the given item; throws when it belongs to another item
+     * or organization
+     */
+    async getRevision(
+        revisionId: string,
+        itemType: RevisionItemType,
+        itemId: string,
+        actor: ActorContext
+    ): Promise<MemoryRevision> {
+        const revision = await this.prisma.memoryRevision.findFirst({
+            where: { id: revisionId, itemType, itemId, organizationId: actor.organizationId },
+        });
+
+        if (!revision) {
+            throw new NotFoundError('MemoryRevision', revisionId);
+        }
+
+        return revision;
+    }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Who made a change. An agent running a memory tool takes precedence over the
+ * user the tool acts for.
+ */
+function describeActor(actor?: ActorContext): { type: RevisionActorType; id: string | null } {
+    if (!actor) {
+        return { type: 'system', id: null };
+    }
+    if (actor.agentId) {
+        return { type: 'agent', id: actor.agentId };
+    }
+    if (actor.apiKeyId) {
+        return { type: 'api_key', id: actor.apiKeyId };
+    }
+    if (actor.userId) {
+        return { type: 'user', id: actor.userId };
+    }
+    return { type: 'client', id: actor.id };
+}
+
+function diffSnapshots(before: Record<string, unknown>, after: Record<string, unknown>): RevisionDiff {
+    const diff: RevisionDiff = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+        if (UNTRACKED_FIELDS.has(field)) {
+            continue;
+        }
+
+        const from = before[field] ?? null;
+        const to = after[field] ?? null;
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            diff[field] = { from, to };
+        }
+    }
+
+    return diff;
+}
+
+function maskSecrets(revision: MemoryRevision): MemoryRevision {
+    const snapshot = { ...(revision.snapshot as Record<string, unknown>) };
+    const diff = { ...(revision.diff as RevisionDiff) };
+    const mask = (value: unknown): unknown => (value ? MASKED_SECRET : value);
+
+    for (const field of SECRET_FIELDS) {
+        if (field in snapshot) {
+            snapshot[field] = mask(snapshot[field]);
+        }
+        if (diff[field]) {
+            diff[field] = { from: mask(diff[field].from), to: mask(diff[field].to) };
+        }
+    }
+
+    return {
+        ...revision,
+        snapshot: snapshot as Prisma.JsonObject,
+        diff: diff as Prisma.JsonObject,
+    };
+}
+
+/**
+ * Plain JSON copy of a record, with dates as ISO strings
+ */
+function toJson(record: unknown): unknown {
+    return JSON.parse(JSON.stringify(record));
+}
+
+export const memoryRevisionService = new MemoryRevisionService();
+
+export default memoryRevisionService;
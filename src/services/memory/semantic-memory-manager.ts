@@ -5,6 +5,7 @@
 
 import { SemanticMemoryItem, Prisma } from '@prisma/client';
 import { BaseMemoryManager, CacheConfig, MemoryListOptions } from './base-memory-manager';
+import type { MemoryProvenanceSource } from './provenance-service';
 import { RedisMemoryClient } from '../../database/redis-client';
 import { ActorContext, ListResult } from '../base-manager';
 import { ValidationError } from '../../errors';
@@ -15,7 +16,7 @@ import { ValidationError } from '../../errors';
 
 export interface LastModify {
     timestamp: string;
-    operation: 'created' | 'updated' | 'deleted';
+    operation: 'created' | 'updated' | 'deleted' | 'merged' | 'reverted';
 }
 
 export interface CreateSemanticMemoryInput {
@@ -30,6 +31,12 @@ export interface CreateSemanticMemoryInput {
     filterTags?: unknown;
     embeddingConfig?: unknown;
     clientId?: string;
+    /** Episodic events the item was consolidated from */
+    sourceEventIds?: string[];
+    /** How much the item matters, 0-1 (default: 0.5) */
+    importance?: number;
+    /** Messages and traces the item was written from */
+    provenance?: MemoryProvenanceSource;
 }
 
 export interface UpdateSemanticMemoryInput {
@@ -39,6 +46,8 @@ export interface UpdateSemanticMemoryInput {
     source?: string;
     filterTags?: unknown;
     embeddingConfig?: unknown;
+    sourceEventIds?: string[];
+    importance?: number;
 }
 
 // ============================================================================
@@ -54,6 +63,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
     UpdateSemanticMemoryInput
 > {
     protected readonly modelName = 'SemanticMemoryItem';
+    protected readonly memoryType = 'semantic' as const;
 
     protected readonly cacheConfig: CacheConfig = {
         enabled: true,
@@ -61,6 +71,16 @@ class SemanticMemoryManager extends BaseMemoryManager<
         ttl: 7200, // 2 hours
     };
 
+    protected readonly searchFields = ['name', 'summary', 'details', 'source'] as const;
+
+    protected readonly tableName = 'semantic_memory';
+
+    protected readonly embeddingColumns = {
+        name: 'name_embedding',
+        summary: 'summary_embedding',
+        details: 'details_embedding',
+    };
+
     protected getDelegate(): AnyDelegate {
         return this.prisma.semanticMemoryItem;
     }
@@ -96,6 +116,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
             agentId,
             source,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -121,6 +142,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
             agentId,
             name,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -143,6 +165,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
             agentId,
             name: { contains: pattern, mode: 'insensitive' },
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -167,6 +190,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
         const where: Prisma.SemanticMemoryItemWhereInput = {
             agentId,
             isDeleted: false,
+            archivedAt: null,
         };
 
         if (actor) {
@@ -194,6 +218,7 @@ class SemanticMemoryManager extends BaseMemoryManager<
             startDate,
             endDate,
             includeDeleted = false,
+            includeArchived = false,
             agentId,
             source,
         } = options;
@@ -206,6 +231,10 @@ class SemanticMemoryManager extends BaseMemoryManager<
             where.isDeleted = false;
         }
 
+        if (!includeArchived) {
+            where.archivedAt = null;
+        }
+
         if (agentId) {
             where.agentId = agentId;
         }
@@ -293,7 +322,9 @@ class SemanticMemoryManager extends BaseMemoryManager<
             source: data.source,
             filterTags: data.filterTags ?? Prisma.JsonNull,
             embeddingConfig: data.embeddingConfig ?? Prisma.JsonNull,
+            sourceEventIds: data.sourceEventIds ?? [],
             lastModify: lastModify as Prisma.InputJsonValue,
+            importance: data.importance,
             organization: data.organizationId
                 ? { connect: { id: data.organizationId } }
                 : undefined,
@@ -330,6 +361,8 @@ class SemanticMemoryManager extends BaseMemoryManager<
         if (data.source !== undefined) updateData.source = data.source;
         if (data.filterTags !== undefined) updateData.filterTags = data.filterTags as Prisma.InputJsonValue;
         if (data.embeddingConfig !== undefined) updateData.embeddingConfig = data.embeddingConfig as Prisma.InputJsonValue;
+        if (data.sourceEventIds !== undefined) updateData.sourceEventIds = data.sourceEventIds;
+        if (data.importance !== undefined) updateData.importance = data.importance;
 
         return updateData;
     }
@@ -23,6 +23,9 @@ export interface CreateStepInput {
     tags?: unknown;
     tid?: string;
     providerId?: string;
+    agentId?: string;
+    startedAt?: Date;
+    completedAt?: Date;
 }
 
 export interface UpdateStepInput {
@@ -33,11 +36,23 @@ export interface UpdateStepInput {
     totalTokens?: number;
     completionTokensDetails?: unknown;
     tags?: unknown;
+    completedAt?: Date;
 }
 
 export interface StepListOptions extends ListOptions {
     model?: string;
     providerName?: string;
+    agentId?: string;
+}
+
+export interface StepMessage {
+    id: string;
+    role: string;
+    text: string | null;
+    toolCalls: unknown;
+    toolCallId: string | null;
+    name: string | null;
+    createdAt: Date;
 }
 
 // ============================================================================
@@ -68,13 +83,21 @@ class StepManager extends BaseManager<
     async getStepMessages(
         stepId: string,
         actor?: ActorContext
-    ): Promise<{ id: string; role: string; text: string | null }[]> {
+    ): Promise<StepMessage[]> {
         const step = await this.getDelegate().findFirst({
             where: { id: stepId, isDeleted: false },
             include: {
                 messages: {
                     where: { isDeleted: false },
-                    select: { id: true, role: true, text: true },
+                    select: {
+                        id: true,
+                        role: true,
+                        text: true,
+                        toolCalls: true,
+                        toolCallId: true,
+                        name: true,
+                        createdAt: true,
+                    },
                     orderBy: { createdAt: 'asc' },
                 },
             },
@@ -104,6 +127,7 @@ class StepManager extends BaseManager<
             includeDeleted = false,
             model,
             providerName,
+            agentId,
         } = options;
 
         const where: Prisma.StepWhereInput = {
@@ -122,6 +146,10 @@ class StepManager extends BaseManager<
             where.providerName = providerName;
         }
 
+        if (agentId) {
+            where.agentId = agentId;
+        }
+
         if (startDate || endDate) {
             where.createdAt = {};
             if (startDate) where.createdAt.gte = startDate;
@@ -201,6 +229,11 @@ class StepManager extends BaseManager<
             completionTokensDetails: data.completionTokensDetails as Prisma.InputJsonValue | undefined,
             tags: data.tags as Prisma.InputJsonValue | undefined,
             tid: data.tid,
+            startedAt: data.startedAt,
+            completedAt: data.completedAt,
+            organizationId: data.organizationId ?? actor?.organizationId,
+            providerId: data.providerId,
+            agentId: data.agentId,
             createdById: actor?.id,
             lastUpdatedById: actor?.id,
         };
@@ -222,6 +255,7 @@ class StepManager extends BaseManager<
         if (data.totalTokens !== undefined) updateData.totalTokens = data.totalTokens;
         if (data.completionTokensDetails !== undefined) updateData.completionTokensDetails = data.completionTokensDetails as Prisma.InputJsonValue;
         if (data.tags !== undefined) updateData.tags = data.tags as Prisma.InputJsonValue;
+        if (data.completedAt !== undefined) updateData.completedAt = data.completedAt;
 
         return updateData;
     }
@@ -0,0 +1,549 @@
+/**
+ * Trace Manager
+ * Records memory queue runs, the agent runs they fan out to, and the tool
+ * calls each agent makes
+ */
+
+import { randomUUID } from 'crypto';
+import {
+    MemoryQueueTrace,
+    MemoryAgentTrace,
+    MemoryAgentToolCall,
+    Prisma,
+    TraceStatus,
+} from '@prisma/client';
+import { BaseManager, CacheConfig, ActorContext, ListOptions, ListResult } from './base-manager';
+import { ValidationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreateQueueTraceInput {
+    organizationId?: string;
+    clientId?: string;
+    userId?: string;
+    agentId?: string;
+    messageCount?: number;
+}
+
+export interface UpdateQueueTraceInput {
+    status?: TraceStatus;
+    /** Queue job processing the trace */
+    jobId?: string;
+    startedAt?: Date;
+    completedAt?: Date;
+    success?: boolean;
+    errorMessage?: string | null;
+    metaAgentOutput?: string | null;
+    triggeredMemoryTypes?: string[];
+    memoryUpdateCounts?: Record<string, number>;
+}
+
+export interface StartAgentTraceInput {
+    organizationId?: string;
+    queueTraceId?: string;
+    parentTraceId?: string;
+    agentId?: string;
+    agentName?: string;
+    agentType?: string;
+}
+
+export interface CompleteAgentTraceInput {
+    success: boolean;
+    errorMessage?: string;
+    assistantMessages?: string[];
+    triggeredMemoryTypes?: string[];
+    memoryUpdateCounts?: Record<string, number>;
+}
+
+export interface StartToolCallInput {
+    toolCallId?: string;
+    functionName: string;
+    functionArgs?: Record<string, unknown>;
+    /** LLM call (Step) that requested the tool; its tokens are shared by all its tool calls */
+    llmCallId?: string;
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+}
+
+export interface CompleteToolCallInput {
+    success: boolean;
+    responseText?: string;
+    errorMessage?: string;
+}
+
+export interface TraceListOptions extends ListOptions {
+    userId?: string;
+    agentId?: string;
+    clientId?: string;
+    status?: TraceStatus[];
+}
+
+/**
+ * Token and cost totals. Tokens belong to the LLM call that requested a tool,
+ * so tool calls sharing an `llmCallId` are counted once.
+ */
+export interface TraceUsage {
+    promptTokens: number;
+    completionTokens: number;
+    cachedTokens: number;
+    totalTokens: number;
+    creditCost: number;
+    llmCalls: number;
+    toolCalls: number;
+}
+
+export interface AgentTraceNode extends MemoryAgentTrace {
+    toolCalls: MemoryAgentToolCall[];
+    children: AgentTraceNode[];
+    /** Usage of this run's own tool calls, excluding its children */
+    usage: TraceUsage;
+}
+
+export interface QueueTraceTree extends MemoryQueueTrace {
+    agentTraces: AgentTraceNode[];
+    usage: TraceUsage;
+}
+
+export interface QueueTraceUsage {
+    traceId: string;
+    usage: TraceUsage;
+    /** Usage per agent name */
+    byAgent: Record<string, TraceUsage>;
+}
+
+type UsageFields = Pick<
+    MemoryAgentToolCall,
+    'llmCallId' | 'promptTokens' | 'completionTokens' | 'cachedTokens' | 'totalTokens' | 'creditCost'
+>;
+
+const USAGE_SELECT = {
+    llmCallId: true,
+    promptTokens: true,
+    completionTokens: true,
+    cachedTokens: true,
+    totalTokens: true,
+    creditCost: true,
+} as const;
+
+// ============================================================================
+// TRACE MANAGER
+// ============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AnyDelegate = any;
+
+class TraceManager extends BaseManager<
+    MemoryQueueTrace,
+    CreateQueueTraceInput,
+    UpdateQueueTraceInput
+> {
+    protected readonly modelName = 'MemoryQueueTrace';
+
+    protected readonly cacheConfig: CacheConfig = {
+        enabled: false,
+        prefix: 'trace:',
+        ttl: 0,
+        useHash: false,
+    };
+
+    protected getDelegate(): AnyDelegate {
+        return this.prisma.memoryQueueTrace;
+    }
+
+    // ========================================================================
+    // QUEUE TRACES
+    // ========================================================================
+
+    /**
+     * Mark a queued trace as picked up by a worker
+     */
+    async startQueueTrace(id: string): Promise<MemoryQueueTrace> {
+        return this.getDelegate().update({
+            where: { id },
+            data: { status: 'processing', startedAt: new Date() },
+        });
+    }
+
+    /**
+     * Record the outcome of a queue run
+     */
+    async completeQueueTrace(
+        id: string,
+        data: Omit<UpdateQueueTraceInput, 'status' | 'startedAt' | 'completedAt'> & { success: boolean }
+    ): Promise<MemoryQueueTrace> {
+        return this.getDelegate().update({
+            where: { id },
+            data: this.prepareUpdateData({
+                ...data,
+                status: data.success ? 'completed' : 'failed',
+                completedAt: new Date(),
+            }),
+        });
+    }
+
+    /**
+     * Record an interrupt request on a trace that has not finished yet
+     */
+    async requestInterrupt(
+        id: string,
+        reason: string,
+        actor?: ActorContext
+    ): Promise<MemoryQueueTrace> {
+        const trace = await this.read(id, actor);
+
+        if (trace.status === 'completed' || trace.status === 'failed') {
+            throw new ValidationError(`Trace ${id} has already finished`, { status: trace.status });
+        }
+
+        return this.getDelegate().update({
+            where: { id },
+            data: {
+                interruptRequestedAt: new Date(),
+                interruptReason: reason,
+                updatedAt: new Date(),
+                lastUpdatedById: actor?.id,
+            },
+        });
+    }
+
+    // ========================================================================
+    // AGENT TRACES
+    // ========================================================================
+
+    /**
+     * Open a trace for one agent run
+     */
+    async startAgentTrace(input: StartAgentTraceInput): Promise<MemoryAgentTrace> {
+        return this.prisma.memoryAgentTrace.create({
+            data: {
+                id: `atrace-${randomUUID()}`,
+                status: 'running',
+                organizationId: input.organizationId,
+                queueTraceId: input.queueTraceId,
+                parentTraceId: input.parentTraceId,
+                agentId: input.agentId,
+                agentName: input.agentName,
+                agentType: input.agentType,
+            },
+        });
+    }
+
+    /**
+     * Close an agent trace with its outcome
+     */
+    async completeAgentTrace(
+        id: string,
+        input: CompleteAgentTraceInput
+    ): Promise<MemoryAgentTrace> {
+        return this.prisma.memoryAgentTrace.update({
+            where: { id },
+            data: {
+                status: input.success ? 'completed' : 'failed',
+                completedAt: new Date(),
+                success: input.success,
+                errorMessage: input.errorMessage,
+                assistantMessages: input.assistantMessages,
+                triggeredMemoryTypes: input.triggeredMemoryTypes,
+                memoryUpdateCounts: input.memoryUpdateCounts,
+            },
+        });
+    }
+
+    // ========================================================================
+    // TOOL CALLS
+    // ========================================================================
+
+    /**
+     * Record a tool call as it starts
+     */
+    async startToolCall(
+        agentTraceId: string,
+        input: StartToolCallInput
+    ): Promise<MemoryAgentToolCall> {
+        return this.prisma.memoryAgentToolCall.create({
+            data: {
+                id: `tcall-${randomUUID()}`,
+                agentTraceId,
+                toolCallId: input.toolCallId,
+                functionName: input.functionName,
+                functionArgs: input.functionArgs as Prisma.InputJsonValue | undefined,
+                llmCallId: input.llmCallId,
+                promptTokens: input.promptTokens,
+                completionTokens: input.completionTokens,
+                totalTokens: input.totalTokens,
+                status: 'running',
+            },
+        });
+    }
+
+    /**
+     * Record the result of a tool call
+     */
+    async completeToolCall(
+        id: string,
+        input: CompleteToolCallInput
+    ): Promise<MemoryAgentToolCall> {
+        return this.prisma.memoryAgentToolCall.update({
+            where: { id },
+            data: {
+                status: input.success ? 'completed' : 'failed',
+                completedAt: new Date(),
+                success: input.success,
+                responseText: input.responseText,
+                errorMessage: input.errorMessage,
+            },
+        });
+    }
+
+    // ========================================================================
+    // QUERIES
+    // ========================================================================
+
+    /**
+     * List queue traces, newest first, optionally with per-trace usage
+     */
+    async listTraces(
+        actor: ActorContext,
+        options: TraceListOptions & { includeUsage?: boolean } = {}
+    ): Promise<ListResult<MemoryQueueTrace & { usage?: TraceUsage }>> {
+        const {
+            cursor,
+            limit = 50,
+            sort = { field: 'queuedAt', order: 'desc' },
+            startDate,
+            endDate,
+            includeDeleted = false,
+            userId,
+            agentId,
+            clientId,
+            status,
+            includeUsage = false,
+        } = options;
+
+        const where: Prisma.MemoryQueueTraceWhereInput = {
+            organizationId: actor.organizationId,
+        };
+
+        if (!includeDeleted) {
+            where.isDeleted = false;
+        }
+
+        if (userId) where.userId = userId;
+        if (agentId) where.agentId = agentId;
+        if (clientId) where.clientId = clientId;
+
+        if (status && status.length > 0) {
+            where.status = { in: status };
+        }
+
+        if (startDate || endDate) {
+            where.queuedAt = {};
+            if (startDate) where.queuedAt.gte = startDate;
+            if (endDate) where.queuedAt.lte = endDate;
+        }
+
+        const [items, total] = await Promise.all([
+            this.getDelegate().findMany({
+                where,
+                orderBy: { [sort.field]: sort.order },
+                take: limit + 1,
+                skip: cursor ? 1 : 0,
+                cursor: cursor ? { id: cursor } : undefined,
+            }) as Promise<MemoryQueueTrace[]>,
+            this.getDelegate().count({ where }) as Promise<number>,
+        ]);
+
+        const hasMore = items.length > limit;
+        if (hasMore) items.pop();
+
+        const nextCursor = hasMore && items.length > 0
+            ? items[items.length - 1].id
+            : undefined;
+
+        if (!includeUsage || items.length === 0) {
+            return { items, total, hasMore, nextCursor };
+        }
+
+        const calls = await this.prisma.memoryAgentToolCall.findMany({
+            where: {
+                isDeleted: false,
+                agentTrace: { queueTraceId: { in: items.map((item) => item.id) } },
+            },
+            select: { ...USAGE_SELECT, agentTrace: { select: { queueTraceId: true } } },
+        });
+
+        const callsByTrace = new Map<string, UsageFields[]>();
+        for (const call of calls) {
+            const traceId = call.agentTrace.queueTraceId;
+            if (!traceId) continue;
+            const list = callsByTrace.get(traceId) ?? [];
+            list.push(call);
+            callsByTrace.set(traceId, list);
+        }
+
+        return {
+            items: items.map((item) => ({ ...item, usage: summarizeUsage(callsByTrace.get(item.id) ?? []) })),
+            total,
+            hasMore,
+            nextCursor,
+        };
+    }
+
+    /**
+     * Fetch a queue trace with its agent runs nested by parent and each run's tool calls
+     */
+    async getTraceTree(id: string, actor?: ActorContext): Promise<QueueTraceTree> {
+        const trace = await this.read(id, actor);
+
+        const agentTraces = await this.prisma.memoryAgentTrace.findMany({
+            where: { queueTraceId: trace.id, isDeleted: false },
+            include: {
+                toolCalls: {
+                    where: { isDeleted: false },
+                    orderBy: { startedAt: 'asc' },
+                },
+            },
+            orderBy: { startedAt: 'asc' },
+        });
+
+        const nodes = new Map<string, AgentTraceNode>(
+            agentTraces.map((agentTrace) => [
+                agentTrace.id,
+                { ...agentTrace, children: [], usage: summarizeUsage(agentTrace.toolCalls) },
+            ])
+        );
+
+        const roots: AgentTraceNode[] = [];
+        for (const node of nodes.values()) {
+            const parent = node.parentTraceId ? nodes.get(node.parentTraceId) : undefined;
+            if (parent) {
+                parent.children.push(node);
+            } else {
+                roots.push(node);
+            }
+        }
+
+        return {
+            ...trace,
+            agentTraces: roots,
+            usage: summarizeUsage(agentTraces.flatMap((agentTrace) => agentTrace.toolCalls)),
+        };
+    }
+
+    /**
+     * Aggregate tokens and cost for a queue trace, in total and per agent
+     */
+    async getTraceUsage(id: string, actor?: ActorContext): Promise<QueueTraceUsage> {
+        const trace = await this.read(id, actor);
+
+        const agentTraces = await this.prisma.memoryAgentTrace.findMany({
+            where: { queueTraceId: trace.id, isDeleted: false },
+            select: {
+                agentName: true,
+                toolCalls: { where: { isDeleted: false }, select: USAGE_SELECT },
+            },
+        });
+
+        const callsByAgent = new Map<string, UsageFields[]>();
+        for (const agentTrace of agentTraces) {
+            const name = agentTrace.agentName ?? 'unknown';
+            callsByAgent.set(name, [...(callsByAgent.get(name) ?? []), ...agentTrace.toolCalls]);
+        }
+
+        const byAgent: Record<string, TraceUsage> = {};
+        for (const [name, calls] of callsByAgent) {
+            byAgent[name] = summarizeUsage(calls);
+        }
+
+        return {
+            traceId: trace.id,
+            usage: summarizeUsage(agentTraces.flatMap((agentTrace) => agentTrace.toolCalls)),
+            byAgent,
+        };
+    }
+
+    // ========================================================================
+    // HELPERS
+    // ========================================================================
+
+    protected prepareCreateData(
+        data: CreateQueueTraceInput,
+        actor?: ActorContext
+    ): Prisma.MemoryQueueTraceUncheckedCreateInput {
+        return {
+            id: `qtrace-${randomUUID()}`,
+            status: 'queued',
+            messageCount: data.messageCount ?? 0,
+            organizationId: data.organizationId ?? actor?.organizationId,
+            clientId: data.clientId,
+            userId: data.userId,
+            agentId: data.agentId,
+            createdById: actor?.id,
+            lastUpdatedById: actor?.id,
+        };
+    }
+
+    protected prepareUpdateData(
+        data: UpdateQueueTraceInput,
+        actor?: ActorContext
+    ): Prisma.MemoryQueueTraceUncheckedUpdateInput {
+        const updateData: Prisma.MemoryQueueTraceUncheckedUpdateInput = {
+            updatedAt: new Date(),
+            lastUpdatedById: actor?.id,
+        };
+
+        if (data.status !== undefined) updateData.status = data.status;
+        if (data.jobId !== undefined) updateData.jobId = data.jobId;
+        if (data.startedAt !== undefined) updateData.startedAt = data.startedAt;
+        if (data.completedAt !== undefined) updateData.completedAt = data.completedAt;
+        if (data.success !== undefined) updateData.success = data.success;
+        if (data.errorMessage !== undefined) updateData.errorMessage = data.errorMessage;
+        if (data.metaAgentOutput !== undefined) updateData.metaAgentOutput = data.metaAgentOutput;
+        if (data.triggeredMemoryTypes !== undefined) updateData.triggeredMemoryTypes = data.triggeredMemoryTypes;
+        if (data.memoryUpdateCounts !== undefined) updateData.memoryUpdateCounts = data.memoryUpdateCounts;
+
+        return updateData;
+    }
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+/**
+ * Sum token and cost fields, counting each LLM call once
+ */
+function summarizeUsage(calls: UsageFields[]): TraceUsage {
+    const usage: TraceUsage = {
+        promptTokens: 0,
+        completionTokens: 0,
+        cachedTokens: 0,
+        totalTokens: 0,
+        creditCost: 0,
+        llmCalls: 0,
+        toolCalls: calls.length,
+    };
+
+    const seen = new Set<string>();
+    for (const call of calls) {
+        if (call.llmCallId) {
+            if (seen.has(call.llmCallId)) continue;
+            seen.add(call.llmCallId);
+        }
+
+        usage.llmCalls++;
+        usage.promptTokens += call.promptTokens ?? 0;
+        usage.completionTokens += call.completionTokens ?? 0;
+        usage.cachedTokens += call.cachedTokens ?? 0;
+        usage.totalTokens += call.totalTokens ?? 0;
+        usage.creditCost += call.creditCost ?? 0;
+    }
+
+    return usage;
+}
+
+export const traceManager = new TraceManager();
+export default traceManager;
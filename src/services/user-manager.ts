@@ -13,6 +13,7 @@ import { ValidationError } from '../errors';
 // ============================================================================
 
 export interface CreateUserInput {
+    id?: string;
     name: string;
     status?: string;
     timezone?: string;
@@ -94,6 +95,40 @@ class UserManager extends BaseManager<
         });
     }
 
+    /**
+     * Get an existing user by ID (or by name when no ID is given),
+     * creating it if it does not exist yet
+     */
+    async createOrGet(
+        data: CreateUserInput,
+        actor?: ActorContext
+    ): Promise<{ user: User; created: boolean }> {
+        const existing = data.id
+            ? await this.getDelegate().findFirst({
+                where: {
+                    id: data.id,
+                    organizationId: data.organizationId,
+                    isDeleted: false,
+                },
+            })
+            : await this.findByName(data.name, data.organizationId);
+
+        if (existing) {
+            return { user: existing, created: false };
+        }
+
+        if (data.id) {
+            // IDs are global, so refuse to shadow a user from another organization
+            const other = await this.getDelegate().findUnique({ where: { id: data.id } });
+            if (other) {
+                throw new ValidationError('User ID already in use', { field: 'id' });
+            }
+        }
+
+        const user = await this.create(data, actor);
+        return { user, created: true };
+    }
+
     /**
      * List users with additional filters
      */
@@ -218,11 +253,12 @@ class UserManager extends BaseManager<
      */
     async updateLastSelfReflectionTime(
         id: string,
-        actor?: ActorContext
+        actor?: ActorContext,
+        time: Date = new Date()
     ): Promise<User> {
         return this.update(
             id,
-            { lastSelfReflectionTime: new Date() },
+            { lastSelfReflectionTime: time },
             actor
         );
     }
@@ -275,6 +311,7 @@ class UserManager extends BaseManager<
         actor?: ActorContext
     ): Prisma.UserCreateInput {
         return {
+            id: data.id,
             name: data.name,
             status: data.status ?? 'active',
             timezone: data.timezone ?? 'UTC',
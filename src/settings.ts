@@ -237,6 +237,20 @@ export interface Settings {
     // Memory queue settings
     memoryQueueNumWorkers: number;
     buildEmbeddingsForMemory: boolean;
+    fullTextSearchLanguage: string;
+    memoryAgentConcurrency: number;
+    queueTenantConcurrency: number;
+    queueTenantQuota: number;
+    memoryDuplicatePolicy: string;
+    memoryDuplicateThreshold: number;
+    memoryDecayFunction: string;
+    memoryDecayHalfLifeDays: number;
+    memoryForgetAction: string;
+    memoryForgetThreshold: number;
+    memoryForgetMinAgeDays: number;
+    memoryRankingRecencyWeight: number;
+    memoryRankingImportanceWeight: number;
+    memoryRankingFrequencyWeight: number;
 
     // Event loop parallelism
     eventLoopThreadpoolMaxWorkers: number;
@@ -269,6 +283,10 @@ export interface Settings {
     jwtSecretKey?: string;
     jwtExpirationHours: number;
 
+    // Secret vault settings
+    secretKeyProvider: string;
+    secretMasterKeyFile: string;
+
     // Computed properties
     mirixPgUri: string;
     mirixRedisUri?: string;
@@ -374,6 +392,20 @@ function createSettings(): Settings {
         // Memory queue settings
         memoryQueueNumWorkers: getEnvNumber('MIRIX_MEMORY_QUEUE_NUM_WORKERS', 1),
         buildEmbeddingsForMemory: getEnvBoolean('MIRIX_BUILD_EMBEDDINGS_FOR_MEMORY', true),
+        fullTextSearchLanguage: getEnvString('MIRIX_FULL_TEXT_SEARCH_LANGUAGE', 'english')!,
+        memoryAgentConcurrency: getEnvNumber('MIRIX_MEMORY_AGENT_CONCURRENCY', 3),
+        queueTenantConcurrency: getEnvNumber('MIRIX_QUEUE_TENANT_CONCURRENCY', 2),
+        queueTenantQuota: getEnvNumber('MIRIX_QUEUE_TENANT_QUOTA', 1000),
+        memoryDuplicatePolicy: getEnvString('MIRIX_MEMORY_DUPLICATE_POLICY', 'merge')!,
+        memoryDuplicateThreshold: getEnvFloat('MIRIX_MEMORY_DUPLICATE_THRESHOLD', 0.9),
+        memoryDecayFunction: getEnvString('MIRIX_MEMORY_DECAY_FUNCTION', 'exponential')!,
+        memoryDecayHalfLifeDays: getEnvFloat('MIRIX_MEMORY_DECAY_HALF_LIFE_DAYS', 30),
+        memoryForgetAction: getEnvString('MIRIX_MEMORY_FORGET_ACTION', 'archive')!,
+        memoryForgetThreshold: getEnvFloat('MIRIX_MEMORY_FORGET_THRESHOLD', 0.1),
+        memoryForgetMinAgeDays: getEnvNumber('MIRIX_MEMORY_FORGET_MIN_AGE_DAYS', 90),
+        memoryRankingRecencyWeight: getEnvFloat('MIRIX_MEMORY_RANKING_RECENCY_WEIGHT', 0.15),
+        memoryRankingImportanceWeight: getEnvFloat('MIRIX_MEMORY_RANKING_IMPORTANCE_WEIGHT', 0.15),
+        memoryRankingFrequencyWeight: getEnvFloat('MIRIX_MEMORY_RANKING_FREQUENCY_WEIGHT', 0.1),
 
         // Event loop parallelism
         eventLoopThreadpoolMaxWorkers: getEnvNumber('MIRIX_EVENT_LOOP_THREADPOOL_MAX_WORKERS', 43),
@@ -406,6 +438,10 @@ function createSettings(): Settings {
         jwtSecretKey: getEnvString('MIRIX_JWT_SECRET_KEY'),
         jwtExpirationHours: getEnvNumber('MIRIX_JWT_EXPIRATION_HOURS', 24),
 
+        // Secret vault settings
+        secretKeyProvider: getEnvString('MIRIX_SECRET_KEY_PROVIDER', 'local')!,
+        secretMasterKeyFile: getEnvPath('MIRIX_SECRET_MASTER_KEY_FILE', path.join(mirixDir, 'master.key')),
+
         // Computed properties
         mirixPgUri,
         mirixRedisUri,
@@ -0,0 +1,75 @@
+/**
+ * Built-in Tools
+ * Registers the MIRIX tool definitions and mirrors them into the tools table
+ * so agents can be attached to them
+ */
+
+import { ToolDefinition } from './types';
+import { toolRegistry } from './registry';
+import { sendMessageTool, conversationSearchTool } from './core/index';
+import { coreMemoryTools } from './memory/core-memory';
+import { memoryTools } from './memory/memory-tools';
+import { toolManager } from '../services/tool-manager';
+import { ActorContext } from '../services/base-manager';
+import { logger } from '../log';
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+export const builtinTools: ToolDefinition[] = [
+    sendMessageTool,
+    conversationSearchTool,
+    ...coreMemoryTools,
+    ...memoryTools,
+];
+
+/**
+ * Register every built-in tool that is not registered yet
+ */
+export function registerBuiltinTools(): void {
+    for (const definition of builtinTools) {
+        if (!toolRegistry.has(definition.name)) {
+            toolRegistry.register(definition);
+        }
+    }
+}
+
+// ============================================================================
+// AGENT ATTACHMENT
+// ============================================================================
+
+/**
+ * Ensure the organization has tool records for the given built-in tools and
+ * attach them to an agent. Agents load their tools from these records.
+ */
+export async function attachBuiltinTools(
+    agentId: string,
+    toolNames: string[],
+    actor: ActorContext
+): Promise<void> {
+    registerBuiltinTools();
+
+    for (const name of toolNames) {
+        const definition = toolRegistry.getOrThrow(name);
+
+        const tool = await toolManager.findByName(name, actor.organizationId)
+            ?? await toolManager.create(
+                {
+                    organizationId: actor.organizationId,
+                    name,
+                    description: definition.description,
+                    toolType: definition.toolType,
+                    sourceType: definition.sourceType,
+                    jsonSchema: definition.parameters as unknown as Record<string, unknown>,
+                    tags: definition.tags,
+                    returnCharLimit: definition.returnCharLimit,
+                },
+                actor
+            );
+
+        await toolManager.attachToAgent(tool.id, agentId, actor);
+    }
+
+    logger.debug({ agentId, tools: toolNames }, 'Attached built-in tools to agent');
+}
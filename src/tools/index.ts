@@ -61,4 +61,13 @@ export {
     coreMemoryGetTool,
     coreMemoryUpdateTool,
     coreMemoryAppendTool,
+    memoryTools,
+    MEMORY_AGENT_TOOLS,
 } from './memory/index';
+
+// Built-in Tools
+export {
+    builtinTools,
+    registerBuiltinTools,
+    attachBuiltinTools,
+} from './builtin';
@@ -5,8 +5,22 @@
 
 import { ToolDefinition, ToolExecutionContext, ToolExecutionResult } from '../types';
 import { blockManager } from '../../services/block-manager';
+import { ActorContext } from '../../services/base-manager';
 import { logger } from '../../log';
 
+/**
+ * Block writes are attributed to the calling agent and its trace in the
+ * block's revision history
+ */
+function toActor(context: ToolExecutionContext): ActorContext {
+    return {
+        id: context.userId,
+        organizationId: context.organizationId,
+        agentId: context.agentId,
+        traceId: context.traceId,
+    };
+}
+
 // ============================================================================
 // CORE MEMORY READ TOOL
 // ============================================================================
@@ -20,7 +34,8 @@ async function handleCoreMemoryGet(
     try {
         const blocks = await blockManager.getAgentBlocks(
             context.agentId,
-            { id: context.userId, organizationId: context.organizationId }
+            { id: context.userId, organizationId: context.organizationId },
+            context.userId
         );
 
         if (label) {
@@ -97,8 +112,8 @@ async function handleCoreMemoryUpdate(
     }
 
     try {
-        const actor = { id: context.userId, organizationId: context.organizationId };
-        const blocks = await blockManager.getAgentBlocks(context.agentId, actor);
+        const actor = toActor(context);
+        const blocks = await blockManager.getAgentBlocks(context.agentId, actor, context.userId);
         const block = blocks.find((b) => b.label === label);
 
         if (!block) {
@@ -176,8 +191,8 @@ async function handleCoreMemoryAppend(
     }
 
     try {
-        const actor = { id: context.userId, organizationId: context.organizationId };
-        const blocks = await blockManager.getAgentBlocks(context.agentId, actor);
+        const actor = toActor(context);
+        const blocks = await blockManager.getAgentBlocks(context.agentId, actor, context.userId);
         const block = blocks.find((b) => b.label === label);
 
         if (!block) {
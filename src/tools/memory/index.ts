@@ -9,3 +9,8 @@ export {
     coreMemoryUpdateTool,
     coreMemoryAppendTool,
 } from './core-memory';
+
+export {
+    memoryTools,
+    MEMORY_AGENT_TOOLS,
+} from './memory-tools';
@@ -0,0 +1,85 @@
+/**
+ * Memory Tools
+ * Tool definitions for the episodic, semantic, procedural, resource and
+ * knowledge memory functions used by the memory sub-agents
+ */
+
+import { ToolDefinition, ToolExecutionContext, ToolExecutionResult } from '../types';
+import {
+    memoryFunctions,
+    memoryFunctionSchemas,
+    coreMemoryRewriteSchema,
+} from '../../functions/memory-functions';
+import type { FunctionSchema } from '../../functions/schema-generator';
+import { logger } from '../../log';
+
+// ============================================================================
+// TOOL FACTORY
+// ============================================================================
+
+type MemoryFunctionName = keyof typeof memoryFunctions;
+
+/**
+ * Wrap a memory function as a tool handler, reporting thrown errors as failed results
+ */
+function toHandler(name: MemoryFunctionName) {
+    const fn = memoryFunctions[name] as (
+        args: Record<string, unknown>,
+        context: ToolExecutionContext
+    ) => Promise<unknown>;
+
+    return async (
+        args: Record<string, unknown>,
+        context: ToolExecutionContext
+    ): Promise<ToolExecutionResult> => {
+        try {
+            return { success: true, result: await fn(args, context) };
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            logger.error({ error: errorMessage, agentId: context.agentId }, `${name} failed`);
+            return { success: false, error: errorMessage };
+        }
+    };
+}
+
+function toTool(schema: FunctionSchema, tags: string[]): ToolDefinition {
+    return {
+        name: schema.name,
+        description: schema.description,
+        parameters: { ...schema.parameters, additionalProperties: false },
+        handler: toHandler(schema.name as MemoryFunctionName),
+        toolType: 'mirix_memory_core',
+        sourceType: 'json',
+        tags,
+    };
+}
+
+// ============================================================================
+// MEMORY TOOLS
+// ============================================================================
+
+/**
+ * Tools for every memory function except the core block tools already
+ * provided by core-memory.ts (core_memory_rewrite has no equivalent there)
+ */
+export const memoryTools: ToolDefinition[] = memoryFunctionSchemas
+    .filter((schema) => !schema.name.startsWith('core_') || schema === coreMemoryRewriteSchema)
+    .map((schema) => {
+        const [memoryType] = schema.name.split('_');
+        const access = /_(search|get)$/.test(schema.name) ? 'read' : 'write';
+        return toTool(schema, ['memory', `${memoryType}-memory`, access]);
+    });
+
+/**
+ * Tool names each memory sub-agent is attached to
+ */
+export const MEMORY_AGENT_TOOLS: Record<string, string[]> = {
+    episodic_memory_agent: ['episodic_memory_insert', 'episodic_memory_search'],
+    semantic_memory_agent: ['semantic_memory_insert', 'semantic_memory_search', 'semantic_memory_update'],
+    procedural_memory_agent: ['procedural_memory_insert', 'procedural_memory_search'],
+    resource_memory_agent: ['resource_memory_insert', 'resource_memory_search'],
+    knowledge_memory_agent: ['knowledge_memory_insert', 'knowledge_memory_search'],
+    core_memory_agent: ['core_memory_get', 'core_memory_append', 'core_memory_rewrite'],
+};
+
+export default memoryTools;
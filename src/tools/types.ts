@@ -30,6 +30,14 @@ export interface ToolExecutionContext {
     clientId?: string;
     messageId?: string;
     stepId?: string;
+    /** Memory agent trace of the run the tool is called from */
+    traceId?: string;
+    /** Queue trace of the memory update the run belongs to */
+    queueTraceId?: string;
+    /** Sub-agent running the tool, e.g. semantic_memory_agent */
+    agentType?: string;
+    /** Messages the memory update was started from */
+    sourceMessageIds?: string[];
 }
 
 /**
@@ -6,6 +6,7 @@
 
 import { createHash, randomUUID } from 'crypto';
 import path from 'path';
+import { encoding_for_model, get_encoding, Tiktoken, TiktokenModel } from 'tiktoken';
 import {
     TOOL_CALL_ID_MAX_LEN,
     MAX_FILENAME_LENGTH,
@@ -585,54 +586,72 @@ export async function retry<T>(
 }
 
 /**
- * Run multiple promises with concurrency limit
+ * Run multiple promises with concurrency limit.
+ * Results are returned in the same order as `items`.
  */
 export async function runWithConcurrency<T, R>(
     items: T[],
     fn: (item: T) => Promise<R>,
     concurrency: number
 ): Promise<R[]> {
-    const results: R[] = [];
-    const executing: Promise<void>[] = [];
+    const results: R[] = new Array(items.length);
+    let next = 0;
 
-    for (const item of items) {
-        const p = Promise.resolve().then(async () => {
-            const result = await fn(item);
-            results.push(result);
-        });
-
-        executing.push(p);
-
-        if (executing.length >= concurrency) {
-            await Promise.race(executing);
-            executing.splice(
-                executing.findIndex(p => p === Promise.resolve()),
-                1
-            );
+    const worker = async (): Promise<void> => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
         }
-    }
+    };
+
+    const workerCount = Math.min(Math.max(1, concurrency), items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
 
-    await Promise.all(executing);
     return results;
 }
 
 // ============================================================================
-// TOKEN COUNTING (Placeholder)
+// TOKEN COUNTING
 // ============================================================================
 
 /**
  * Estimate token count (rough approximation)
- * Note: For accurate token counting, use tiktoken or similar library
+ * Note: For accurate token counting, use countTokens
  */
 export function estimateTokenCount(text: string): number {
     // Rough estimation: ~4 characters per token for English
     return Math.ceil(text.length / 4);
 }
 
+// Encoders are WASM-backed and expensive to build, so keep one per model
+const encoderCache = new Map<string, Tiktoken>();
+
+function getEncoder(model: string): Tiktoken {
+    let encoder = encoderCache.get(model);
+    if (!encoder) {
+        try {
+            encoder = encoding_for_model(model as TiktokenModel);
+        } catch {
+            // Unknown to tiktoken (e.g. non-OpenAI models): fall back to cl100k_base
+            encoder = get_encoding('cl100k_base');
+        }
+        encoderCache.set(model, encoder);
+    }
+    return encoder;
+}
+
 /**
- * Count tokens (placeholder - requires tiktoken integration)
+ * Count tokens with tiktoken for the given model
  */
-export function countTokens(text: string, _model: string = 'gpt-4'): number {
-    // TODO: Integrate with js-tiktoken for accurate counting
-    return estimateTokenCount(text);
+export function countTokens(text: string, model: string = 'gpt-4'): number {
+    if (!text) {
+        return 0;
+    }
+
+    try {
+        return getEncoder(model).encode(text).length;
+    } catch (error) {
+        logger.debug({ model, error }, 'Token counting failed, using estimate');
+        return estimateTokenCount(text);
+    }
 }